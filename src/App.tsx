@@ -9,7 +9,13 @@ import Auth from "./pages/Auth";
 import Redeem from "./pages/Redeem";
 import Ranking from "./pages/Ranking";
 import Profile from "./pages/Profile";
+import Trades from "./pages/Trades";
+import ClaimGift from "./pages/ClaimGift";
+import CollectorProfile from "./pages/CollectorProfile";
 import AdminDashboard from "./pages/admin/AdminDashboard";
+import EventPresenter from "./pages/admin/EventPresenter";
+import EventFeed from "./pages/admin/EventFeed";
+import EventPrint from "./pages/admin/EventPrint";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -27,7 +33,13 @@ const App = () => (
             <Route path="/redeem" element={<Redeem />} />
             <Route path="/ranking" element={<Ranking />} />
             <Route path="/profile" element={<Profile />} />
+            <Route path="/trades" element={<Trades />} />
+            <Route path="/gift/:token" element={<ClaimGift />} />
+            <Route path="/collectors/:userId" element={<CollectorProfile />} />
             <Route path="/admin" element={<AdminDashboard />} />
+            <Route path="/admin/events/:eventId/present" element={<EventPresenter />} />
+            <Route path="/admin/events/:eventId/feed" element={<EventFeed />} />
+            <Route path="/admin/events/:eventId/print" element={<EventPrint />} />
             <Route path="*" element={<Index />} />
           </Routes>
         </BrowserRouter>
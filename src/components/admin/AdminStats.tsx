@@ -1,13 +1,23 @@
-import { useQuery } from '@tanstack/react-query';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { motion } from 'framer-motion';
 import { supabase } from '@/integrations/supabase/client';
+import { useCardRedemptions } from '@/hooks/use-card-redemptions';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Users, Layers, Calendar, Award } from 'lucide-react';
 
+interface Stats {
+  seasons: number;
+  events: number;
+  users: number;
+  cardsRedeemed: number;
+}
+
 const AdminStats = () => {
+  const queryClient = useQueryClient();
+
   const { data: stats, isLoading } = useQuery({
     queryKey: ['admin-stats'],
-    queryFn: async () => {
+    queryFn: async (): Promise<Stats> => {
       const [seasonsRes, eventsRes, usersRes, cardsRes] = await Promise.all([
         supabase.from('seasons').select('id', { count: 'exact' }),
         supabase.from('events').select('id', { count: 'exact' }),
@@ -24,6 +34,14 @@ const AdminStats = () => {
     },
   });
 
+  // Count redemptions as they are broadcast instead of refetching every total
+  useCardRedemptions((redemption) => {
+    if (redemption.upgrade) return;
+    queryClient.setQueryData<Stats>(['admin-stats'], (current) =>
+      current ? { ...current, cardsRedeemed: current.cardsRedeemed + 1 } : current
+    );
+  });
+
   const statCards = [
     {
       title: 'Temporadas',
@@ -91,7 +109,14 @@ const AdminStats = () => {
               </div>
             </CardHeader>
             <CardContent>
-              <div className="text-3xl font-bold">{stat.value}</div>
+              <motion.div
+                key={stat.value}
+                initial={{ scale: 1.2, opacity: 0.6 }}
+                animate={{ scale: 1, opacity: 1 }}
+                className="text-3xl font-bold origin-left"
+              >
+                {stat.value}
+              </motion.div>
             </CardContent>
           </Card>
         </motion.div>
@@ -0,0 +1,186 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Link } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { toast } from 'sonner';
+import { Loader2, Plus, Printer, Ticket, Trash2 } from 'lucide-react';
+import { formatDeadline } from '@/lib/deadline';
+
+interface AttendeeCode {
+  id: string;
+  code: string;
+  redeemed_at: string | null;
+  redeemer_name: string | null;
+}
+
+interface AttendeeCodesPanelProps {
+  eventId: string;
+}
+
+const AttendeeCodesPanel = ({ eventId }: AttendeeCodesPanelProps) => {
+  const queryClient = useQueryClient();
+  const [count, setCount] = useState('20');
+
+  const { data: codes, isLoading } = useQuery({
+    queryKey: ['attendee-codes', eventId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('event_attendee_codes')
+        .select('id, code, redeemed_by, redeemed_at')
+        .eq('event_id', eventId)
+        .order('created_at');
+      if (error) throw error;
+
+      const redeemerIds = [...new Set(data.map((row) => row.redeemed_by).filter(Boolean))];
+      let names = new Map<string, string | null>();
+      if (redeemerIds.length) {
+        const { data: profiles, error: profilesError } = await supabase
+          .from('profiles_public')
+          .select('user_id, display_name')
+          .in('user_id', redeemerIds);
+        if (profilesError) throw profilesError;
+        names = new Map(profiles.map((profile) => [profile.user_id, profile.display_name]));
+      }
+
+      return data.map((row) => ({
+        id: row.id,
+        code: row.code,
+        redeemed_at: row.redeemed_at,
+        redeemer_name: row.redeemed_by ? names.get(row.redeemed_by) ?? 'Membro' : null,
+      })) as AttendeeCode[];
+    },
+  });
+
+  const generateMutation = useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase.rpc('generate_event_codes', {
+        _event_id: eventId,
+        _count: Number(count),
+      });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (created) => {
+      queryClient.invalidateQueries({ queryKey: ['attendee-codes', eventId] });
+      toast.success(`${created} códigos gerados!`);
+    },
+    onError: (error) => {
+      toast.error('Erro ao gerar códigos: ' + error.message);
+    },
+  });
+
+  // Only codes nobody has used can go; burned ones are the redemption record
+  const deleteMutation = useMutation({
+    mutationFn: async (codeId: string) => {
+      const { error } = await supabase
+        .from('event_attendee_codes')
+        .delete()
+        .eq('id', codeId)
+        .is('redeemed_at', null);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['attendee-codes', eventId] });
+      toast.success('Código removido.');
+    },
+    onError: (error) => {
+      toast.error('Erro ao remover código: ' + error.message);
+    },
+  });
+
+  const usedCount = codes?.filter((code) => code.redeemed_at).length ?? 0;
+  const availableCount = (codes?.length ?? 0) - usedCount;
+  const validCount = Number.isInteger(Number(count)) && Number(count) >= 1 && Number(count) <= 500;
+
+  return (
+    <div className="p-3 rounded-lg bg-muted/50 space-y-2">
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span className="flex items-center gap-2">
+          <Ticket className="w-3 h-3" />
+          Códigos individuais
+        </span>
+        <span>
+          {usedCount} de {codes?.length ?? 0} usados
+        </span>
+      </div>
+
+      <div className="flex gap-2">
+        <Input
+          type="number"
+          min={1}
+          max={500}
+          value={count}
+          onChange={(e) => setCount(e.target.value)}
+          className="h-8"
+        />
+        <Button
+          size="sm"
+          variant="outline"
+          disabled={!validCount || generateMutation.isPending}
+          onClick={() => generateMutation.mutate()}
+        >
+          {generateMutation.isPending ? (
+            <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+          ) : (
+            <Plus className="w-4 h-4 mr-1" />
+          )}
+          Gerar
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-2">
+          <Loader2 className="w-4 h-4 animate-spin text-primary" />
+        </div>
+      ) : codes?.length ? (
+        <ScrollArea className="h-32 rounded-md border border-border/50">
+          <ul className="divide-y divide-border/50 text-xs">
+            {codes.map((code) => (
+              <li key={code.id} className="flex items-center justify-between gap-2 px-2 py-1">
+                <code className={`font-mono ${code.redeemed_at ? 'line-through text-muted-foreground' : 'font-bold'}`}>
+                  {code.code}
+                </code>
+                <span className="flex items-center gap-1 min-w-0 text-muted-foreground">
+                  <span className="truncate">
+                    {code.redeemed_at
+                      ? `${code.redeemer_name ?? 'Conta removida'} · ${formatDeadline(code.redeemed_at)}`
+                      : 'Disponível'}
+                  </span>
+                  {!code.redeemed_at && (
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-6 w-6 shrink-0 text-destructive"
+                      disabled={deleteMutation.isPending}
+                      onClick={() => deleteMutation.mutate(code.id)}
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </Button>
+                  )}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </ScrollArea>
+      ) : (
+        <p className="text-xs text-muted-foreground text-center py-2">
+          Nenhum código gerado. Gere um código para cada participante.
+        </p>
+      )}
+
+      {availableCount > 0 && (
+        <Button asChild variant="secondary" className="w-full">
+          <Link to={`/admin/events/${eventId}/print`} target="_blank">
+            <Printer className="w-4 h-4 mr-2" />
+            Imprimir {availableCount} Tickets
+          </Link>
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default AttendeeCodesPanel;
@@ -0,0 +1,814 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { motion, AnimatePresence } from 'framer-motion';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { toast } from 'sonner';
+import {
+  Plus,
+  Edit,
+  Award,
+  Loader2,
+  Trash2,
+  Upload,
+  Users,
+  UserPlus,
+  UserMinus,
+  RefreshCw,
+  Search,
+} from 'lucide-react';
+import { BADGE_TYPES, BadgeType, badgeTypeConfig, getBadgeTypeLabel } from '@/lib/badges';
+
+const ALL_SEASONS = 'all';
+
+const badgeSchema = z
+  .object({
+    name: z.string().min(1, 'Nome é obrigatório'),
+    description: z.string().min(1, 'Descrição é obrigatória'),
+    badge_type: z.enum(BADGE_TYPES),
+    season_id: z.string(),
+    threshold: z.coerce.number().optional(),
+  })
+  .superRefine((data, ctx) => {
+    const config = badgeTypeConfig[data.badge_type];
+    if (config.season === 'required' && data.season_id === ALL_SEASONS) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'Este tipo de conquista exige uma temporada',
+        path: ['season_id'],
+      });
+    }
+    if (config.usesThreshold && (!Number.isInteger(data.threshold) || data.threshold < 1)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'Informe uma quantidade inteira maior que zero',
+        path: ['threshold'],
+      });
+    }
+  });
+
+type BadgeFormData = z.infer<typeof badgeSchema>;
+
+interface BadgeRecord {
+  id: string;
+  name: string;
+  description: string;
+  icon_url: string | null;
+  badge_type: string;
+  season_id: string | null;
+  threshold: number | null;
+  created_at: string;
+  seasons?: { name: string } | null;
+  user_badges?: { count: number }[];
+}
+
+interface Season {
+  id: string;
+  name: string;
+}
+
+interface Holder {
+  id: string;
+  user_id: string;
+  earned_at: string;
+  display_name: string | null;
+  email: string | null;
+}
+
+interface ProfileResult {
+  user_id: string;
+  display_name: string | null;
+  email: string | null;
+}
+
+const emptyForm: BadgeFormData = {
+  name: '',
+  description: '',
+  badge_type: 'total_cards',
+  season_id: ALL_SEASONS,
+  threshold: 10,
+};
+
+const BadgesManager = () => {
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingBadge, setEditingBadge] = useState<BadgeRecord | null>(null);
+  const [badgeToDelete, setBadgeToDelete] = useState<BadgeRecord | null>(null);
+  const [holdersBadge, setHoldersBadge] = useState<BadgeRecord | null>(null);
+  const [iconFile, setIconFile] = useState<File | null>(null);
+  const [iconPreview, setIconPreview] = useState<string | null>(null);
+  const [userSearch, setUserSearch] = useState('');
+  const queryClient = useQueryClient();
+
+  const form = useForm<BadgeFormData>({
+    resolver: zodResolver(badgeSchema),
+    defaultValues: emptyForm,
+  });
+
+  const selectedType = form.watch('badge_type') as BadgeType;
+  const selectedTypeConfig = badgeTypeConfig[selectedType];
+
+  const { data: seasons } = useQuery({
+    queryKey: ['seasons'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('seasons')
+        .select('id, name')
+        .order('start_date', { ascending: false });
+      if (error) throw error;
+      return data as Season[];
+    },
+  });
+
+  const { data: badges, isLoading } = useQuery({
+    queryKey: ['badges'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('badges')
+        .select('*, seasons(name), user_badges(count)')
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      return data as BadgeRecord[];
+    },
+  });
+
+  const { data: holders, isLoading: holdersLoading } = useQuery({
+    queryKey: ['badge-holders', holdersBadge?.id],
+    queryFn: async () => {
+      const { data: userBadges, error } = await supabase
+        .from('user_badges')
+        .select('id, user_id, earned_at')
+        .eq('badge_id', holdersBadge.id)
+        .order('earned_at', { ascending: true });
+      if (error) throw error;
+      if (!userBadges.length) return [];
+
+      const { data: profiles, error: profilesError } = await supabase
+        .from('profiles')
+        .select('user_id, display_name, email')
+        .in('user_id', userBadges.map((ub) => ub.user_id));
+      if (profilesError) throw profilesError;
+
+      return userBadges.map((ub) => {
+        const profile = profiles.find((p) => p.user_id === ub.user_id);
+        return {
+          ...ub,
+          display_name: profile?.display_name ?? null,
+          email: profile?.email ?? null,
+        };
+      }) as Holder[];
+    },
+    enabled: !!holdersBadge,
+  });
+
+  const trimmedSearch = userSearch.trim();
+
+  const { data: searchResults, isFetching: searching } = useQuery({
+    queryKey: ['badge-user-search', trimmedSearch],
+    queryFn: async () => {
+      // Strip characters that have meaning inside a PostgREST or() filter
+      const term = trimmedSearch.replace(/[,()%*]/g, '');
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('user_id, display_name, email')
+        .or(`display_name.ilike.%${term}%,email.ilike.%${term}%`)
+        .limit(8);
+      if (error) throw error;
+      return data as ProfileResult[];
+    },
+    enabled: !!holdersBadge && trimmedSearch.length >= 2,
+  });
+
+  const uploadIcon = async (file: File) => {
+    const fileExt = file.name.split('.').pop();
+    const fileName = `badges/${crypto.randomUUID()}.${fileExt}`;
+
+    const { error: uploadError } = await supabase.storage
+      .from('cards')
+      .upload(fileName, file);
+
+    if (uploadError) throw uploadError;
+
+    const { data: urlData } = supabase.storage
+      .from('cards')
+      .getPublicUrl(fileName);
+
+    return urlData.publicUrl;
+  };
+
+  const toBadgeRow = (data: BadgeFormData) => {
+    const config = badgeTypeConfig[data.badge_type];
+    return {
+      name: data.name,
+      description: data.description,
+      badge_type: data.badge_type,
+      season_id: config.season === 'none' || data.season_id === ALL_SEASONS ? null : data.season_id,
+      threshold: config.usesThreshold ? data.threshold : null,
+    };
+  };
+
+  const resetDialog = () => {
+    setIsDialogOpen(false);
+    setEditingBadge(null);
+    setIconFile(null);
+    setIconPreview(null);
+    form.reset(emptyForm);
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (data: BadgeFormData) => {
+      const iconUrl = iconFile ? await uploadIcon(iconFile) : null;
+
+      const { error } = await supabase.from('badges').insert({
+        ...toBadgeRow(data),
+        icon_url: iconUrl,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['badges'] });
+      toast.success('Conquista criada com sucesso!');
+      resetDialog();
+    },
+    onError: (error) => {
+      toast.error('Erro ao criar conquista: ' + error.message);
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async (data: BadgeFormData & { id: string }) => {
+      const iconUrl = iconFile ? await uploadIcon(iconFile) : editingBadge?.icon_url ?? null;
+
+      const { error } = await supabase
+        .from('badges')
+        .update({
+          ...toBadgeRow(data),
+          icon_url: iconUrl,
+        })
+        .eq('id', data.id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['badges'] });
+      queryClient.invalidateQueries({ queryKey: ['badge-holders'] });
+      toast.success('Conquista atualizada com sucesso!');
+      resetDialog();
+    },
+    onError: (error) => {
+      toast.error('Erro ao atualizar conquista: ' + error.message);
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (badgeId: string) => {
+      const { error } = await supabase.from('badges').delete().eq('id', badgeId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['badges'] });
+      toast.success('Conquista excluída com sucesso!');
+      setBadgeToDelete(null);
+    },
+    onError: (error) => {
+      toast.error('Erro ao excluir conquista: ' + error.message);
+    },
+  });
+
+  const grantMutation = useMutation({
+    mutationFn: async ({ badgeId, userId }: { badgeId: string; userId: string }) => {
+      const { error } = await supabase
+        .from('user_badges')
+        .insert({ badge_id: badgeId, user_id: userId });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['badges'] });
+      queryClient.invalidateQueries({ queryKey: ['badge-holders'] });
+      toast.success('Conquista concedida!');
+      setUserSearch('');
+    },
+    onError: (error) => {
+      toast.error('Erro ao conceder conquista: ' + error.message);
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (userBadgeId: string) => {
+      const { error } = await supabase.from('user_badges').delete().eq('id', userBadgeId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['badges'] });
+      queryClient.invalidateQueries({ queryKey: ['badge-holders'] });
+      toast.success('Conquista revogada!');
+    },
+    onError: (error) => {
+      toast.error('Erro ao revogar conquista: ' + error.message);
+    },
+  });
+
+  const evaluateMutation = useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase.rpc('evaluate_all_badges');
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (awarded) => {
+      queryClient.invalidateQueries({ queryKey: ['badges'] });
+      queryClient.invalidateQueries({ queryKey: ['badge-holders'] });
+      toast.success(
+        awarded ? `${awarded} conquista(s) concedida(s)!` : 'Nenhuma nova conquista para conceder.'
+      );
+    },
+    onError: (error) => {
+      toast.error('Erro ao reavaliar conquistas: ' + error.message);
+    },
+  });
+
+  const handleIconChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      if (!file.type.includes('png') && !file.type.includes('jpeg') && !file.type.includes('jpg')) {
+        toast.error('Por favor, selecione uma imagem PNG ou JPG');
+        return;
+      }
+      setIconFile(file);
+      const reader = new FileReader();
+      reader.onloadend = () => {
+        setIconPreview(reader.result as string);
+      };
+      reader.readAsDataURL(file);
+    }
+  };
+
+  const handleSubmit = (data: BadgeFormData) => {
+    if (editingBadge) {
+      updateMutation.mutate({ ...data, id: editingBadge.id });
+    } else {
+      createMutation.mutate(data);
+    }
+  };
+
+  const handleEdit = (badge: BadgeRecord) => {
+    setEditingBadge(badge);
+    form.reset({
+      name: badge.name,
+      description: badge.description,
+      badge_type: (BADGE_TYPES as readonly string[]).includes(badge.badge_type)
+        ? (badge.badge_type as BadgeType)
+        : 'manual',
+      season_id: badge.season_id ?? ALL_SEASONS,
+      threshold: badge.threshold ?? 10,
+    });
+    setIconFile(null);
+    setIconPreview(badge.icon_url);
+    setIsDialogOpen(true);
+  };
+
+  const handleOpenDialog = () => {
+    setEditingBadge(null);
+    form.reset(emptyForm);
+    setIconFile(null);
+    setIconPreview(null);
+    setIsDialogOpen(true);
+  };
+
+  const handleCloseDialog = (open: boolean) => {
+    if (!open) {
+      resetDialog();
+      return;
+    }
+    setIsDialogOpen(open);
+  };
+
+  const handleCloseHolders = () => {
+    setHoldersBadge(null);
+    setUserSearch('');
+  };
+
+  const isSubmitting = createMutation.isPending || updateMutation.isPending;
+  const holderIds = new Set(holders?.map((h) => h.user_id));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-semibold">Conquistas</h2>
+          <p className="text-muted-foreground">Gerencie badges e quem as conquistou</p>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            className="gap-2"
+            onClick={() => evaluateMutation.mutate()}
+            disabled={evaluateMutation.isPending}
+          >
+            {evaluateMutation.isPending ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : (
+              <RefreshCw className="w-4 h-4" />
+            )}
+            Reavaliar
+          </Button>
+          <Dialog open={isDialogOpen} onOpenChange={handleCloseDialog}>
+            <DialogTrigger asChild>
+              <Button onClick={handleOpenDialog} className="gap-2">
+                <Plus className="w-4 h-4" />
+                Nova Conquista
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="glass max-h-[90vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle>
+                  {editingBadge ? 'Editar Conquista' : 'Nova Conquista'}
+                </DialogTitle>
+              </DialogHeader>
+              <Form {...form}>
+                <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+                  <FormField
+                    control={form.control}
+                    name="name"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Nome</FormLabel>
+                        <FormControl>
+                          <Input placeholder="Colecionador de Ouro" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="description"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Descrição</FormLabel>
+                        <FormControl>
+                          <Textarea placeholder="Como conquistar esta badge..." {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="badge_type"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Critério</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Selecione o critério" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {BADGE_TYPES.map((type) => (
+                              <SelectItem key={type} value={type}>
+                                {badgeTypeConfig[type].label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormDescription>{selectedTypeConfig?.description}</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <div className="grid grid-cols-2 gap-4">
+                    {selectedTypeConfig?.season !== 'none' && (
+                      <FormField
+                        control={form.control}
+                        name="season_id"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Temporada</FormLabel>
+                            <Select onValueChange={field.onChange} value={field.value}>
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue placeholder="Selecione a temporada" />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                {selectedTypeConfig?.season === 'optional' && (
+                                  <SelectItem value={ALL_SEASONS}>Todas as Temporadas</SelectItem>
+                                )}
+                                {seasons?.map((season) => (
+                                  <SelectItem key={season.id} value={season.id}>
+                                    {season.name}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    )}
+                    {selectedTypeConfig?.usesThreshold && (
+                      <FormField
+                        control={form.control}
+                        name="threshold"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Quantidade de Cards</FormLabel>
+                            <FormControl>
+                              <Input type="number" min={1} {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    )}
+                  </div>
+                  <div className="space-y-2">
+                    <FormLabel>Ícone (PNG/JPG)</FormLabel>
+                    <label className="block cursor-pointer">
+                      <div className="border-2 border-dashed border-border rounded-lg p-4 hover:border-primary/50 transition-colors flex flex-col items-center justify-center gap-2">
+                        {iconPreview ? (
+                          <img
+                            src={iconPreview}
+                            alt="Preview"
+                            className="w-16 h-16 object-contain rounded"
+                          />
+                        ) : (
+                          <>
+                            <Upload className="w-6 h-6 text-muted-foreground" />
+                            <span className="text-xs text-muted-foreground">
+                              Clique para selecionar
+                            </span>
+                          </>
+                        )}
+                      </div>
+                      <input
+                        type="file"
+                        accept="image/png,image/jpeg,image/jpg"
+                        onChange={handleIconChange}
+                        className="hidden"
+                      />
+                    </label>
+                  </div>
+                  <Button type="submit" className="w-full" disabled={isSubmitting}>
+                    {isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                    {editingBadge ? 'Salvar Alterações' : 'Criar Conquista'}
+                  </Button>
+                </form>
+              </Form>
+            </DialogContent>
+          </Dialog>
+        </div>
+      </div>
+
+      {/* Holders Dialog */}
+      <Dialog open={!!holdersBadge} onOpenChange={(open) => !open && handleCloseHolders()}>
+        <DialogContent className="glass max-w-lg max-h-[90vh] flex flex-col">
+          <DialogHeader>
+            <DialogTitle>Conquistadores — {holdersBadge?.name}</DialogTitle>
+          </DialogHeader>
+          <div className="flex-1 overflow-y-auto pr-2 space-y-4">
+            <div className="space-y-2">
+              <div className="relative">
+                <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+                <Input
+                  value={userSearch}
+                  onChange={(e) => setUserSearch(e.target.value)}
+                  placeholder="Buscar usuário por nome ou email para conceder"
+                  className="pl-9"
+                />
+              </div>
+              {trimmedSearch.length >= 2 && (
+                <div className="rounded-lg border border-border/50 divide-y divide-border/50">
+                  {searching ? (
+                    <div className="p-3 flex justify-center">
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                    </div>
+                  ) : !searchResults?.length ? (
+                    <p className="p-3 text-sm text-muted-foreground text-center">
+                      Nenhum usuário encontrado.
+                    </p>
+                  ) : (
+                    searchResults.map((profile) => (
+                      <div key={profile.user_id} className="p-2 flex items-center justify-between gap-2">
+                        <div className="min-w-0">
+                          <p className="text-sm font-medium truncate">
+                            {profile.display_name || 'Usuário Anônimo'}
+                          </p>
+                          <p className="text-xs text-muted-foreground truncate">{profile.email}</p>
+                        </div>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={holderIds.has(profile.user_id) || grantMutation.isPending}
+                          onClick={() =>
+                            grantMutation.mutate({ badgeId: holdersBadge.id, userId: profile.user_id })
+                          }
+                        >
+                          <UserPlus className="w-4 h-4 mr-1" />
+                          {holderIds.has(profile.user_id) ? 'Já possui' : 'Conceder'}
+                        </Button>
+                      </div>
+                    ))
+                  )}
+                </div>
+              )}
+            </div>
+
+            {holdersLoading ? (
+              <div className="py-8 flex justify-center">
+                <Loader2 className="w-6 h-6 animate-spin text-primary" />
+              </div>
+            ) : !holders?.length ? (
+              <p className="py-8 text-sm text-muted-foreground text-center">
+                Ninguém conquistou esta badge ainda.
+              </p>
+            ) : (
+              <div className="space-y-2">
+                {holders.map((holder) => (
+                  <div
+                    key={holder.id}
+                    className="flex items-center justify-between gap-2 p-2 rounded-lg bg-muted/30"
+                  >
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium truncate">
+                        {holder.display_name || 'Usuário Anônimo'}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {new Date(holder.earned_at).toLocaleDateString('pt-BR')}
+                        {holder.email && ` · ${holder.email}`}
+                      </p>
+                    </div>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="text-destructive hover:text-destructive"
+                      disabled={revokeMutation.isPending}
+                      onClick={() => revokeMutation.mutate(holder.id)}
+                    >
+                      <UserMinus className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <AlertDialog open={!!badgeToDelete} onOpenChange={() => setBadgeToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir Conquista</AlertDialogTitle>
+            <AlertDialogDescription>
+              Tem certeza que deseja excluir a conquista "{badgeToDelete?.name}"?
+              Ela também será removida de todos os usuários que a conquistaram.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => badgeToDelete && deleteMutation.mutate(badgeToDelete.id)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {deleteMutation.isPending ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                'Excluir'
+              )}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {isLoading ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {[1, 2, 3].map((i) => (
+            <Card key={i} className="glass animate-pulse">
+              <CardHeader>
+                <div className="h-6 bg-muted rounded w-32" />
+              </CardHeader>
+              <CardContent>
+                <div className="h-4 bg-muted rounded w-48 mb-2" />
+                <div className="h-4 bg-muted rounded w-36" />
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      ) : !badges?.length ? (
+        <Card className="glass border-dashed">
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <Award className="w-12 h-12 text-muted-foreground mb-4" />
+            <p className="text-muted-foreground text-center">
+              Nenhuma conquista criada ainda.
+              <br />
+              Clique em "Nova Conquista" para começar.
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          <AnimatePresence>
+            {badges.map((badge, index) => (
+              <motion.div
+                key={badge.id}
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, scale: 0.95 }}
+                transition={{ delay: index * 0.05 }}
+              >
+                <Card className="glass border-border/50 hover:border-primary/50 transition-all group">
+                  <CardHeader className="flex flex-row items-start justify-between gap-3">
+                    <div className="flex items-start gap-3 min-w-0">
+                      <div className="w-12 h-12 shrink-0 rounded-full bg-primary/20 flex items-center justify-center">
+                        {badge.icon_url ? (
+                          <img src={badge.icon_url} alt={badge.name} className="w-8 h-8" />
+                        ) : (
+                          <Award className="w-6 h-6 text-primary" />
+                        )}
+                      </div>
+                      <div className="min-w-0">
+                        <CardTitle className="text-lg truncate">{badge.name}</CardTitle>
+                        <p className="text-sm text-muted-foreground mt-1">{badge.description}</p>
+                      </div>
+                    </div>
+                    <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                      <Button size="icon" variant="ghost" onClick={() => handleEdit(badge)}>
+                        <Edit className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="text-destructive hover:text-destructive"
+                        onClick={() => setBadgeToDelete(badge)}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    <div className="flex flex-wrap gap-1">
+                      <Badge variant="secondary">{getBadgeTypeLabel(badge.badge_type)}</Badge>
+                      {badge.threshold && <Badge variant="outline">{badge.threshold} cards</Badge>}
+                      <Badge variant="outline">{badge.seasons?.name ?? 'Todas as temporadas'}</Badge>
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="w-full gap-2"
+                      onClick={() => setHoldersBadge(badge)}
+                    >
+                      <Users className="w-4 h-4" />
+                      {badge.user_badges?.[0]?.count ?? 0} conquistador(es)
+                    </Button>
+                  </CardContent>
+                </Card>
+              </motion.div>
+            ))}
+          </AnimatePresence>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BadgesManager;
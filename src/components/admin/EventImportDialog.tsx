@@ -0,0 +1,237 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { toast } from 'sonner';
+import { AlertCircle, Check, FileSpreadsheet, Loader2 } from 'lucide-react';
+import { rarityLabels } from '@/lib/rankingPoints';
+import { insertEvents, removeCardImages, toEventInsert, uploadCardImage } from '@/lib/eventForm';
+import { IMPORT_COLUMNS, ImportRow, buildImportRows, readImportFile } from '@/lib/eventImport';
+import { extractZipImages } from '@/lib/zip';
+
+interface EventImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  seasons: { id: string; name: string }[] | undefined;
+}
+
+const EventImportDialog = ({ open, onOpenChange, seasons }: EventImportDialogProps) => {
+  const queryClient = useQueryClient();
+  const [seasonId, setSeasonId] = useState('');
+  const [records, setRecords] = useState<Record<string, string>[]>([]);
+  const [images, setImages] = useState<File[]>([]);
+  const [isReading, setIsReading] = useState(false);
+
+  useEffect(() => {
+    if (!open) {
+      setSeasonId('');
+      setRecords([]);
+      setImages([]);
+    }
+  }, [open]);
+
+  const rows: ImportRow[] = seasonId ? buildImportRows(records, seasonId, images) : [];
+  const invalidCount = rows.filter((row) => row.errors.length > 0).length;
+
+  const handleDataFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      setRecords(await readImportFile(file));
+    } catch (error) {
+      setRecords([]);
+      toast.error('Erro ao ler arquivo: ' + (error as Error).message);
+    }
+  };
+
+  const handleImages = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    setIsReading(true);
+    try {
+      const extracted = await Promise.all(
+        files.map((file) => (file.name.toLowerCase().endsWith('.zip') ? extractZipImages(file) : [file]))
+      );
+      setImages(extracted.flat());
+    } catch (error) {
+      setImages([]);
+      toast.error('Erro ao ler imagens: ' + (error as Error).message);
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const importMutation = useMutation({
+    mutationFn: async () => {
+      // Each image is uploaded once even when several rows share it
+      const uploaded = new Map<File, string>();
+      try {
+        for (const row of rows) {
+          if (!uploaded.has(row.image)) {
+            uploaded.set(row.image, await uploadCardImage(row.image));
+          }
+        }
+
+        await insertEvents(rows.map((row) => toEventInsert(row.data, uploaded.get(row.image))));
+      } catch (error) {
+        // Nothing references the images yet; don't leave them behind in the bucket
+        if (uploaded.size > 0) await removeCardImages([...uploaded.values()]).catch(() => {});
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['events'] });
+      queryClient.invalidateQueries({ queryKey: ['admin-stats'] });
+      toast.success(`${rows.length} eventos importados como rascunho!`);
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast.error('Erro ao importar eventos: ' + error.message);
+    },
+  });
+
+  const canImport = rows.length > 0 && invalidCount === 0 && !isReading;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="glass max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileSpreadsheet className="w-5 h-5 text-primary" />
+            Importar Eventos
+          </DialogTitle>
+          <DialogDescription>
+            Envie um CSV ou JSON com as colunas{' '}
+            <span className="font-mono text-xs">{IMPORT_COLUMNS.join(', ')}</span>. As imagens são
+            associadas pelo nome do arquivo (coluna <span className="font-mono text-xs">image</span>{' '}
+            ou o título). Os eventos são criados como rascunho.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label>Temporada</Label>
+            <Select value={seasonId} onValueChange={setSeasonId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Selecione a temporada" />
+              </SelectTrigger>
+              <SelectContent>
+                {seasons?.map((season) => (
+                  <SelectItem key={season.id} value={season.id}>
+                    {season.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="import-data">Planilha (CSV ou JSON)</Label>
+            <Input id="import-data" type="file" accept=".csv,.json,text/csv,application/json" onChange={handleDataFile} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="import-images">Imagens (PNG, JPG ou ZIP)</Label>
+            <Input
+              id="import-images"
+              type="file"
+              multiple
+              accept="image/png,image/jpeg,.zip,application/zip"
+              onChange={handleImages}
+            />
+            <p className="text-xs text-muted-foreground">
+              {isReading ? 'Lendo imagens...' : `${images.length} imagens carregadas`}
+            </p>
+          </div>
+        </div>
+
+        {!seasonId ? (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            Selecione a temporada para ver a prévia.
+          </p>
+        ) : rows.length > 0 && (
+          <ScrollArea className="h-72 rounded-md border border-border/50">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-10">#</TableHead>
+                  <TableHead>Título</TableHead>
+                  <TableHead>Data</TableHead>
+                  <TableHead>Raridade</TableHead>
+                  <TableHead>Imagem</TableHead>
+                  <TableHead>Situação</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((row) => (
+                  <TableRow key={row.line}>
+                    <TableCell className="text-muted-foreground">{row.line}</TableCell>
+                    <TableCell className="font-medium">{row.data.title || '—'}</TableCell>
+                    <TableCell>{row.data.event_date || '—'}</TableCell>
+                    <TableCell>{rarityLabels[row.data.rarity]}</TableCell>
+                    <TableCell className="text-xs">{row.image?.name ?? '—'}</TableCell>
+                    <TableCell>
+                      {row.errors.length ? (
+                        <ul className="text-xs text-destructive space-y-0.5">
+                          {row.errors.map((message) => (
+                            <li key={message} className="flex items-start gap-1">
+                              <AlertCircle className="w-3 h-3 mt-0.5 shrink-0" />
+                              {message}
+                            </li>
+                          ))}
+                        </ul>
+                      ) : (
+                        <Check className="w-4 h-4 text-green-500" />
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </ScrollArea>
+        )}
+
+        {rows.length > 0 && (
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex gap-2">
+              <Badge variant="outline">{rows.length} eventos</Badge>
+              {invalidCount > 0 && (
+                <Badge variant="outline" className="bg-destructive/20 text-destructive border-destructive">
+                  {invalidCount} com erros
+                </Badge>
+              )}
+            </div>
+            <Button disabled={!canImport || importMutation.isPending} onClick={() => importMutation.mutate()}>
+              {importMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Importar {rows.length} eventos
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EventImportDialog;
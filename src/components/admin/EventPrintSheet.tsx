@@ -0,0 +1,234 @@
+import { forwardRef } from 'react';
+import { QRCodeSVG } from 'qrcode.react';
+import { A4_HEIGHT, A4_WIDTH, PRINT_LAYOUTS, PrintLayout, isTicketLayout, wrapText } from '@/lib/eventPrint';
+
+export interface PrintContent {
+  title: string;
+  date: string;
+  code: string;
+  qrValue: string;
+  imageUrl: string;
+}
+
+const FONT = 'Inter, Arial, sans-serif';
+const MONO_FONT = "'Courier New', monospace";
+const INSTRUCTIONS = 'Escaneie o QR Code ou digite o código em Resgatar no Renascer Cards.';
+
+// Rounds the corners of any artwork it is applied to, whatever its size
+const ArtClip = () => (
+  <clipPath id="print-art-clip" clipPathUnits="objectBoundingBox">
+    <rect width={1} height={1} rx={0.05} />
+  </clipPath>
+);
+
+const Artwork = ({ href, x, y, size }: { href: string; x: number; y: number; size: number }) => (
+  <image
+    href={href}
+    x={x}
+    y={y}
+    width={size}
+    height={size}
+    preserveAspectRatio="xMidYMid slice"
+    clipPath="url(#print-art-clip)"
+  />
+);
+
+const Lines = ({
+  lines,
+  x,
+  y,
+  lineHeight,
+  ...props
+}: { lines: string[]; x: number; y: number; lineHeight: number } & React.SVGProps<SVGTextElement>) => (
+  <text x={x} y={y} {...props}>
+    {lines.map((line, i) => (
+      <tspan key={i} x={x} dy={i ? lineHeight : 0}>
+        {line}
+      </tspan>
+    ))}
+  </text>
+);
+
+const PosterArt = ({ content }: { content: PrintContent }) => {
+  const titleLines = wrapText(content.title, 24, 2);
+  const dateY = 164 + (titleLines.length - 1) * 12.5 + 9;
+
+  return (
+    <g>
+      <Artwork href={content.imageUrl} x={40} y={16} size={130} />
+      <Lines
+        lines={titleLines}
+        x={A4_WIDTH / 2}
+        y={164}
+        lineHeight={12.5}
+        textAnchor="middle"
+        fontFamily={FONT}
+        fontSize={11}
+        fontWeight={700}
+      />
+      <text x={A4_WIDTH / 2} y={dateY} textAnchor="middle" fontFamily={FONT} fontSize={5.5} fill="#555">
+        {content.date}
+      </text>
+
+      <QRCodeSVG value={content.qrValue} x={22} y={198} size={72} level="H" />
+      <text x={104} y={214} fontFamily={FONT} fontSize={4.5} fill="#555" letterSpacing={0.4}>
+        CÓDIGO DE RESGATE
+      </text>
+      <text x={104} y={233} fontFamily={MONO_FONT} fontSize={16} fontWeight={700} letterSpacing={1}>
+        {content.code}
+      </text>
+      <Lines
+        lines={wrapText(INSTRUCTIONS, 34, 3)}
+        x={104}
+        y={248}
+        lineHeight={6}
+        fontFamily={FONT}
+        fontSize={4.5}
+        fill="#333"
+      />
+
+      <text x={A4_WIDTH / 2} y={287} textAnchor="middle" fontFamily={FONT} fontSize={4.5} fill="#888">
+        Renascer Cards
+      </text>
+    </g>
+  );
+};
+
+const PosterQr = ({ content }: { content: PrintContent }) => {
+  const titleLines = wrapText(content.title, 26, 2);
+  const dateY = 32 + (titleLines.length - 1) * 12.5 + 9;
+
+  return (
+    <g>
+      <Lines
+        lines={titleLines}
+        x={A4_WIDTH / 2}
+        y={32}
+        lineHeight={12.5}
+        textAnchor="middle"
+        fontFamily={FONT}
+        fontSize={11}
+        fontWeight={700}
+      />
+      <text x={A4_WIDTH / 2} y={dateY} textAnchor="middle" fontFamily={FONT} fontSize={5.5} fill="#555">
+        {content.date}
+      </text>
+
+      <QRCodeSVG value={content.qrValue} x={30} y={64} size={150} level="H" />
+      <text
+        x={A4_WIDTH / 2}
+        y={242}
+        textAnchor="middle"
+        fontFamily={MONO_FONT}
+        fontSize={22}
+        fontWeight={700}
+        letterSpacing={1.5}
+      >
+        {content.code}
+      </text>
+      <text x={A4_WIDTH / 2} y={254} textAnchor="middle" fontFamily={FONT} fontSize={5} fill="#333">
+        Escaneie o QR Code ou digite o código em Resgatar
+      </text>
+
+      <Artwork href={content.imageUrl} x={(A4_WIDTH - 24) / 2} y={262} size={24} />
+    </g>
+  );
+};
+
+// One handout ticket: artwork and title on the left, QR and code on the right.
+// Sizes are proportional to the cell, so the same drawing serves every grid.
+const Ticket = ({ content, width, height }: { content: PrintContent; width: number; height: number }) => {
+  const padding = height * 0.08;
+  const inner = height - padding * 2;
+
+  const codeSize = inner * 0.1;
+  const qr = Math.min(inner - codeSize * 1.6, (width - padding * 2) * 0.42);
+  const qrX = width - padding - qr;
+  const codeY = padding + qr + codeSize * 1.2;
+  const dateY = codeY + codeSize * 1.3;
+
+  const leftWidth = qrX - padding * 2.8;
+  const titleSize = inner * 0.085;
+  const art = Math.min(leftWidth, inner - titleSize * 2.6);
+  const titleLines = wrapText(content.title, Math.floor(leftWidth / (titleSize * 0.55)), 2);
+
+  return (
+    <g>
+      <rect width={width} height={height} fill="none" stroke="#999" strokeWidth={0.2} strokeDasharray="2 1.5" />
+      <Artwork href={content.imageUrl} x={padding + (leftWidth - art) / 2} y={padding} size={art} />
+      <Lines
+        lines={titleLines}
+        x={padding + leftWidth / 2}
+        y={padding + art + titleSize * 1.1}
+        lineHeight={titleSize * 1.2}
+        textAnchor="middle"
+        fontFamily={FONT}
+        fontSize={titleSize}
+        fontWeight={700}
+      />
+
+      <QRCodeSVG value={content.qrValue} x={qrX} y={padding} size={qr} level="H" />
+      <text
+        x={qrX + qr / 2}
+        y={codeY}
+        textAnchor="middle"
+        fontFamily={MONO_FONT}
+        fontSize={codeSize}
+        fontWeight={700}
+      >
+        {content.code}
+      </text>
+      {dateY < height - padding && (
+        <text x={qrX + qr / 2} y={dateY} textAnchor="middle" fontFamily={FONT} fontSize={codeSize * 0.7} fill="#555">
+          {content.date}
+        </text>
+      )}
+    </g>
+  );
+};
+
+interface EventPrintSheetProps {
+  layout: PrintLayout;
+  content: PrintContent;
+  // Per-attendee codes, one per ticket, replacing the shared code
+  codes?: string[];
+  className?: string;
+}
+
+/** One A4 page for the chosen layout, drawn in millimetres. */
+const EventPrintSheet = forwardRef<SVGSVGElement, EventPrintSheetProps>(({ layout, content, codes, className }, ref) => {
+  const { columns, rows } = PRINT_LAYOUTS.find((option) => option.value === layout);
+  const cellWidth = A4_WIDTH / columns;
+  const cellHeight = A4_HEIGHT / rows;
+  const tickets = codes
+    ? codes.map((code) => ({ ...content, code, qrValue: code }))
+    : Array.from({ length: columns * rows }, () => content);
+
+  return (
+    <svg
+      ref={ref}
+      xmlns="http://www.w3.org/2000/svg"
+      width={`${A4_WIDTH}mm`}
+      height={`${A4_HEIGHT}mm`}
+      viewBox={`0 0 ${A4_WIDTH} ${A4_HEIGHT}`}
+      className={className}
+    >
+      <defs>
+        <ArtClip />
+      </defs>
+      <rect width={A4_WIDTH} height={A4_HEIGHT} fill="#fff" />
+      {layout === 'poster-art' && <PosterArt content={content} />}
+      {layout === 'poster-qr' && <PosterQr content={content} />}
+      {isTicketLayout(layout) &&
+        tickets.map((ticket, i) => (
+          <g key={i} transform={`translate(${(i % columns) * cellWidth} ${Math.floor(i / columns) * cellHeight})`}>
+            <Ticket content={ticket} width={cellWidth} height={cellHeight} />
+          </g>
+        ))}
+    </svg>
+  );
+});
+
+EventPrintSheet.displayName = 'EventPrintSheet';
+
+export default EventPrintSheet;
@@ -0,0 +1,251 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { format, parseISO } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { toast } from 'sonner';
+import { AlertCircle, CalendarRange, Loader2 } from 'lucide-react';
+import { eventSchema, insertEvents, toEventInsert } from '@/lib/eventForm';
+import { EventTemplate, WEEKDAY_LABELS, eventFromTemplate, seriesDates } from '@/lib/eventSeries';
+import { deadlineFromInput, formatDeadline } from '@/lib/deadline';
+
+interface SeasonRange {
+  id: string;
+  name: string;
+  start_date: string;
+  end_date: string;
+}
+
+interface EventSeriesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Already created events, so a series does not duplicate a date
+  events: { season_id: string; event_date: string }[] | undefined;
+}
+
+const EventSeriesDialog = ({ open, onOpenChange, events }: EventSeriesDialogProps) => {
+  const queryClient = useQueryClient();
+  const [templateId, setTemplateId] = useState('');
+  const [seasonId, setSeasonId] = useState('');
+  const [weekday, setWeekday] = useState('0');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+
+  useEffect(() => {
+    if (!open) {
+      setTemplateId('');
+      setSeasonId('');
+      setWeekday('0');
+      setFrom('');
+      setTo('');
+    }
+  }, [open]);
+
+  const { data: templates } = useQuery({
+    queryKey: ['event-templates'],
+    queryFn: async () => {
+      const { data, error } = await supabase.from('event_templates').select('*').order('name');
+      if (error) throw error;
+      return data as EventTemplate[];
+    },
+    enabled: open,
+  });
+
+  const { data: seasons } = useQuery({
+    queryKey: ['seasons', 'ranges'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('seasons')
+        .select('id, name, start_date, end_date')
+        .order('start_date', { ascending: false });
+      if (error) throw error;
+      return data as SeasonRange[];
+    },
+    enabled: open,
+  });
+
+  const template = templates?.find((item) => item.id === templateId);
+  const season = seasons?.find((item) => item.id === seasonId);
+
+  const handleSeasonChange = (id: string) => {
+    const selected = seasons?.find((item) => item.id === id);
+    setSeasonId(id);
+    setFrom(selected?.start_date ?? '');
+    setTo(selected?.end_date ?? '');
+  };
+
+  const outsideSeason = !!season && (from < season.start_date || to > season.end_date);
+  const takenDates = new Set(
+    (events ?? []).filter((event) => event.season_id === seasonId).map((event) => event.event_date)
+  );
+
+  const dates = template && season && !outsideSeason ? seriesDates(from, to, Number(weekday)) : [];
+  const newDates = dates.filter((date) => !takenDates.has(date));
+  // Dates that already have an event keep their place, so `{n}` matches the full series
+  const planned = newDates.map((date) => eventFromTemplate(template, seasonId, date, dates.indexOf(date) + 1));
+
+  const generateMutation = useMutation({
+    mutationFn: async () => {
+      planned.forEach((data) => eventSchema.parse(data));
+
+      await insertEvents(planned.map((data) => toEventInsert(data, template.card_image_url)));
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['events'] });
+      queryClient.invalidateQueries({ queryKey: ['admin-stats'] });
+      toast.success(`${planned.length} eventos criados como rascunho!`);
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast.error('Erro ao gerar série: ' + error.message);
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="glass max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CalendarRange className="w-5 h-5 text-primary" />
+            Gerar Série de Eventos
+          </DialogTitle>
+          <DialogDescription>
+            Cria um evento em rascunho para cada dia da semana escolhido no período. Depois, cada
+            evento pode ser editado individualmente.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Modelo</Label>
+            <Select value={templateId} onValueChange={setTemplateId}>
+              <SelectTrigger>
+                <SelectValue placeholder={templates?.length ? 'Selecione o modelo' : 'Nenhum modelo'} />
+              </SelectTrigger>
+              <SelectContent>
+                {templates?.map((item) => (
+                  <SelectItem key={item.id} value={item.id}>
+                    {item.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Temporada</Label>
+            <Select value={seasonId} onValueChange={handleSeasonChange}>
+              <SelectTrigger>
+                <SelectValue placeholder="Selecione a temporada" />
+              </SelectTrigger>
+              <SelectContent>
+                {seasons?.map((item) => (
+                  <SelectItem key={item.id} value={item.id}>
+                    {item.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Dia da semana</Label>
+            <Select value={weekday} onValueChange={setWeekday}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {WEEKDAY_LABELS.map((label, day) => (
+                  <SelectItem key={label} value={String(day)}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Label htmlFor="series-from">De</Label>
+              <Input id="series-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="series-to">Até</Label>
+              <Input id="series-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+            </div>
+          </div>
+        </div>
+
+        {outsideSeason && (
+          <p className="text-sm text-destructive flex items-center gap-2">
+            <AlertCircle className="w-4 h-4" />
+            O período precisa estar dentro da temporada ({season.start_date.split('-').reverse().join('/')}{' '}
+            a {season.end_date.split('-').reverse().join('/')}).
+          </p>
+        )}
+
+        {template && season && !outsideSeason && (
+          <>
+            <ScrollArea className="h-64 rounded-md border border-border/50">
+              {!dates.length ? (
+                <p className="text-sm text-muted-foreground text-center py-8">
+                  Nenhuma data no período escolhido.
+                </p>
+              ) : (
+                <ul className="divide-y divide-border/50">
+                  {dates.map((date) => {
+                    const index = newDates.indexOf(date);
+                    const data = index >= 0 ? planned[index] : null;
+                    return (
+                      <li key={date} className="flex items-center justify-between gap-4 px-3 py-2 text-sm">
+                        <span className="font-medium">
+                          {format(parseISO(date), 'EEE, dd/MM', { locale: ptBR })}
+                        </span>
+                        {data ? (
+                          <span className="flex-1 min-w-0 truncate">{data.title}</span>
+                        ) : (
+                          <span className="flex-1 text-muted-foreground">Já existe um evento nesta data</span>
+                        )}
+                        {data && (
+                          <span className="text-xs text-muted-foreground whitespace-nowrap">
+                            até {formatDeadline(deadlineFromInput(data.redemption_deadline))}
+                          </span>
+                        )}
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </ScrollArea>
+
+            <Button
+              className="w-full"
+              disabled={!planned.length || generateMutation.isPending}
+              onClick={() => generateMutation.mutate()}
+            >
+              {generateMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Criar {planned.length} eventos
+            </Button>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EventSeriesDialog;
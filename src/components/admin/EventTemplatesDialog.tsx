@@ -0,0 +1,459 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { toast } from 'sonner';
+import { ArrowLeft, LayoutTemplate, Loader2, Pencil, Plus, Trash2, Upload } from 'lucide-react';
+import { rarityLabels } from '@/lib/rankingPoints';
+import { uploadCardImage } from '@/lib/eventForm';
+import { EventTemplate } from '@/lib/eventSeries';
+
+const templateSchema = z.object({
+  name: z.string().min(1, 'Nome é obrigatório'),
+  title: z.string().min(1, 'Título é obrigatório'),
+  theme: z.string().optional(),
+  preacher: z.string().optional(),
+  rarity: z.enum(['comum', 'raro', 'epico', 'lendario'] as const),
+  deadline_days: z.coerce
+    .number()
+    .int('Use um número inteiro de dias')
+    .min(0, 'Mínimo de 0 dias')
+    .max(30, 'Máximo de 30 dias'),
+  deadline_time: z.string().min(1, 'Horário é obrigatório'),
+  rotating_code: z.boolean(),
+  rotation_seconds: z.coerce
+    .number()
+    .int('Use um número inteiro de segundos')
+    .min(10, 'Mínimo de 10 segundos')
+    .max(600, 'Máximo de 600 segundos'),
+  extra_rolls: z.coerce
+    .number()
+    .int('Use um número inteiro')
+    .min(0, 'Mínimo de 0')
+    .max(10, 'Máximo de 10'),
+});
+
+type TemplateFormData = z.infer<typeof templateSchema>;
+
+const emptyTemplate: TemplateFormData = {
+  name: '',
+  title: '',
+  theme: '',
+  preacher: '',
+  rarity: 'comum',
+  deadline_days: 2,
+  deadline_time: '23:59',
+  rotating_code: false,
+  rotation_seconds: 30,
+  extra_rolls: 0,
+};
+
+interface EventTemplatesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const EventTemplatesDialog = ({ open, onOpenChange }: EventTemplatesDialogProps) => {
+  const queryClient = useQueryClient();
+  // undefined lists the templates, null creates a new one
+  const [editing, setEditing] = useState<EventTemplate | null | undefined>(undefined);
+  const [imageFile, setImageFile] = useState<File | null>(null);
+  const [imagePreview, setImagePreview] = useState<string | null>(null);
+
+  const form = useForm<TemplateFormData>({
+    resolver: zodResolver(templateSchema),
+    defaultValues: emptyTemplate,
+  });
+
+  useEffect(() => {
+    if (!open) setEditing(undefined);
+  }, [open]);
+
+  const { data: templates, isLoading } = useQuery({
+    queryKey: ['event-templates'],
+    queryFn: async () => {
+      const { data, error } = await supabase.from('event_templates').select('*').order('name');
+      if (error) throw error;
+      return data as EventTemplate[];
+    },
+    enabled: open,
+  });
+
+  const startEditing = (template: EventTemplate | null) => {
+    form.reset(
+      template
+        ? {
+            name: template.name,
+            title: template.title,
+            theme: template.theme || '',
+            preacher: template.preacher || '',
+            rarity: template.rarity,
+            deadline_days: template.deadline_days,
+            deadline_time: template.deadline_time.slice(0, 5),
+            rotating_code: template.rotating_code,
+            rotation_seconds: template.rotation_seconds,
+            extra_rolls: template.extra_rolls,
+          }
+        : emptyTemplate
+    );
+    setImageFile(null);
+    setImagePreview(template?.card_image_url ?? null);
+    setEditing(template);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: TemplateFormData) => {
+      const imageUrl = imageFile ? await uploadCardImage(imageFile) : editing?.card_image_url;
+      if (!imageUrl) throw new Error('Imagem do card é obrigatória');
+
+      const values = {
+        name: data.name,
+        title: data.title,
+        theme: data.theme || null,
+        preacher: data.preacher || null,
+        rarity: data.rarity,
+        card_image_url: imageUrl,
+        deadline_days: data.deadline_days,
+        deadline_time: data.deadline_time,
+        rotating_code: data.rotating_code,
+        rotation_seconds: data.rotation_seconds,
+        extra_rolls: data.extra_rolls,
+      };
+
+      const { error } = editing
+        ? await supabase.from('event_templates').update(values).eq('id', editing.id)
+        : await supabase.from('event_templates').insert(values);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['event-templates'] });
+      toast.success(editing ? 'Modelo atualizado!' : 'Modelo criado!');
+      setEditing(undefined);
+    },
+    onError: (error) => {
+      toast.error('Erro ao salvar modelo: ' + error.message);
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (templateId: string) => {
+      const { error } = await supabase.from('event_templates').delete().eq('id', templateId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['event-templates'] });
+      toast.success('Modelo excluído.');
+    },
+    onError: (error) => {
+      toast.error('Erro ao excluir modelo: ' + error.message);
+    },
+  });
+
+  const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    if (!file.type.includes('png') && !file.type.includes('jpeg') && !file.type.includes('jpg')) {
+      toast.error('Por favor, selecione uma imagem PNG ou JPG');
+      return;
+    }
+    setImageFile(file);
+    setImagePreview(URL.createObjectURL(file));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="glass max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <LayoutTemplate className="w-5 h-5 text-primary" />
+            {editing === undefined ? 'Modelos de Evento' : editing ? 'Editar Modelo' : 'Novo Modelo'}
+          </DialogTitle>
+          <DialogDescription>
+            O que os cultos recorrentes têm em comum. Use {'{data}'} e {'{n}'} no título ou tema
+            para a data do evento e sua posição na série.
+          </DialogDescription>
+        </DialogHeader>
+
+        {editing === undefined ? (
+          <div className="space-y-3">
+            {isLoading ? (
+              <div className="flex justify-center py-6">
+                <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : !templates?.length ? (
+              <p className="text-sm text-muted-foreground text-center py-6">
+                Nenhum modelo criado ainda.
+              </p>
+            ) : (
+              templates.map((template) => (
+                <div
+                  key={template.id}
+                  className="flex items-center gap-3 rounded-lg border border-border/50 p-3"
+                >
+                  <img
+                    src={template.card_image_url}
+                    alt={template.name}
+                    className="w-10 h-14 object-cover rounded"
+                  />
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium truncate">{template.name}</p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {template.title} · prazo de {template.deadline_days} dias às{' '}
+                      {template.deadline_time.slice(0, 5)}
+                    </p>
+                  </div>
+                  <Badge variant="outline">{rarityLabels[template.rarity]}</Badge>
+                  <Button size="icon" variant="ghost" onClick={() => startEditing(template)}>
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="text-destructive"
+                    disabled={deleteMutation.isPending}
+                    onClick={() => deleteMutation.mutate(template.id)}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))
+            )}
+            <Button className="w-full gap-2" onClick={() => startEditing(null)}>
+              <Plus className="w-4 h-4" />
+              Novo Modelo
+            </Button>
+          </div>
+        ) : (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => saveMutation.mutate(data))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Nome do Modelo</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Culto de Domingo" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="title"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Título dos Eventos</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Culto de Domingo {data}" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="theme"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Tema</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Série Fé - Parte {n}" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="preacher"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Pregador</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <div className="grid grid-cols-3 gap-4">
+                <FormField
+                  control={form.control}
+                  name="rarity"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Raridade</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {Object.entries(rarityLabels).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>
+                              {label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="deadline_days"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Prazo (dias)</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={0} max={30} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="deadline_time"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Até às</FormLabel>
+                      <FormControl>
+                        <Input type="time" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormDescription>
+                A data limite de cada evento é a data do evento mais o prazo, no horário escolhido.
+              </FormDescription>
+
+              <div className="space-y-3 rounded-lg border border-border/50 p-3">
+                <FormField
+                  control={form.control}
+                  name="rotating_code"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center justify-between gap-4 space-y-0">
+                      <FormLabel>Código rotativo</FormLabel>
+                      <FormControl>
+                        <Switch checked={field.value} onCheckedChange={field.onChange} />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+                {form.watch('rotating_code') && (
+                  <FormField
+                    control={form.control}
+                    name="rotation_seconds"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Trocar a cada (segundos)</FormLabel>
+                        <FormControl>
+                          <Input type="number" min={10} max={600} {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+              </div>
+
+              <FormField
+                control={form.control}
+                name="extra_rolls"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Cópias extras por membro</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={0} max={10} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="space-y-2">
+                <FormLabel>Imagem do Card (PNG/JPG)</FormLabel>
+                <label className="block cursor-pointer">
+                  <div className="border-2 border-dashed border-border rounded-lg p-4 hover:border-primary/50 transition-colors flex flex-col items-center justify-center gap-2">
+                    {imagePreview ? (
+                      <img src={imagePreview} alt="Preview" className="max-h-24 object-contain rounded" />
+                    ) : (
+                      <>
+                        <Upload className="w-6 h-6 text-muted-foreground" />
+                        <span className="text-xs text-muted-foreground">Clique para selecionar</span>
+                      </>
+                    )}
+                  </div>
+                  <input
+                    type="file"
+                    accept="image/png,image/jpeg,image/jpg"
+                    onChange={handleImageChange}
+                    className="hidden"
+                  />
+                </label>
+              </div>
+
+              <div className="flex gap-2">
+                <Button type="button" variant="outline" onClick={() => setEditing(undefined)}>
+                  <ArrowLeft className="w-4 h-4 mr-2" />
+                  Voltar
+                </Button>
+                <Button
+                  type="submit"
+                  className="flex-1"
+                  disabled={saveMutation.isPending || !imagePreview}
+                >
+                  {saveMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  {editing ? 'Salvar Modelo' : 'Criar Modelo'}
+                </Button>
+              </div>
+            </form>
+          </Form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EventTemplatesDialog;
@@ -28,6 +28,7 @@ import {
   FormField,
   FormItem,
   FormLabel,
+  FormDescription,
   FormMessage,
 } from '@/components/ui/form';
 import {
@@ -39,28 +40,45 @@ import {
 } from '@/components/ui/select';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { z } from 'zod';
 import { toast } from 'sonner';
-import { Plus, Layers, Loader2, QrCode, Copy, Check, Upload, Trash2, Pencil } from 'lucide-react';
+import { Plus, Layers, Loader2, QrCode, Copy, Check, Upload, Trash2, Pencil, Dices, RefreshCw, Presentation, Radio, FileSpreadsheet, LayoutTemplate, CalendarRange, Printer, Ticket } from 'lucide-react';
 import { format } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
 import { QRCodeSVG } from 'qrcode.react';
 import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Link } from 'react-router-dom';
 import { Database } from '@/integrations/supabase/types';
+import VariantOddsEditor from '@/components/admin/VariantOddsEditor';
+import EventImportDialog from '@/components/admin/EventImportDialog';
+import EventTemplatesDialog from '@/components/admin/EventTemplatesDialog';
+import EventSeriesDialog from '@/components/admin/EventSeriesDialog';
+import AttendeeCodesPanel from '@/components/admin/AttendeeCodesPanel';
+import RedemptionCodeActions from '@/components/admin/RedemptionCodeActions';
+import {
+  VARIANT_KEYS,
+  variantLabels,
+  toVariantOddsForm,
+  saveVariantOdds,
+} from '@/lib/variantOdds';
+import {
+  EventStatus,
+  EVENT_STATUSES,
+  eventStatusLabels,
+  eventStatusColors,
+  getEffectiveEventStatus,
+} from '@/lib/eventStatus';
+import { ORG_TIMEZONE, deadlineFromInput, deadlineToInput, formatDeadline } from '@/lib/deadline';
+import {
+  EventFormData,
+  eventSchema,
+  insertEvents,
+  toEventInsert,
+  uploadCardImage,
+} from '@/lib/eventForm';
 
 type CardRarity = Database['public']['Enums']['card_rarity'];
-
-const eventSchema = z.object({
-  title: z.string().min(1, 'Título é obrigatório'),
-  theme: z.string().optional(),
-  preacher: z.string().optional(),
-  event_date: z.string().min(1, 'Data do evento é obrigatória'),
-  redemption_deadline: z.string().min(1, 'Data limite de resgate é obrigatória'),
-  season_id: z.string().min(1, 'Temporada é obrigatória'),
-  rarity: z.enum(['comum', 'raro', 'epico', 'lendario'] as const),
-});
-
-type EventFormData = z.infer<typeof eventSchema>;
+type DropTable = Database['public']['Tables']['variant_drop_tables']['Row'];
 
 interface Event {
   id: string;
@@ -69,13 +87,22 @@ interface Event {
   preacher: string | null;
   event_date: string;
   redemption_deadline: string;
+  redemption_opens_at: string | null;
   season_id: string;
   rarity: CardRarity;
   card_image_url: string;
   redemption_code: string;
   qr_code_data: string | null;
+  code_revoked_at: string | null;
+  rotating_code: boolean;
+  rotation_seconds: number;
+  single_use_codes: boolean;
+  extra_rolls: number;
+  status: EventStatus;
+  publish_at: string | null;
   created_at: string;
   seasons?: { name: string };
+  variant_drop_tables?: Pick<DropTable, 'comum' | 'holografica' | 'edicao_diamante' | 'reliquia'> | null;
 }
 
 interface Season {
@@ -83,13 +110,6 @@ interface Season {
   name: string;
 }
 
-const generateRedemptionCode = (): string => {
-  const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
-  const part1 = Array.from({ length: 3 }, () => chars[Math.floor(Math.random() * chars.length)]).join('');
-  const part2 = Array.from({ length: 3 }, () => chars[Math.floor(Math.random() * chars.length)]).join('');
-  return `${part1}-${part2}`;
-};
-
 const rarityLabels: Record<CardRarity, string> = {
   comum: 'Comum',
   raro: 'Raro',
@@ -112,6 +132,10 @@ const EventsManager = () => {
   const [imageFile, setImageFile] = useState<File | null>(null);
   const [imagePreview, setImagePreview] = useState<string | null>(null);
   const [copiedCode, setCopiedCode] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState<EventStatus | 'all'>('all');
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isTemplatesOpen, setIsTemplatesOpen] = useState(false);
+  const [isSeriesOpen, setIsSeriesOpen] = useState(false);
   const queryClient = useQueryClient();
 
   const form = useForm<EventFormData>({
@@ -121,9 +145,17 @@ const EventsManager = () => {
       theme: '',
       preacher: '',
       event_date: '',
+      redemption_opens_at: '',
       redemption_deadline: '',
       season_id: '',
       rarity: 'comum',
+      status: 'draft',
+      publish_at: '',
+      variant_odds: toVariantOddsForm(),
+      rotating_code: false,
+      rotation_seconds: 30,
+      single_use_codes: false,
+      extra_rolls: 0,
     },
   });
 
@@ -144,7 +176,7 @@ const EventsManager = () => {
     queryFn: async () => {
       const { data, error } = await supabase
         .from('events')
-        .select('*, seasons(name)')
+        .select('*, seasons(name), variant_drop_tables(comum, holografica, edicao_diamante, reliquia)')
         .order('event_date', { ascending: false });
       if (error) throw error;
       return data as Event[];
@@ -157,36 +189,11 @@ const EventsManager = () => {
         throw new Error('Imagem do card é obrigatória');
       }
 
-      const fileExt = imageFile.name.split('.').pop();
-      const fileName = `${crypto.randomUUID()}.${fileExt}`;
-      
-      const { error: uploadError } = await supabase.storage
-        .from('cards')
-        .upload(fileName, imageFile);
-
-      if (uploadError) throw uploadError;
-
-      const { data: urlData } = supabase.storage
-        .from('cards')
-        .getPublicUrl(fileName);
-
-      const redemptionCode = generateRedemptionCode();
-      const qrCodeData = redemptionCode;
-
-      const { error } = await supabase.from('events').insert({
-        title: data.title,
-        theme: data.theme || null,
-        preacher: data.preacher || null,
-        event_date: data.event_date,
-        redemption_deadline: data.redemption_deadline,
-        season_id: data.season_id,
-        rarity: data.rarity,
-        card_image_url: urlData.publicUrl,
-        redemption_code: redemptionCode,
-        qr_code_data: qrCodeData,
-      });
+      const imageUrl = await uploadCardImage(imageFile);
 
-      if (error) throw error;
+      const [event] = await insertEvents([toEventInsert(data, imageUrl)]);
+
+      await saveVariantOdds({ event_id: event.id }, data.variant_odds);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['events'] });
@@ -208,20 +215,7 @@ const EventsManager = () => {
 
       // Upload new image if provided
       if (imageFile) {
-        const fileExt = imageFile.name.split('.').pop();
-        const fileName = `${crypto.randomUUID()}.${fileExt}`;
-        
-        const { error: uploadError } = await supabase.storage
-          .from('cards')
-          .upload(fileName, imageFile);
-
-        if (uploadError) throw uploadError;
-
-        const { data: urlData } = supabase.storage
-          .from('cards')
-          .getPublicUrl(fileName);
-        
-        imageUrl = urlData.publicUrl;
+        imageUrl = await uploadCardImage(imageFile);
       }
 
       const { error } = await supabase
@@ -231,14 +225,23 @@ const EventsManager = () => {
           theme: data.theme || null,
           preacher: data.preacher || null,
           event_date: data.event_date,
-          redemption_deadline: data.redemption_deadline,
+          redemption_opens_at: data.redemption_opens_at ? deadlineFromInput(data.redemption_opens_at) : null,
+          redemption_deadline: deadlineFromInput(data.redemption_deadline),
           season_id: data.season_id,
           rarity: data.rarity,
+          status: data.status,
+          publish_at: data.status === 'scheduled' ? deadlineFromInput(data.publish_at) : null,
           card_image_url: imageUrl,
+          rotating_code: data.rotating_code,
+          rotation_seconds: data.rotation_seconds,
+          single_use_codes: data.single_use_codes,
+          extra_rolls: data.extra_rolls,
         })
         .eq('id', data.id);
 
       if (error) throw error;
+
+      await saveVariantOdds({ event_id: data.id }, data.variant_odds);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['events'] });
@@ -290,6 +293,10 @@ const EventsManager = () => {
     }
   };
 
+  const filteredEvents = (events ?? []).filter(
+    (event) => statusFilter === 'all' || getEffectiveEventStatus(event) === statusFilter
+  );
+
   const handleSubmit = (data: EventFormData) => {
     if (editingEvent) {
       updateMutation.mutate({ ...data, id: editingEvent.id });
@@ -313,9 +320,17 @@ const EventsManager = () => {
         theme: event.theme || '',
         preacher: event.preacher || '',
         event_date: event.event_date,
-        redemption_deadline: event.redemption_deadline.slice(0, 16),
+        redemption_opens_at: event.redemption_opens_at ? deadlineToInput(event.redemption_opens_at) : '',
+        redemption_deadline: deadlineToInput(event.redemption_deadline),
         season_id: event.season_id,
         rarity: event.rarity,
+        status: event.status,
+        publish_at: event.publish_at ? deadlineToInput(event.publish_at) : '',
+        variant_odds: toVariantOddsForm(event.variant_drop_tables),
+        rotating_code: event.rotating_code,
+        rotation_seconds: event.rotation_seconds,
+        single_use_codes: event.single_use_codes,
+        extra_rolls: event.extra_rolls,
       });
       setImagePreview(event.card_image_url);
     } else {
@@ -325,9 +340,17 @@ const EventsManager = () => {
         theme: '',
         preacher: '',
         event_date: '',
+        redemption_opens_at: '',
         redemption_deadline: '',
         season_id: '',
         rarity: 'comum',
+        status: 'draft',
+        publish_at: '',
+        variant_odds: toVariantOddsForm(),
+        rotating_code: false,
+        rotation_seconds: 30,
+        single_use_codes: false,
+        extra_rolls: 0,
       });
       setImagePreview(null);
     }
@@ -351,63 +374,75 @@ const EventsManager = () => {
           <h2 className="text-2xl font-semibold">Eventos / Cards</h2>
           <p className="text-muted-foreground">Crie e gerencie eventos e seus cards</p>
         </div>
-        <Dialog open={isDialogOpen} onOpenChange={handleCloseDialog}>
-          <DialogTrigger asChild>
-            <Button onClick={() => handleOpenDialog()} className="gap-2">
-              <Plus className="w-4 h-4" />
-              Novo Evento
-            </Button>
-          </DialogTrigger>
-          <DialogContent className="glass max-w-2xl max-h-[90vh] overflow-y-auto">
-            <DialogHeader>
-              <DialogTitle>{editingEvent ? 'Editar Evento' : 'Novo Evento'}</DialogTitle>
-            </DialogHeader>
-            <Form {...form}>
-              <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
-                <FormField
-                  control={form.control}
-                  name="title"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Título do Evento</FormLabel>
-                      <FormControl>
-                        <Input placeholder="Culto de Adoração" {...field} />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-
-                <div className="grid grid-cols-2 gap-4">
+        <div className="flex flex-wrap justify-end gap-2">
+          <Button variant="outline" onClick={() => setIsTemplatesOpen(true)} className="gap-2">
+            <LayoutTemplate className="w-4 h-4" />
+            Modelos
+          </Button>
+          <Button variant="outline" onClick={() => setIsSeriesOpen(true)} className="gap-2">
+            <CalendarRange className="w-4 h-4" />
+            Gerar Série
+          </Button>
+          <Button variant="outline" onClick={() => setIsImportOpen(true)} className="gap-2">
+            <FileSpreadsheet className="w-4 h-4" />
+            Importar
+          </Button>
+          <Dialog open={isDialogOpen} onOpenChange={handleCloseDialog}>
+            <DialogTrigger asChild>
+              <Button onClick={() => handleOpenDialog()} className="gap-2">
+                <Plus className="w-4 h-4" />
+                Novo Evento
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="glass max-w-2xl max-h-[90vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle>{editingEvent ? 'Editar Evento' : 'Novo Evento'}</DialogTitle>
+              </DialogHeader>
+              <Form {...form}>
+                <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
                   <FormField
                     control={form.control}
-                    name="theme"
+                    name="title"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>Tema</FormLabel>
+                        <FormLabel>Título do Evento</FormLabel>
                         <FormControl>
-                          <Input placeholder="Tema do evento" {...field} />
+                          <Input placeholder="Culto de Adoração" {...field} />
                         </FormControl>
                         <FormMessage />
                       </FormItem>
                     )}
                   />
-                  <FormField
-                    control={form.control}
-                    name="preacher"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Religioso(a) / Pregador(a) / Ministério</FormLabel>
-                        <FormControl>
-                          <Input placeholder="Nome" {...field} />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                </div>
 
-                <div className="grid grid-cols-2 gap-4">
+                  <div className="grid grid-cols-2 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="theme"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Tema</FormLabel>
+                          <FormControl>
+                            <Input placeholder="Tema do evento" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="preacher"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Religioso(a) / Pregador(a) / Ministério</FormLabel>
+                          <FormControl>
+                            <Input placeholder="Nome" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+
                   <FormField
                     control={form.control}
                     name="event_date"
@@ -421,115 +456,275 @@ const EventsManager = () => {
                       </FormItem>
                     )}
                   />
+
+                  <div className="grid grid-cols-2 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="redemption_opens_at"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Abertura do Resgate</FormLabel>
+                          <FormControl>
+                            <Input type="datetime-local" {...field} />
+                          </FormControl>
+                          <FormDescription>Opcional. Se vazio, o código já vale ao criar o evento.</FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="redemption_deadline"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Data Limite de Resgate</FormLabel>
+                          <FormControl>
+                            <Input type="datetime-local" {...field} />
+                          </FormControl>
+                          <FormDescription>Fuso horário: {ORG_TIMEZONE}</FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="season_id"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Temporada</FormLabel>
+                          <Select onValueChange={field.onChange} value={field.value}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue placeholder="Selecione a temporada" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {seasons?.map((season) => (
+                                <SelectItem key={season.id} value={season.id}>
+                                  {season.name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="rarity"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Raridade</FormLabel>
+                          <Select onValueChange={field.onChange} value={field.value}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue placeholder="Selecione a raridade" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <SelectItem value="comum">Comum</SelectItem>
+                              <SelectItem value="raro">Raro</SelectItem>
+                              <SelectItem value="epico">Épico</SelectItem>
+                              <SelectItem value="lendario">Lendário</SelectItem>
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="status"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Status</FormLabel>
+                          <Select onValueChange={field.onChange} value={field.value}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue placeholder="Selecione o status" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {EVENT_STATUSES.map((status) => (
+                                <SelectItem key={status} value={status}>
+                                  {eventStatusLabels[status]}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormDescription>Rascunhos ficam ocultos para os membros</FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    {form.watch('status') === 'scheduled' && (
+                      <FormField
+                        control={form.control}
+                        name="publish_at"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Publicar em</FormLabel>
+                            <FormControl>
+                              <Input type="datetime-local" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    )}
+                  </div>
+
+                  <div className="space-y-3 rounded-lg border border-border/50 p-3">
+                    <FormField
+                      control={form.control}
+                      name="rotating_code"
+                      render={({ field }) => (
+                        <FormItem className="flex items-center justify-between gap-4 space-y-0">
+                          <div>
+                            <FormLabel>Código rotativo</FormLabel>
+                            <p className="text-xs text-muted-foreground">
+                              O QR muda periodicamente e o código fixo deixa de ser aceito
+                            </p>
+                          </div>
+                          <FormControl>
+                            <Switch
+                              checked={field.value}
+                              onCheckedChange={(checked) => {
+                                field.onChange(checked);
+                                if (checked) form.setValue('single_use_codes', false);
+                              }}
+                            />
+                          </FormControl>
+                        </FormItem>
+                      )}
+                    />
+                    {form.watch('rotating_code') && (
+                      <FormField
+                        control={form.control}
+                        name="rotation_seconds"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Trocar a cada (segundos)</FormLabel>
+                            <FormControl>
+                              <Input type="number" min={10} max={600} {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    )}
+                    <FormField
+                      control={form.control}
+                      name="single_use_codes"
+                      render={({ field }) => (
+                        <FormItem className="flex items-center justify-between gap-4 space-y-0">
+                          <div>
+                            <FormLabel>Códigos individuais</FormLabel>
+                            <p className="text-xs text-muted-foreground">
+                              Cada participante recebe um código de uso único; o código fixo deixa de ser aceito
+                            </p>
+                          </div>
+                          <FormControl>
+                            <Switch
+                              checked={field.value}
+                              onCheckedChange={(checked) => {
+                                field.onChange(checked);
+                                if (checked) form.setValue('rotating_code', false);
+                              }}
+                            />
+                          </FormControl>
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+
                   <FormField
                     control={form.control}
-                    name="redemption_deadline"
+                    name="extra_rolls"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>Data Limite de Resgate</FormLabel>
+                        <FormLabel>Cópias extras por membro</FormLabel>
                         <FormControl>
-                          <Input type="datetime-local" {...field} />
+                          <Input type="number" min={0} max={10} {...field} />
                         </FormControl>
+                        <FormDescription>
+                          Para estações bônus: quem já tem o card pode resgatar de novo e ganhar
+                          outra cópia, com nova chance de variante. Use 0 para desativar.
+                        </FormDescription>
                         <FormMessage />
                       </FormItem>
                     )}
                   />
-                </div>
 
-                <div className="grid grid-cols-2 gap-4">
                   <FormField
                     control={form.control}
-                    name="season_id"
+                    name="variant_odds"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>Temporada</FormLabel>
-                        <Select onValueChange={field.onChange} value={field.value}>
-                          <FormControl>
-                            <SelectTrigger>
-                              <SelectValue placeholder="Selecione a temporada" />
-                            </SelectTrigger>
-                          </FormControl>
-                          <SelectContent>
-                            {seasons?.map((season) => (
-                              <SelectItem key={season.id} value={season.id}>
-                                {season.name}
-                              </SelectItem>
-                            ))}
-                          </SelectContent>
-                        </Select>
+                        <FormLabel>Probabilidades de Variante</FormLabel>
+                        <VariantOddsEditor
+                          value={field.value}
+                          onChange={field.onChange}
+                          customLabel="Probabilidades personalizadas para este evento"
+                          inheritedHint="Usando as probabilidades padrão da temporada."
+                        />
                         <FormMessage />
                       </FormItem>
                     )}
                   />
-                  <FormField
-                    control={form.control}
-                    name="rarity"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Raridade</FormLabel>
-                        <Select onValueChange={field.onChange} value={field.value}>
-                          <FormControl>
-                            <SelectTrigger>
-                              <SelectValue placeholder="Selecione a raridade" />
-                            </SelectTrigger>
-                          </FormControl>
-                          <SelectContent>
-                            <SelectItem value="comum">Comum</SelectItem>
-                            <SelectItem value="raro">Raro</SelectItem>
-                            <SelectItem value="epico">Épico</SelectItem>
-                            <SelectItem value="lendario">Lendário</SelectItem>
-                          </SelectContent>
-                        </Select>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                </div>
 
-                <div className="space-y-2">
-                  <FormLabel>Imagem do Card (PNG/JPG)</FormLabel>
-                  <div className="flex gap-4">
-                    <label className="flex-1 cursor-pointer">
-                      <div className="border-2 border-dashed border-border rounded-lg p-4 hover:border-primary/50 transition-colors flex flex-col items-center justify-center gap-2">
-                        {imagePreview ? (
-                          <img
-                            src={imagePreview}
-                            alt="Preview"
-                            className="max-h-24 object-contain rounded"
-                          />
-                        ) : (
-                          <>
-                            <Upload className="w-6 h-6 text-muted-foreground" />
-                            <span className="text-xs text-muted-foreground">
-                              Clique para selecionar
-                            </span>
-                          </>
-                        )}
-                      </div>
-                      <input
-                        type="file"
-                        accept="image/png,image/jpeg,image/jpg"
-                        onChange={handleImageChange}
-                        className="hidden"
-                      />
-                    </label>
+                  <div className="space-y-2">
+                    <FormLabel>Imagem do Card (PNG/JPG)</FormLabel>
+                    <div className="flex gap-4">
+                      <label className="flex-1 cursor-pointer">
+                        <div className="border-2 border-dashed border-border rounded-lg p-4 hover:border-primary/50 transition-colors flex flex-col items-center justify-center gap-2">
+                          {imagePreview ? (
+                            <img
+                              src={imagePreview}
+                              alt="Preview"
+                              className="max-h-24 object-contain rounded"
+                            />
+                          ) : (
+                            <>
+                              <Upload className="w-6 h-6 text-muted-foreground" />
+                              <span className="text-xs text-muted-foreground">
+                                Clique para selecionar
+                              </span>
+                            </>
+                          )}
+                        </div>
+                        <input
+                          type="file"
+                          accept="image/png,image/jpeg,image/jpg"
+                          onChange={handleImageChange}
+                          className="hidden"
+                        />
+                      </label>
+                    </div>
                   </div>
-                </div>
 
-                <Button
-                  type="submit"
-                  className="w-full"
-                  disabled={createMutation.isPending || updateMutation.isPending || (!editingEvent && !imageFile)}
-                >
-                  {(createMutation.isPending || updateMutation.isPending) && (
-                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                  )}
-                  {editingEvent ? 'Salvar Alterações' : 'Criar Evento'}
-                </Button>
-              </form>
-            </Form>
-          </DialogContent>
-        </Dialog>
+                  <Button
+                    type="submit"
+                    className="w-full"
+                    disabled={createMutation.isPending || updateMutation.isPending || (!editingEvent && !imageFile)}
+                  >
+                    {(createMutation.isPending || updateMutation.isPending) && (
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    )}
+                    {editingEvent ? 'Salvar Alterações' : 'Criar Evento'}
+                  </Button>
+                </form>
+              </Form>
+            </DialogContent>
+          </Dialog>
+        </div>
       </div>
 
       {/* Event Details Dialog */}
@@ -549,9 +744,20 @@ const EventsManager = () => {
               </div>
               <div className="space-y-1 text-sm">
                 <h3 className="font-semibold">{selectedEvent.title}</h3>
-                <Badge className={rarityColors[selectedEvent.rarity]}>
-                  {rarityLabels[selectedEvent.rarity]}
-                </Badge>
+                <div className="flex flex-wrap gap-1">
+                  <Badge className={rarityColors[selectedEvent.rarity]}>
+                    {rarityLabels[selectedEvent.rarity]}
+                  </Badge>
+                  <Badge variant="outline" className={eventStatusColors[getEffectiveEventStatus(selectedEvent)]}>
+                    {eventStatusLabels[getEffectiveEventStatus(selectedEvent)]}
+                  </Badge>
+                </div>
+                {selectedEvent.status === 'scheduled' && selectedEvent.publish_at && (
+                  <p>
+                    <span className="font-semibold">Publicação:</span>{' '}
+                    {formatDeadline(selectedEvent.publish_at)}
+                  </p>
+                )}
                 {selectedEvent.theme && (
                   <p><span className="font-semibold">Tema:</span> {selectedEvent.theme}</p>
                 )}
@@ -562,36 +768,107 @@ const EventsManager = () => {
                   <span className="font-semibold">Data:</span>{' '}
                   {selectedEvent.event_date.split('-').reverse().join('/')}
                 </p>
+                {selectedEvent.redemption_opens_at && (
+                  <p>
+                    <span className="font-semibold">Resgate abre:</span>{' '}
+                    {formatDeadline(selectedEvent.redemption_opens_at)}
+                  </p>
+                )}
+                <p>
+                  <span className="font-semibold">Resgate até:</span>{' '}
+                  {formatDeadline(selectedEvent.redemption_deadline)}
+                </p>
+                {selectedEvent.extra_rolls > 0 && (
+                  <p>
+                    <span className="font-semibold">Cópias extras:</span> até {selectedEvent.extra_rolls} por membro
+                  </p>
+                )}
+                {selectedEvent.variant_drop_tables && (
+                  <p className="flex items-start gap-1 text-xs text-muted-foreground">
+                    <Dices className="w-3 h-3 mt-0.5 shrink-0" />
+                    {VARIANT_KEYS.map(
+                      (key) => `${variantLabels[key]} ${selectedEvent.variant_drop_tables[key]}%`
+                    ).join(' · ')}
+                  </p>
+                )}
               </div>
-              <div className="p-3 rounded-lg bg-muted/50 space-y-2">
-                <div className="flex items-center justify-between">
-                  <span className="text-xs text-muted-foreground">Código:</span>
-                  <div className="flex items-center gap-1">
-                    <code className="font-mono font-bold text-primary text-sm">
-                      {selectedEvent.redemption_code}
-                    </code>
-                    <Button
-                      size="icon"
-                      variant="ghost"
-                      className="h-6 w-6"
-                      onClick={() => handleCopyCode(selectedEvent.redemption_code)}
-                    >
-                      {copiedCode === selectedEvent.redemption_code ? (
-                        <Check className="w-3 h-3 text-green-500" />
-                      ) : (
-                        <Copy className="w-3 h-3" />
-                      )}
-                    </Button>
+              {selectedEvent.rotating_code ? (
+                <div className="p-3 rounded-lg bg-muted/50 space-y-2">
+                  <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <RefreshCw className="w-3 h-3" />
+                    <span>Código rotativo a cada {selectedEvent.rotation_seconds}s</span>
                   </div>
+                  <Button asChild variant="secondary" className="w-full">
+                    <Link to={`/admin/events/${selectedEvent.id}/present`} target="_blank">
+                      <Presentation className="w-4 h-4 mr-2" />
+                      Modo Apresentação
+                    </Link>
+                  </Button>
                 </div>
-                <div className="flex justify-center p-2 bg-white rounded-lg">
-                  <QRCodeSVG
-                    value={selectedEvent.qr_code_data || selectedEvent.redemption_code}
-                    size={100}
-                    level="H"
+              ) : selectedEvent.single_use_codes ? (
+                <AttendeeCodesPanel eventId={selectedEvent.id} />
+              ) : (
+                <div className="p-3 rounded-lg bg-muted/50 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <span className="text-xs text-muted-foreground">
+                      {selectedEvent.code_revoked_at ? 'Código revogado:' : 'Código:'}
+                    </span>
+                    <div className="flex items-center gap-1">
+                      <code
+                        className={`font-mono font-bold text-sm ${
+                          selectedEvent.code_revoked_at ? 'line-through text-muted-foreground' : 'text-primary'
+                        }`}
+                      >
+                        {selectedEvent.redemption_code}
+                      </code>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-6 w-6"
+                        onClick={() => handleCopyCode(selectedEvent.redemption_code)}
+                      >
+                        {copiedCode === selectedEvent.redemption_code ? (
+                          <Check className="w-3 h-3 text-green-500" />
+                        ) : (
+                          <Copy className="w-3 h-3" />
+                        )}
+                      </Button>
+                    </div>
+                  </div>
+                  {selectedEvent.code_revoked_at ? (
+                    <p className="text-xs text-muted-foreground">
+                      Nenhum código aceito desde {formatDeadline(selectedEvent.code_revoked_at)}. Gere um
+                      novo código para reabrir o resgate.
+                    </p>
+                  ) : (
+                    <>
+                      <div className="flex justify-center p-2 bg-white rounded-lg">
+                        <QRCodeSVG
+                          value={selectedEvent.qr_code_data || selectedEvent.redemption_code}
+                          size={100}
+                          level="H"
+                        />
+                      </div>
+                      <Button asChild variant="secondary" className="w-full">
+                        <Link to={`/admin/events/${selectedEvent.id}/print`} target="_blank">
+                          <Printer className="w-4 h-4 mr-2" />
+                          Imprimir Cartaz e Folhetos
+                        </Link>
+                      </Button>
+                    </>
+                  )}
+                  <RedemptionCodeActions
+                    event={selectedEvent}
+                    onChange={(change) => setSelectedEvent((current) => current && { ...current, ...change })}
                   />
                 </div>
-              </div>
+              )}
+              <Button asChild variant="secondary" className="w-full">
+                <Link to={`/admin/events/${selectedEvent.id}/feed`} target="_blank">
+                  <Radio className="w-4 h-4 mr-2" />
+                  Feed ao Vivo
+                </Link>
+              </Button>
               <div className="flex gap-2 mt-2">
                 <Button
                   variant="outline"
@@ -667,52 +944,106 @@ const EventsManager = () => {
           </CardContent>
         </Card>
       ) : (
-        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-3">
-          <AnimatePresence>
-            {events.map((event, index) => (
-              <motion.div
-                key={event.id}
-                initial={{ opacity: 0, y: 20 }}
-                animate={{ opacity: 1, y: 0 }}
-                exit={{ opacity: 0, scale: 0.95 }}
-                transition={{ delay: index * 0.03 }}
+        <div className="space-y-4">
+          <div className="flex flex-wrap gap-2">
+            {(['all', ...EVENT_STATUSES] as const).map((status) => (
+              <Button
+                key={status}
+                size="sm"
+                variant={statusFilter === status ? 'default' : 'outline'}
+                onClick={() => setStatusFilter(status)}
               >
-                <Card
-                  className="glass border-border/50 hover:border-primary/50 transition-all cursor-pointer group"
-                  onClick={() => setSelectedEvent(event)}
-                >
-                  <CardContent className="p-2">
-                    <div className="aspect-[3/4] rounded-lg overflow-hidden mb-2 relative">
-                      <img
-                        src={event.card_image_url}
-                        alt={event.title}
-                        className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-300"
-                      />
-                      <div className="absolute top-1 right-1">
-                        <Badge className={`${rarityColors[event.rarity]} text-[10px] px-1.5 py-0.5`}>
-                          {rarityLabels[event.rarity]}
-                        </Badge>
-                      </div>
-                    </div>
-                    <div className="space-y-0.5">
-                      <h3 className="font-semibold text-xs truncate">{event.title}</h3>
-                      <div className="flex items-center justify-between text-[10px]">
-                        <span className="text-muted-foreground truncate">
-                          {event.seasons?.name}
-                        </span>
-                        <div className="flex items-center gap-0.5 text-muted-foreground">
-                          <QrCode className="w-2.5 h-2.5" />
-                          <code className="font-mono">{event.redemption_code}</code>
-                        </div>
-                      </div>
-                    </div>
-                  </CardContent>
-                </Card>
-              </motion.div>
+                {status === 'all' ? 'Todos' : eventStatusLabels[status]}
+                <span className="ml-1.5 text-xs opacity-70">
+                  {status === 'all'
+                    ? events.length
+                    : events.filter((event) => getEffectiveEventStatus(event) === status).length}
+                </span>
+              </Button>
             ))}
-          </AnimatePresence>
+          </div>
+
+          {!filteredEvents.length ? (
+            <p className="text-center text-muted-foreground py-8">
+              Nenhum evento com este status.
+            </p>
+          ) : (
+            <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-3">
+              <AnimatePresence>
+                {filteredEvents.map((event, index) => (
+                  <motion.div
+                    key={event.id}
+                    initial={{ opacity: 0, y: 20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    exit={{ opacity: 0, scale: 0.95 }}
+                    transition={{ delay: index * 0.03 }}
+                  >
+                    <Card
+                      className="glass border-border/50 hover:border-primary/50 transition-all cursor-pointer group"
+                      onClick={() => setSelectedEvent(event)}
+                    >
+                      <CardContent className="p-2">
+                        <div className="aspect-[3/4] rounded-lg overflow-hidden mb-2 relative">
+                          <img
+                            src={event.card_image_url}
+                            alt={event.title}
+                            className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-300"
+                          />
+                          <div className="absolute top-1 right-1">
+                            <Badge className={`${rarityColors[event.rarity]} text-[10px] px-1.5 py-0.5`}>
+                              {rarityLabels[event.rarity]}
+                            </Badge>
+                          </div>
+                          <div className="absolute top-1 left-1">
+                            <Badge
+                              variant="outline"
+                              className={`${eventStatusColors[getEffectiveEventStatus(event)]} text-[10px] px-1.5 py-0.5`}
+                            >
+                              {eventStatusLabels[getEffectiveEventStatus(event)]}
+                            </Badge>
+                          </div>
+                        </div>
+                        <div className="space-y-0.5">
+                          <h3 className="font-semibold text-xs truncate">{event.title}</h3>
+                          <div className="flex items-center justify-between text-[10px]">
+                            <span className="text-muted-foreground truncate">
+                              {event.seasons?.name}
+                            </span>
+                            <div className="flex items-center gap-0.5 text-muted-foreground">
+                              {event.rotating_code ? (
+                                <>
+                                  <RefreshCw className="w-2.5 h-2.5" />
+                                  <span>Rotativo</span>
+                                </>
+                              ) : event.single_use_codes ? (
+                                <>
+                                  <Ticket className="w-2.5 h-2.5" />
+                                  <span>Individuais</span>
+                                </>
+                              ) : (
+                                <>
+                                  <QrCode className="w-2.5 h-2.5" />
+                                  <code className={`font-mono ${event.code_revoked_at ? 'line-through' : ''}`}>
+                                    {event.redemption_code}
+                                  </code>
+                                </>
+                              )}
+                            </div>
+                          </div>
+                        </div>
+                      </CardContent>
+                    </Card>
+                  </motion.div>
+                ))}
+              </AnimatePresence>
+            </div>
+          )}
         </div>
       )}
+
+      <EventImportDialog open={isImportOpen} onOpenChange={setIsImportOpen} seasons={seasons} />
+      <EventTemplatesDialog open={isTemplatesOpen} onOpenChange={setIsTemplatesOpen} />
+      <EventSeriesDialog open={isSeriesOpen} onOpenChange={setIsSeriesOpen} events={events} />
     </div>
   );
 };
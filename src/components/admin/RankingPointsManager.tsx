@@ -0,0 +1,172 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { toast } from 'sonner';
+import { Loader2, Save, Star } from 'lucide-react';
+import { Database } from '@/integrations/supabase/types';
+import { VARIANT_KEYS, variantLabels } from '@/lib/variantOdds';
+import { RARITY_KEYS, rarityLabels } from '@/lib/rankingPoints';
+
+type CardRarity = Database['public']['Enums']['card_rarity'];
+type CardVariant = Database['public']['Enums']['card_variant'];
+
+interface PointsForm {
+  rarity: Record<CardRarity, number>;
+  variant: Record<CardVariant, number>;
+}
+
+const RankingPointsManager = () => {
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState<PointsForm | null>(null);
+
+  const { data: points, isLoading } = useQuery({
+    queryKey: ['ranking-points'],
+    queryFn: async () => {
+      const [rarityResult, variantResult] = await Promise.all([
+        supabase.from('rarity_points').select('rarity, points'),
+        supabase.from('variant_points').select('variant, points'),
+      ]);
+      if (rarityResult.error) throw rarityResult.error;
+      if (variantResult.error) throw variantResult.error;
+
+      const result: PointsForm = {
+        rarity: { comum: 0, raro: 0, epico: 0, lendario: 0 },
+        variant: { comum: 0, holografica: 0, edicao_diamante: 0, reliquia: 0 },
+      };
+      rarityResult.data.forEach((row) => (result.rarity[row.rarity] = row.points));
+      variantResult.data.forEach((row) => (result.variant[row.variant] = row.points));
+      return result;
+    },
+  });
+
+  useEffect(() => {
+    if (points) setForm(points);
+  }, [points]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: PointsForm) => {
+      const [rarityResult, variantResult] = await Promise.all([
+        supabase
+          .from('rarity_points')
+          .upsert(RARITY_KEYS.map((rarity) => ({ rarity, points: data.rarity[rarity] }))),
+        supabase
+          .from('variant_points')
+          .upsert(VARIANT_KEYS.map((variant) => ({ variant, points: data.variant[variant] }))),
+      ]);
+      if (rarityResult.error) throw rarityResult.error;
+      if (variantResult.error) throw variantResult.error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['ranking-points'] });
+      queryClient.invalidateQueries({ queryKey: ['ranking'] });
+      queryClient.invalidateQueries({ queryKey: ['my-ranking'] });
+      toast.success('Pontuação atualizada!');
+    },
+    onError: (error) => {
+      toast.error('Erro ao salvar pontuação: ' + error.message);
+    },
+  });
+
+  const isValid =
+    !!form &&
+    [...Object.values(form.rarity), ...Object.values(form.variant)].every(
+      (value) => Number.isInteger(value) && value >= 0
+    );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-semibold">Pontuação do Ranking</h2>
+          <p className="text-muted-foreground">
+            Cada card vale os pontos da sua raridade mais o bônus da variante
+          </p>
+        </div>
+        <Button
+          className="gap-2"
+          disabled={!isValid || saveMutation.isPending}
+          onClick={() => form && saveMutation.mutate(form)}
+        >
+          {saveMutation.isPending ? (
+            <Loader2 className="w-4 h-4 animate-spin" />
+          ) : (
+            <Save className="w-4 h-4" />
+          )}
+          Salvar
+        </Button>
+      </div>
+
+      {isLoading || !form ? (
+        <Card className="glass animate-pulse">
+          <CardContent className="p-6 space-y-3">
+            {[1, 2, 3, 4].map((i) => (
+              <div key={i} className="h-8 bg-muted rounded" />
+            ))}
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid md:grid-cols-2 gap-4">
+          <Card className="glass">
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <Star className="w-4 h-4 text-primary" />
+                Pontos por raridade
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {RARITY_KEYS.map((rarity) => (
+                <div key={rarity} className="flex items-center justify-between gap-4">
+                  <Label htmlFor={`rarity-${rarity}`}>{rarityLabels[rarity]}</Label>
+                  <Input
+                    id={`rarity-${rarity}`}
+                    type="number"
+                    min={0}
+                    step={1}
+                    className="w-24"
+                    value={form.rarity[rarity]}
+                    onChange={(e) =>
+                      setForm({ ...form, rarity: { ...form.rarity, [rarity]: Number(e.target.value) } })
+                    }
+                  />
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+
+          <Card className="glass">
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <Star className="w-4 h-4 text-primary" />
+                Bônus por variante
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {VARIANT_KEYS.map((variant) => (
+                <div key={variant} className="flex items-center justify-between gap-4">
+                  <Label htmlFor={`variant-${variant}`}>{variantLabels[variant]}</Label>
+                  <Input
+                    id={`variant-${variant}`}
+                    type="number"
+                    min={0}
+                    step={1}
+                    className="w-24"
+                    value={form.variant[variant]}
+                    onChange={(e) =>
+                      setForm({ ...form, variant: { ...form.variant, [variant]: Number(e.target.value) } })
+                    }
+                  />
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RankingPointsManager;
@@ -0,0 +1,173 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { toast } from 'sonner';
+import { Ban, History, KeyRound, Loader2 } from 'lucide-react';
+import { formatDeadline } from '@/lib/deadline';
+
+type CodeAction = 'regenerate' | 'revoke';
+
+const reasonLabels: Record<string, string> = {
+  regenerated: 'Substituído',
+  revoked: 'Revogado',
+};
+
+interface RedemptionCodeChange {
+  redemption_code: string;
+  qr_code_data: string;
+  code_revoked_at: string | null;
+}
+
+interface RedemptionCodeActionsProps {
+  event: { id: string; redemption_code: string; code_revoked_at: string | null };
+  onChange: (change: Partial<RedemptionCodeChange>) => void;
+}
+
+const RedemptionCodeActions = ({ event, onChange }: RedemptionCodeActionsProps) => {
+  const queryClient = useQueryClient();
+  const [pendingAction, setPendingAction] = useState<CodeAction | null>(null);
+
+  const { data: history } = useQuery({
+    queryKey: ['code-history', event.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('event_code_history')
+        .select('id, code, reason, replaced_at')
+        .eq('event_id', event.id)
+        .order('replaced_at', { ascending: false });
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['events'] });
+    queryClient.invalidateQueries({ queryKey: ['code-history', event.id] });
+    queryClient.invalidateQueries({ queryKey: ['print-event', event.id] });
+  };
+
+  const regenerateMutation = useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase.rpc('regenerate_redemption_code', { _event_id: event.id });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (code) => {
+      invalidate();
+      onChange({ redemption_code: code, qr_code_data: code, code_revoked_at: null });
+      toast.success(`Novo código: ${code}`);
+      setPendingAction(null);
+    },
+    onError: (error) => {
+      toast.error('Erro ao gerar novo código: ' + error.message);
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase.rpc('revoke_redemption_code', { _event_id: event.id });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      onChange({ code_revoked_at: new Date().toISOString() });
+      toast.success('Código revogado!');
+      setPendingAction(null);
+    },
+    onError: (error) => {
+      toast.error('Erro ao revogar código: ' + error.message);
+    },
+  });
+
+  const isPending = regenerateMutation.isPending || revokeMutation.isPending;
+
+  return (
+    <>
+      <div className="flex gap-2">
+        <Button size="sm" variant="outline" className="flex-1" onClick={() => setPendingAction('regenerate')}>
+          <KeyRound className="w-4 h-4 mr-1" />
+          Novo Código
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          className="flex-1"
+          disabled={!!event.code_revoked_at}
+          onClick={() => setPendingAction('revoke')}
+        >
+          <Ban className="w-4 h-4 mr-1" />
+          Revogar
+        </Button>
+      </div>
+
+      {!!history?.length && (
+        <div className="space-y-1">
+          <p className="flex items-center gap-1 text-xs text-muted-foreground">
+            <History className="w-3 h-3" />
+            Códigos anteriores
+          </p>
+          <ul className="space-y-0.5 text-xs">
+            {history.map((entry) => (
+              <li key={entry.id} className="flex items-center justify-between gap-2">
+                <code className="font-mono line-through text-muted-foreground">{entry.code}</code>
+                <span className="text-muted-foreground">
+                  {reasonLabels[entry.reason] ?? entry.reason} · {formatDeadline(entry.replaced_at)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <AlertDialog open={!!pendingAction} onOpenChange={(open) => !open && setPendingAction(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {pendingAction === 'regenerate' ? 'Gerar Novo Código' : 'Revogar Código'}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingAction === 'regenerate'
+                ? `O código ${event.redemption_code} deixará de funcionar e cartazes já impressos precisarão ser substituídos.`
+                : `O código ${event.redemption_code} deixará de ser aceito até que um novo código seja gerado.`}{' '}
+              Quem digitar o código antigo será avisado de que ele foi substituído. Os cards já
+              resgatados não são afetados.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isPending}>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={isPending}
+              onClick={(e) => {
+                e.preventDefault();
+                if (pendingAction === 'regenerate') regenerateMutation.mutate();
+                else revokeMutation.mutate();
+              }}
+              className={pendingAction === 'revoke' ? 'bg-destructive text-destructive-foreground hover:bg-destructive/90' : undefined}
+            >
+              {isPending ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : pendingAction === 'regenerate' ? (
+                'Gerar'
+              ) : (
+                'Revogar'
+              )}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+export default RedemptionCodeActions;
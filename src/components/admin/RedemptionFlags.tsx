@@ -0,0 +1,170 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { toast } from 'sonner';
+import { ShieldCheck, ShieldAlert, Unlock, Loader2, Globe, User } from 'lucide-react';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+
+interface RedemptionFlag {
+  subject_type: 'user' | 'ip';
+  subject: string;
+  user_id: string | null;
+  display_name: string | null;
+  email: string | null;
+  lockout_count: number;
+  locked_until: string;
+  updated_at: string;
+  failures_24h: number;
+}
+
+const RedemptionFlags = () => {
+  const queryClient = useQueryClient();
+
+  const { data: flags, isLoading } = useQuery({
+    queryKey: ['redemption-flags'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('redemption_flags')
+        .select('*')
+        .order('updated_at', { ascending: false });
+      if (error) throw error;
+      return data as RedemptionFlag[];
+    },
+  });
+
+  const unlockMutation = useMutation({
+    mutationFn: async (flag: RedemptionFlag) => {
+      // Ending the lockout now also restarts the failure window from this moment
+      const { error } = await supabase
+        .from('redemption_lockouts')
+        .update({ locked_until: new Date().toISOString() })
+        .eq('subject_type', flag.subject_type)
+        .eq('subject', flag.subject);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['redemption-flags'] });
+      toast.success('Bloqueio removido!');
+    },
+    onError: (error) => {
+      toast.error('Erro ao remover bloqueio: ' + error.message);
+    },
+  });
+
+  const isLocked = (flag: RedemptionFlag) => new Date(flag.locked_until) > new Date();
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-semibold">Segurança</h2>
+        <p className="text-muted-foreground">
+          Contas e IPs bloqueados por excesso de códigos inválidos
+        </p>
+      </div>
+
+      {isLoading ? (
+        <Card className="glass animate-pulse">
+          <CardContent className="p-6 space-y-3">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="h-6 bg-muted rounded" />
+            ))}
+          </CardContent>
+        </Card>
+      ) : !flags?.length ? (
+        <Card className="glass border-dashed">
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <ShieldCheck className="w-12 h-12 text-muted-foreground mb-4" />
+            <p className="text-muted-foreground text-center">
+              Nenhuma conta sinalizada até agora.
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card className="glass">
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Origem</TableHead>
+                  <TableHead className="text-center">Falhas (24h)</TableHead>
+                  <TableHead className="text-center">Bloqueios</TableHead>
+                  <TableHead>Situação</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {flags.map((flag) => (
+                  <TableRow key={`${flag.subject_type}-${flag.subject}`}>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        {flag.subject_type === 'user' ? (
+                          <User className="w-4 h-4 text-muted-foreground" />
+                        ) : (
+                          <Globe className="w-4 h-4 text-muted-foreground" />
+                        )}
+                        <div className="min-w-0">
+                          <p className="font-medium truncate">
+                            {flag.subject_type === 'user'
+                              ? flag.display_name || 'Usuário Anônimo'
+                              : flag.subject}
+                          </p>
+                          {flag.subject_type === 'user' && flag.email && (
+                            <p className="text-xs text-muted-foreground truncate">{flag.email}</p>
+                          )}
+                        </div>
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-center">{flag.failures_24h}</TableCell>
+                    <TableCell className="text-center">{flag.lockout_count}</TableCell>
+                    <TableCell>
+                      {isLocked(flag) ? (
+                        <Badge variant="destructive" className="gap-1">
+                          <ShieldAlert className="w-3 h-3" />
+                          Até {format(new Date(flag.locked_until), "dd/MM 'às' HH:mm", { locale: ptBR })}
+                        </Badge>
+                      ) : (
+                        <Badge variant="secondary">Liberado</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {isLocked(flag) && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={unlockMutation.isPending}
+                          onClick={() => unlockMutation.mutate(flag)}
+                        >
+                          {unlockMutation.isPending ? (
+                            <Loader2 className="w-4 h-4 animate-spin" />
+                          ) : (
+                            <>
+                              <Unlock className="w-4 h-4 mr-1" />
+                              Desbloquear
+                            </>
+                          )}
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default RedemptionFlags;
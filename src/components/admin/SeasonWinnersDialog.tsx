@@ -0,0 +1,161 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { toast } from 'sonner';
+import { Check, Loader2, Trophy, Undo2 } from 'lucide-react';
+import { Database } from '@/integrations/supabase/types';
+
+type SeasonWinner = Database['public']['Tables']['season_winners']['Row'];
+
+interface SeasonWinnersDialogProps {
+  season: { id: string; name: string } | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const placeLabels: Record<number, string> = {
+  1: '🥇 1º Lugar',
+  2: '🥈 2º Lugar',
+  3: '🥉 3º Lugar',
+};
+
+const SeasonWinnersDialog = ({ season, onOpenChange }: SeasonWinnersDialogProps) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [prizes, setPrizes] = useState<Record<string, string>>({});
+
+  const { data: winners, isLoading } = useQuery({
+    queryKey: ['season-winners', season?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('season_winners')
+        .select('*')
+        .eq('season_id', season.id)
+        .order('place', { ascending: true })
+        .order('display_name', { ascending: true });
+
+      if (error) throw error;
+      return data as SeasonWinner[];
+    },
+    enabled: !!season,
+  });
+
+  useEffect(() => {
+    if (winners) {
+      setPrizes(Object.fromEntries(winners.map((winner) => [winner.id, winner.prize ?? ''])));
+    }
+  }, [winners]);
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ winner, confirm }: { winner: SeasonWinner; confirm: boolean }) => {
+      const { error } = await supabase
+        .from('season_winners')
+        .update({
+          prize: prizes[winner.id]?.trim() || null,
+          confirmed_at: confirm ? new Date().toISOString() : null,
+          confirmed_by: confirm ? user?.id ?? null : null,
+        })
+        .eq('id', winner.id);
+      if (error) throw error;
+    },
+    onSuccess: (_, { confirm }) => {
+      queryClient.invalidateQueries({ queryKey: ['season-winners', season?.id] });
+      queryClient.invalidateQueries({ queryKey: ['hall-of-fame'] });
+      toast.success(confirm ? 'Vencedor confirmado!' : 'Confirmação desfeita.');
+    },
+    onError: (error) => {
+      toast.error('Erro ao atualizar vencedor: ' + error.message);
+    },
+  });
+
+  return (
+    <Dialog open={!!season} onOpenChange={onOpenChange}>
+      <DialogContent className="glass max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Trophy className="w-5 h-5 text-rarity-legendary" />
+            Premiação · {season?.name}
+          </DialogTitle>
+          <DialogDescription>
+            O pódio foi gerado a partir da classificação final. Informe o prêmio e confirme cada
+            vencedor para exibi-lo no Hall da Fama.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : !winners?.length ? (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            Nenhum colecionador pontuou nesta temporada.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {winners.map((winner) => {
+              const isConfirmed = !!winner.confirmed_at;
+              return (
+                <div
+                  key={winner.id}
+                  className={`rounded-lg border p-3 space-y-2 ${
+                    isConfirmed ? 'border-green-500/50 bg-green-500/5' : 'border-border/50'
+                  }`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="text-xs text-muted-foreground">
+                        {placeLabels[winner.place] ?? `${winner.place}º Lugar`}
+                      </p>
+                      <p className="font-semibold truncate">
+                        {winner.display_name || 'Usuário Anônimo'}
+                      </p>
+                    </div>
+                    {isConfirmed ? (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="gap-1"
+                        disabled={updateMutation.isPending}
+                        onClick={() => updateMutation.mutate({ winner, confirm: false })}
+                      >
+                        <Undo2 className="w-4 h-4" />
+                        Desfazer
+                      </Button>
+                    ) : (
+                      <Button
+                        size="sm"
+                        className="gap-1"
+                        disabled={updateMutation.isPending}
+                        onClick={() => updateMutation.mutate({ winner, confirm: true })}
+                      >
+                        <Check className="w-4 h-4" />
+                        Confirmar
+                      </Button>
+                    )}
+                  </div>
+                  <Input
+                    placeholder="Prêmio (ex.: Bíblia de estudo)"
+                    value={prizes[winner.id] ?? ''}
+                    disabled={isConfirmed}
+                    onChange={(e) => setPrizes({ ...prizes, [winner.id]: e.target.value })}
+                  />
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SeasonWinnersDialog;
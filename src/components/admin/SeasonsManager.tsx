@@ -6,6 +6,8 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
 import {
   Dialog,
   DialogContent,
@@ -35,15 +37,30 @@ import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { toast } from 'sonner';
-import { Plus, Edit, Calendar, Loader2, Trash2 } from 'lucide-react';
+import { Plus, Edit, Calendar, Loader2, Trash2, Dices, Lock, Trophy, ArrowLeftRight } from 'lucide-react';
 import { format } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
+import VariantOddsEditor from '@/components/admin/VariantOddsEditor';
+import SeasonWinnersDialog from '@/components/admin/SeasonWinnersDialog';
+import {
+  VARIANT_KEYS,
+  variantLabels,
+  variantOddsSchema,
+  toVariantOddsForm,
+  saveVariantOdds,
+} from '@/lib/variantOdds';
+import { orgToday } from '@/lib/deadline';
+import { Database } from '@/integrations/supabase/types';
+
+type DropTable = Database['public']['Tables']['variant_drop_tables']['Row'];
 
 const seasonSchema = z.object({
   name: z.string().min(1, 'Nome é obrigatório'),
   description: z.string().optional(),
   start_date: z.string().min(1, 'Data de início é obrigatória'),
   end_date: z.string().min(1, 'Data de fim é obrigatória'),
+  trading_enabled: z.boolean(),
+  variant_odds: variantOddsSchema,
 });
 
 type SeasonFormData = z.infer<typeof seasonSchema>;
@@ -54,6 +71,8 @@ interface Season {
   description: string | null;
   start_date: string;
   end_date: string;
+  closed_at: string | null;
+  trading_enabled: boolean;
   created_at: string;
 }
 
@@ -61,6 +80,8 @@ const SeasonsManager = () => {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingSeason, setEditingSeason] = useState<Season | null>(null);
   const [seasonToDelete, setSeasonToDelete] = useState<Season | null>(null);
+  const [seasonToClose, setSeasonToClose] = useState<Season | null>(null);
+  const [winnersSeason, setWinnersSeason] = useState<Season | null>(null);
   const queryClient = useQueryClient();
 
   const form = useForm<SeasonFormData>({
@@ -70,6 +91,8 @@ const SeasonsManager = () => {
       description: '',
       start_date: '',
       end_date: '',
+      trading_enabled: true,
+      variant_odds: toVariantOddsForm(),
     },
   });
 
@@ -86,18 +109,42 @@ const SeasonsManager = () => {
     },
   });
 
+  const { data: dropTables } = useQuery({
+    queryKey: ['season-drop-tables'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('variant_drop_tables')
+        .select('*')
+        .not('season_id', 'is', null);
+
+      if (error) throw error;
+      return data as DropTable[];
+    },
+  });
+
+  const getSeasonDropTable = (seasonId: string) =>
+    dropTables?.find((dropTable) => dropTable.season_id === seasonId) ?? null;
+
   const createMutation = useMutation({
     mutationFn: async (data: SeasonFormData) => {
-      const { error } = await supabase.from('seasons').insert({
-        name: data.name,
-        description: data.description || null,
-        start_date: data.start_date,
-        end_date: data.end_date,
-      });
+      const { data: season, error } = await supabase
+        .from('seasons')
+        .insert({
+          name: data.name,
+          description: data.description || null,
+          start_date: data.start_date,
+          end_date: data.end_date,
+          trading_enabled: data.trading_enabled,
+        })
+        .select('id')
+        .single();
       if (error) throw error;
+
+      await saveVariantOdds({ season_id: season.id }, data.variant_odds);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['seasons'] });
+      queryClient.invalidateQueries({ queryKey: ['season-drop-tables'] });
       queryClient.invalidateQueries({ queryKey: ['admin-stats'] });
       toast.success('Temporada criada com sucesso!');
       setIsDialogOpen(false);
@@ -117,12 +164,16 @@ const SeasonsManager = () => {
           description: data.description || null,
           start_date: data.start_date,
           end_date: data.end_date,
+          trading_enabled: data.trading_enabled,
         })
         .eq('id', data.id);
       if (error) throw error;
+
+      await saveVariantOdds({ season_id: data.id }, data.variant_odds);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['seasons'] });
+      queryClient.invalidateQueries({ queryKey: ['season-drop-tables'] });
       toast.success('Temporada atualizada com sucesso!');
       setIsDialogOpen(false);
       setEditingSeason(null);
@@ -160,6 +211,7 @@ const SeasonsManager = () => {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['seasons'] });
       queryClient.invalidateQueries({ queryKey: ['events'] });
+      queryClient.invalidateQueries({ queryKey: ['badges'] });
       queryClient.invalidateQueries({ queryKey: ['admin-stats'] });
       toast.success('Temporada excluída com sucesso!');
       setSeasonToDelete(null);
@@ -169,6 +221,30 @@ const SeasonsManager = () => {
     },
   });
 
+  const closeMutation = useMutation({
+    mutationFn: async (season: Season) => {
+      const { data, error } = await supabase.rpc('close_season', { _season_id: season.id });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (ranked, season) => {
+      queryClient.invalidateQueries({ queryKey: ['seasons'] });
+      queryClient.invalidateQueries({ queryKey: ['ranking'] });
+      queryClient.invalidateQueries({ queryKey: ['my-ranking'] });
+      queryClient.invalidateQueries({ queryKey: ['badges'] });
+      queryClient.invalidateQueries({ queryKey: ['badge-holders'] });
+      toast.success(`Temporada encerrada! ${ranked} colecionadores na classificação final.`);
+      setSeasonToClose(null);
+      setWinnersSeason(season);
+    },
+    onError: (error) => {
+      toast.error('Erro ao encerrar temporada: ' + error.message);
+    },
+  });
+
+  // Only seasons whose last day has passed (in the org timezone) can be closed
+  const canClose = (season: Season) => !season.closed_at && season.end_date < orgToday();
+
   const handleSubmit = (data: SeasonFormData) => {
     if (editingSeason) {
       updateMutation.mutate({ ...data, id: editingSeason.id });
@@ -184,6 +260,8 @@ const SeasonsManager = () => {
       description: season.description || '',
       start_date: season.start_date,
       end_date: season.end_date,
+      trading_enabled: season.trading_enabled,
+      variant_odds: toVariantOddsForm(getSeasonDropTable(season.id)),
     });
     setIsDialogOpen(true);
   };
@@ -195,6 +273,8 @@ const SeasonsManager = () => {
       description: '',
       start_date: '',
       end_date: '',
+      trading_enabled: true,
+      variant_odds: toVariantOddsForm(),
     });
     setIsDialogOpen(true);
   };
@@ -280,6 +360,39 @@ const SeasonsManager = () => {
                     )}
                   />
                 </div>
+                <FormField
+                  control={form.control}
+                  name="trading_enabled"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center justify-between gap-4 space-y-0 rounded-lg border border-border/50 p-3">
+                      <div>
+                        <FormLabel>Permitir trocas</FormLabel>
+                        <p className="text-xs text-muted-foreground">
+                          Colecionadores podem trocar entre si os cards desta temporada
+                        </p>
+                      </div>
+                      <FormControl>
+                        <Switch checked={field.value} onCheckedChange={field.onChange} />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="variant_odds"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Probabilidades de Variante</FormLabel>
+                      <VariantOddsEditor
+                        value={field.value}
+                        onChange={field.onChange}
+                        customLabel="Definir probabilidades padrão da temporada"
+                        inheritedHint="Usando as probabilidades globais (Relíquia 3%, Holográfica 7%, Diamante 12%, Comum 78%)."
+                      />
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
                 <Button type="submit" className="w-full" disabled={isSubmitting}>
                   {isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
                   {editingSeason ? 'Salvar Alterações' : 'Criar Temporada'}
@@ -316,6 +429,34 @@ const SeasonsManager = () => {
         </AlertDialogContent>
       </AlertDialog>
 
+      {/* Close Confirmation Dialog */}
+      <AlertDialog open={!!seasonToClose} onOpenChange={() => setSeasonToClose(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Encerrar Temporada</AlertDialogTitle>
+            <AlertDialogDescription>
+              A classificação final de "{seasonToClose?.name}" será congelada e os três primeiros
+              colocados serão indicados para premiação. Esta ação não pode ser desfeita.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction onClick={() => seasonToClose && closeMutation.mutate(seasonToClose)}>
+              {closeMutation.isPending ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                'Encerrar'
+              )}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <SeasonWinnersDialog
+        season={winnersSeason}
+        onOpenChange={(open) => !open && setWinnersSeason(null)}
+      />
+
       {isLoading ? (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
           {[1, 2, 3].map((i) => (
@@ -355,12 +496,40 @@ const SeasonsManager = () => {
                 <Card className="glass border-border/50 hover:border-primary/50 transition-all group">
                   <CardHeader className="flex flex-row items-start justify-between">
                     <div>
-                      <CardTitle className="text-lg">{season.name}</CardTitle>
+                      <CardTitle className="text-lg flex items-center gap-2">
+                        {season.name}
+                        {season.closed_at && (
+                          <Badge variant="secondary" className="gap-1">
+                            <Lock className="w-3 h-3" />
+                            Encerrada
+                          </Badge>
+                        )}
+                      </CardTitle>
                       <p className="text-sm text-muted-foreground mt-1">
                         {season.description || 'Sem descrição'}
                       </p>
                     </div>
                     <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                      {canClose(season) && (
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          title="Encerrar temporada"
+                          onClick={() => setSeasonToClose(season)}
+                        >
+                          <Lock className="w-4 h-4" />
+                        </Button>
+                      )}
+                      {season.closed_at && (
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          title="Premiação"
+                          onClick={() => setWinnersSeason(season)}
+                        >
+                          <Trophy className="w-4 h-4" />
+                        </Button>
+                      )}
                       <Button
                         size="icon"
                         variant="ghost"
@@ -368,14 +537,17 @@ const SeasonsManager = () => {
                       >
                         <Edit className="w-4 h-4" />
                       </Button>
-                      <Button
-                        size="icon"
-                        variant="ghost"
-                        className="text-destructive hover:text-destructive"
-                        onClick={() => setSeasonToDelete(season)}
-                      >
-                        <Trash2 className="w-4 h-4" />
-                      </Button>
+                      {/* Closed seasons keep their final standings and winners */}
+                      {!season.closed_at && (
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          className="text-destructive hover:text-destructive"
+                          onClick={() => setSeasonToDelete(season)}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      )}
                     </div>
                   </CardHeader>
                   <CardContent>
@@ -385,6 +557,22 @@ const SeasonsManager = () => {
                         {season.start_date?.split('-').reverse().join('/')} - {season.end_date?.split('-').reverse().join('/')}
                       </span>
                     </div>
+                    {!season.trading_enabled && (
+                      <div className="flex items-center gap-2 text-xs text-muted-foreground mt-2">
+                        <ArrowLeftRight className="w-4 h-4" />
+                        <span>Trocas desativadas</span>
+                      </div>
+                    )}
+                    {getSeasonDropTable(season.id) && (
+                      <div className="flex items-center gap-2 text-xs text-muted-foreground mt-2">
+                        <Dices className="w-4 h-4" />
+                        <span>
+                          {VARIANT_KEYS.map(
+                            (key) => `${variantLabels[key]} ${getSeasonDropTable(season.id)[key]}%`
+                          ).join(' · ')}
+                        </span>
+                      </div>
+                    )}
                   </CardContent>
                 </Card>
               </motion.div>
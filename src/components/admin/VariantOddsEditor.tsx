@@ -0,0 +1,61 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { cn } from '@/lib/utils';
+import {
+  VARIANT_KEYS,
+  variantLabels,
+  sumVariantOdds,
+  VariantOddsFormData,
+} from '@/lib/variantOdds';
+
+interface VariantOddsEditorProps {
+  value: VariantOddsFormData;
+  onChange: (value: VariantOddsFormData) => void;
+  customLabel: string;
+  inheritedHint: string;
+}
+
+const VariantOddsEditor = ({ value, onChange, customLabel, inheritedHint }: VariantOddsEditorProps) => {
+  const total = sumVariantOdds(value);
+  const isValid = Math.abs(total - 100) < 0.001;
+
+  return (
+    <div className="space-y-3 rounded-lg border border-border/50 p-3">
+      <div className="flex items-center justify-between gap-4">
+        <Label className="text-sm">{customLabel}</Label>
+        <Switch
+          checked={value.custom}
+          onCheckedChange={(checked) => onChange({ ...value, custom: checked })}
+        />
+      </div>
+
+      {value.custom ? (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {VARIANT_KEYS.map((key) => (
+              <div key={key} className="space-y-1">
+                <Label className="text-xs text-muted-foreground">{variantLabels[key]} (%)</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  max={100}
+                  step="0.01"
+                  value={value[key]}
+                  onChange={(e) => onChange({ ...value, [key]: Number(e.target.value) })}
+                />
+              </div>
+            ))}
+          </div>
+          <p className={cn('text-xs', isValid ? 'text-muted-foreground' : 'text-destructive')}>
+            Total: {Number(total.toFixed(2))}%
+          </p>
+        </>
+      ) : (
+        <p className="text-xs text-muted-foreground">{inheritedHint}</p>
+      )}
+    </div>
+  );
+};
+
+export default VariantOddsEditor;
@@ -1,9 +1,10 @@
 import { motion, AnimatePresence } from 'framer-motion';
-import { X, Share2, Download, Sparkles, Gem, Crown, Calendar, User } from 'lucide-react';
+import { X, Share2, Download, Sparkles, Gem, Crown, Calendar, User, HelpCircle, Layers, Loader2, Gift } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
 import { CardRarity, CardVariant } from './CollectibleCard';
 import { toast } from 'sonner';
+import { COPIES_PER_FUSION } from '@/lib/cardCopies';
 
 interface CardDetailModalProps {
   isOpen: boolean;
@@ -11,13 +12,17 @@ interface CardDetailModalProps {
   card: {
     id: string;
     title: string;
-    imageUrl: string;
+    imageUrl: string | null;
     rarity: CardRarity;
     variant: CardVariant;
     eventDate: string;
     preacher?: string;
     theme?: string;
   } | null;
+  copies?: number;
+  onFuse?: () => void;
+  isFusing?: boolean;
+  onGift?: () => void;
 }
 
 const variantConfig = {
@@ -74,7 +79,7 @@ const rarityConfig = {
   },
 };
 
-const CardDetailModal = ({ isOpen, onClose, card }: CardDetailModalProps) => {
+const CardDetailModal = ({ isOpen, onClose, card, copies = 0, onFuse, isFusing, onGift }: CardDetailModalProps) => {
   if (!card) return null;
 
   const config = rarityConfig[card.rarity];
@@ -154,11 +159,17 @@ const CardDetailModal = ({ isOpen, onClose, card }: CardDetailModalProps) => {
               >
                 <div className="relative aspect-[3/4] rounded-xl overflow-hidden bg-card">
                   {/* Card image */}
-                  <img
-                    src={card.imageUrl}
-                    alt={card.title}
-                    className="w-full h-full object-cover"
-                  />
+                  {card.imageUrl ? (
+                    <img
+                      src={card.imageUrl}
+                      alt={card.title}
+                      className="w-full h-full object-cover"
+                    />
+                  ) : (
+                    <div className="w-full h-full flex items-center justify-center bg-muted/50">
+                      <HelpCircle className="w-16 h-16 text-muted-foreground/50" />
+                    </div>
+                  )}
 
                   {/* Variant overlay */}
                   {card.variant !== 'comum' && (
@@ -233,6 +244,42 @@ const CardDetailModal = ({ isOpen, onClose, card }: CardDetailModalProps) => {
                 </div>
               </div>
 
+              {/* Spare copies */}
+              {copies > 0 && (
+                <div className="mt-4 glass rounded-xl p-4 flex items-center justify-between gap-3">
+                  <div className="flex items-center gap-2 text-sm">
+                    <Layers className="w-4 h-4 text-primary" />
+                    <span>
+                      {copies} {copies === 1 ? 'cópia extra' : 'cópias extras'}
+                    </span>
+                  </div>
+                  {onFuse && (
+                    <Button
+                      size="sm"
+                      disabled={copies < COPIES_PER_FUSION || isFusing}
+                      onClick={onFuse}
+                      title={`Funde ${COPIES_PER_FUSION} cópias em uma nova chance de variante`}
+                    >
+                      {isFusing ? (
+                        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      ) : (
+                        <Sparkles className="w-4 h-4 mr-2" />
+                      )}
+                      Fundir {COPIES_PER_FUSION}
+                    </Button>
+                  )}
+                </div>
+              )}
+
+              {onGift && (
+                <div className="flex justify-center mt-4">
+                  <Button variant="secondary" className="flex-1 max-w-[200px]" onClick={onGift}>
+                    <Gift className="w-4 h-4 mr-2" />
+                    Presentear
+                  </Button>
+                </div>
+              )}
+
               {/* Share buttons */}
               {/* <div className="flex justify-center gap-3 mt-4">
                 <Button
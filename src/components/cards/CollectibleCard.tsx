@@ -1,7 +1,8 @@
 import { motion } from 'framer-motion';
 import Tilt from 'react-parallax-tilt';
-import { HelpCircle, Clock, Lock, Gem, Crown, Sparkles, User } from 'lucide-react';
+import { HelpCircle, Clock, Hourglass, Lock, Gem, Crown, Sparkles, Star, User } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { getTimeRemaining, isBeforeOpening, isDeadlinePassed } from '@/lib/deadline';
 
 export type CardRarity = 'comum' | 'raro' | 'epico' | 'lendario';
 export type CardVariant = 'comum' | 'holografica' | 'edicao_diamante' | 'reliquia';
@@ -9,14 +10,21 @@ export type CardVariant = 'comum' | 'holografica' | 'edicao_diamante' | 'reliqui
 interface CollectibleCardProps {
   id: string;
   title: string;
-  imageUrl: string;
+  // Only revealed by events_public once the card is owned or the window closed
+  imageUrl: string | null;
   rarity: CardRarity;
   variant?: CardVariant;
   eventDate: string;
   preacher?: string;
   theme?: string;
   isRedeemed: boolean;
+  // Spare copies from bonus redemptions or fusions, besides this card
+  copies?: number;
   redemptionDeadline: Date;
+  redemptionOpensAt?: Date;
+  // Missed cards can be starred so other collectors know to offer them
+  isWished?: boolean;
+  onToggleWish?: () => void;
   onClick?: () => void;
 }
 
@@ -75,10 +83,9 @@ const rarityConfig = {
 };
 
 const CountdownTimer = ({ deadline }: { deadline: Date }) => {
-  const now = new Date();
-  const diff = deadline.getTime() - now.getTime();
+  const { totalMs, days, hours, minutes } = getTimeRemaining(deadline);
 
-  if (diff <= 0) {
+  if (totalMs <= 0) {
     return (
       <div className="flex items-center gap-1 text-destructive text-sm">
         <Lock className="w-3 h-3" />
@@ -87,10 +94,6 @@ const CountdownTimer = ({ deadline }: { deadline: Date }) => {
     );
   }
 
-  const days = Math.floor(diff / (1000 * 60 * 60 * 24));
-  const hours = Math.floor((diff % (1000 * 60 * 60 * 24)) / (1000 * 60 * 60));
-  const minutes = Math.floor((diff % (1000 * 60 * 60)) / (1000 * 60));
-
   return (
     <div className="flex items-center gap-1 text-primary text-sm">
       <Clock className="w-3 h-3" />
@@ -102,8 +105,37 @@ const CountdownTimer = ({ deadline }: { deadline: Date }) => {
   );
 };
 
-const MysteryCard = ({ deadline, onClick }: { deadline: Date; onClick?: () => void }) => {
-  const isExpired = new Date() > deadline;
+const OpeningTimer = ({ opensAt }: { opensAt: Date }) => {
+  const { days, hours, minutes } = getTimeRemaining(opensAt);
+
+  return (
+    <div className="flex items-center gap-1 text-muted-foreground text-sm">
+      <Hourglass className="w-3 h-3" />
+      <span>
+        Abre em {days > 0 && `${days}d `}
+        {hours}h {minutes}m
+      </span>
+    </div>
+  );
+};
+
+const MysteryCard = ({
+  title,
+  deadline,
+  opensAt,
+  isWished,
+  onToggleWish,
+  onClick,
+}: {
+  title: string;
+  deadline: Date;
+  opensAt?: Date;
+  isWished?: boolean;
+  onToggleWish?: () => void;
+  onClick?: () => void;
+}) => {
+  const isExpired = isDeadlinePassed(deadline);
+  const isNotOpen = isBeforeOpening(opensAt);
 
   return (
     <motion.div
@@ -126,14 +158,34 @@ const MysteryCard = ({ deadline, onClick }: { deadline: Date; onClick?: () => vo
             <p className="text-muted-foreground mt-4 font-display text-sm">
               Card Misterioso
             </p>
+            {isExpired && (
+              <p className="text-muted-foreground/80 mt-1 px-3 text-xs text-center line-clamp-2">
+                {title}
+              </p>
+            )}
           </div>
           
           {/* Shimmer effect */}
           <div className="absolute inset-0 animate-shimmer opacity-30" />
+
+          {/* Wishlist star */}
+          {isExpired && onToggleWish && (
+            <button
+              type="button"
+              className="absolute top-2 right-2 z-10 p-1.5 rounded-full bg-background/80 backdrop-blur-sm border border-border cursor-pointer"
+              title={isWished ? 'Remover da lista de desejos' : 'Adicionar à lista de desejos'}
+              onClick={(e) => {
+                e.stopPropagation();
+                onToggleWish();
+              }}
+            >
+              <Star className={cn("w-4 h-4", isWished ? "fill-amber-400 text-amber-400" : "text-muted-foreground")} />
+            </button>
+          )}
         </div>
         
         <div className="p-3 text-center">
-          <CountdownTimer deadline={deadline} />
+          {isNotOpen ? <OpeningTimer opensAt={opensAt} /> : <CountdownTimer deadline={deadline} />}
         </div>
       </div>
     </motion.div>
@@ -150,7 +202,11 @@ const CollectibleCard = ({
   preacher,
   theme,
   isRedeemed,
+  copies = 0,
   redemptionDeadline,
+  redemptionOpensAt,
+  isWished,
+  onToggleWish,
   onClick,
 }: CollectibleCardProps) => {
   const config = rarityConfig[rarity];
@@ -158,7 +214,16 @@ const CollectibleCard = ({
   const VariantIcon = variantStyle.icon;
 
   if (!isRedeemed) {
-    return <MysteryCard deadline={redemptionDeadline} onClick={onClick} />;
+    return (
+      <MysteryCard
+        title={title}
+        deadline={redemptionDeadline}
+        opensAt={redemptionOpensAt}
+        isWished={isWished}
+        onToggleWish={onToggleWish}
+        onClick={onClick}
+      />
+    );
   }
 
   return (
@@ -235,6 +300,15 @@ const CollectibleCard = ({
               </span>
             </div>
 
+            {/* Copy count */}
+            {copies > 0 && (
+              <div className="absolute bottom-2 right-2 z-10">
+                <span className="px-2 py-0.5 rounded-full text-xs font-bold bg-background/80 backdrop-blur-sm border border-border">
+                  ×{copies + 1}
+                </span>
+              </div>
+            )}
+
             {/* Card info */}
             <div className="absolute bottom-0 left-0 right-0 p-4">
               <h3 className="font-display text-sm text-foreground mb-1 line-clamp-2">
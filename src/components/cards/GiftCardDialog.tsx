@@ -0,0 +1,149 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { QRCodeSVG } from 'qrcode.react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { toast } from 'sonner';
+import { Check, Copy, Gift, Loader2, X } from 'lucide-react';
+import { GIFT_LINK_HOURS, describeGiftError, giftLink } from '@/lib/gifts';
+
+interface GiftCardDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  card: { id: string; title: string } | null;
+}
+
+interface CreatedGift {
+  id: string;
+  token: string;
+  expires_at: string;
+}
+
+const GiftCardDialog = ({ open, onOpenChange, card }: GiftCardDialogProps) => {
+  const queryClient = useQueryClient();
+  const [gift, setGift] = useState<CreatedGift | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    if (!open) {
+      setGift(null);
+      setCopied(false);
+    }
+  }, [open]);
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase
+        .rpc('create_card_gift', { _event_id: card.id })
+        .single();
+      if (error) throw error;
+      return data as CreatedGift;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['card-gifts'] });
+      setGift(data);
+    },
+    onError: (error) => {
+      toast.error('Erro ao criar presente: ' + describeGiftError(error));
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (giftId: string) => {
+      const { error } = await supabase.rpc('cancel_card_gift', { _gift_id: giftId });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['card-gifts'] });
+      toast.success('Link de presente cancelado.');
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast.error('Erro ao cancelar presente: ' + describeGiftError(error));
+    },
+  });
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(giftLink(gift.token));
+    setCopied(true);
+    toast.success('Link copiado!');
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="glass max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Gift className="w-5 h-5 text-primary" />
+            Presentear Card
+          </DialogTitle>
+          <DialogDescription>{card?.title}</DialogDescription>
+        </DialogHeader>
+
+        {gift ? (
+          <div className="space-y-4">
+            <div className="flex justify-center p-4 bg-white rounded-lg">
+              <QRCodeSVG value={giftLink(gift.token)} size={200} level="H" />
+            </div>
+            <div className="flex gap-2">
+              <Input readOnly value={giftLink(gift.token)} className="font-mono text-xs" />
+              <Button size="icon" variant="outline" onClick={handleCopy}>
+                {copied ? <Check className="w-4 h-4 text-green-500" /> : <Copy className="w-4 h-4" />}
+              </Button>
+            </div>
+            <p className="text-sm text-muted-foreground text-center">
+              Vale para uma única pessoa até{' '}
+              {format(new Date(gift.expires_at), "dd/MM 'às' HH:mm", { locale: ptBR })}. O card
+              continua com você até ser resgatado.
+            </p>
+            <Button
+              variant="outline"
+              className="w-full"
+              disabled={cancelMutation.isPending}
+              onClick={() => cancelMutation.mutate(gift.id)}
+            >
+              {cancelMutation.isPending ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <X className="w-4 h-4 mr-2" />
+              )}
+              Cancelar Link
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Gere um link de uso único (ou QR code) para dar este card a outro colecionador. O
+              link expira em {GIFT_LINK_HOURS} horas e substitui qualquer link anterior deste card.
+            </p>
+            <Button
+              className="w-full"
+              disabled={!card || createMutation.isPending}
+              onClick={() => createMutation.mutate()}
+            >
+              {createMutation.isPending ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <Gift className="w-4 h-4 mr-2" />
+              )}
+              Gerar Link de Presente
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default GiftCardDialog;
@@ -18,6 +18,7 @@ import {
   Trophy,
   QrCode,
   LayoutDashboard,
+  ArrowLeftRight,
 } from 'lucide-react';
 
 const Header = () => {
@@ -74,6 +75,13 @@ const Header = () => {
               <Trophy className="w-4 h-4" />
               Ranking
             </Link>
+            <Link
+              to="/trades"
+              className="text-sm text-muted-foreground hover:text-foreground transition-colors flex items-center gap-1"
+            >
+              <ArrowLeftRight className="w-4 h-4" />
+              Trocas
+            </Link>
             {isAdmin && (
               <Link
                 to="/admin"
@@ -126,6 +134,10 @@ const Header = () => {
                 <Trophy className="mr-2 h-4 w-4" />
                 Ranking
               </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => navigate('/trades')} className="cursor-pointer md:hidden">
+                <ArrowLeftRight className="mr-2 h-4 w-4" />
+                Trocas
+              </DropdownMenuItem>
               {isAdmin && (
                 <DropdownMenuItem onClick={() => navigate('/admin')} className="cursor-pointer">
                   <Settings className="mr-2 h-4 w-4" />
@@ -0,0 +1,165 @@
+import { useQuery } from '@tanstack/react-query';
+import { motion } from 'framer-motion';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { Award, Crown, Gift, Medal, Trophy } from 'lucide-react';
+import { Database } from '@/integrations/supabase/types';
+
+type HallOfFameEntry = Database['public']['Views']['hall_of_fame']['Row'];
+
+interface SeasonChampions {
+  seasonId: string;
+  seasonName: string;
+  endDate: string;
+  winners: HallOfFameEntry[];
+}
+
+const getPlaceIcon = (place: number) => {
+  switch (place) {
+    case 1:
+      return <Crown className="w-5 h-5 text-rarity-legendary" />;
+    case 2:
+      return <Medal className="w-5 h-5 text-gray-400" />;
+    case 3:
+      return <Award className="w-5 h-5 text-amber-600" />;
+    default:
+      return (
+        <span className="w-5 h-5 flex items-center justify-center text-xs font-bold text-muted-foreground">
+          {place}
+        </span>
+      );
+  }
+};
+
+const getInitials = (name: string | null) => {
+  if (!name) return '??';
+  return name.substring(0, 2).toUpperCase();
+};
+
+const HallOfFame = () => {
+  const { data: seasons, isLoading } = useQuery({
+    queryKey: ['hall-of-fame'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('hall_of_fame')
+        .select('*')
+        .order('end_date', { ascending: false })
+        .order('place', { ascending: true });
+
+      if (error) throw error;
+
+      const grouped: SeasonChampions[] = [];
+      for (const entry of data as HallOfFameEntry[]) {
+        let season = grouped.find((group) => group.seasonId === entry.season_id);
+        if (!season) {
+          season = {
+            seasonId: entry.season_id,
+            seasonName: entry.season_name,
+            endDate: entry.end_date,
+            winners: [],
+          };
+          grouped.push(season);
+        }
+        season.winners.push(entry);
+      }
+      return grouped;
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {[1, 2].map((i) => (
+          <Card key={i} className="glass animate-pulse">
+            <CardHeader>
+              <div className="h-6 bg-muted rounded w-40" />
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {[1, 2, 3].map((j) => (
+                <div key={j} className="h-10 bg-muted rounded" />
+              ))}
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    );
+  }
+
+  if (!seasons?.length) {
+    return (
+      <Card className="glass border-dashed">
+        <CardContent className="flex flex-col items-center justify-center py-12">
+          <Trophy className="w-12 h-12 text-muted-foreground mb-4" />
+          <p className="text-muted-foreground text-center">
+            Nenhuma temporada encerrada ainda.
+            <br />
+            Os campeões aparecerão aqui ao fim de cada temporada.
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      {seasons.map((season, index) => (
+        <motion.div
+          key={season.seasonId}
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: index * 0.05 }}
+        >
+          <Card className="glass border-rarity-legendary/30 h-full">
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <Trophy className="w-5 h-5 text-rarity-legendary" />
+                {season.seasonName}
+              </CardTitle>
+              <p className="text-sm text-muted-foreground">
+                Encerrada em {season.endDate?.split('-').reverse().join('/')}
+              </p>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {season.winners.map((winner) => (
+                <div key={winner.user_id} className="flex items-center gap-3">
+                  <div className="w-6 flex justify-center">{getPlaceIcon(winner.place)}</div>
+                  <Avatar className="w-10 h-10 border-2 border-border">
+                    {winner.avatar_url ? (
+                      <img
+                        src={winner.avatar_url}
+                        alt={winner.display_name || 'User'}
+                        className="w-full h-full object-cover"
+                      />
+                    ) : (
+                      <AvatarFallback className="bg-primary/20 text-primary font-semibold">
+                        {getInitials(winner.display_name)}
+                      </AvatarFallback>
+                    )}
+                  </Avatar>
+                  <div className="flex-1 min-w-0">
+                    <p className="font-semibold truncate">
+                      {winner.display_name || 'Usuário Anônimo'}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {winner.points ?? 0} pts · {winner.card_count ?? 0}{' '}
+                      {winner.card_count === 1 ? 'card' : 'cards'}
+                    </p>
+                  </div>
+                  {winner.prize && (
+                    <span className="text-xs bg-primary/10 text-primary px-2 py-0.5 rounded-full flex items-center gap-1 max-w-[40%]">
+                      <Gift className="w-3 h-3 shrink-0" />
+                      <span className="truncate">{winner.prize}</span>
+                    </span>
+                  )}
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        </motion.div>
+      ))}
+    </div>
+  );
+};
+
+export default HallOfFame;
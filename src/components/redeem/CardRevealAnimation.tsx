@@ -1,7 +1,8 @@
 import { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Sparkles, Star, Gem, Crown } from 'lucide-react';
+import { Sparkles, Star } from 'lucide-react';
 import Tilt from 'react-parallax-tilt';
+import { getRarityConfig, getVariantConfig } from '@/lib/cardStyles';
 
 export type CardVariant = 'comum' | 'holografica' | 'edicao_diamante' | 'reliquia';
 
@@ -39,78 +40,7 @@ const CardRevealAnimation = ({
     }
   }, [isOpen]);
 
-  const getRarityConfig = (rarity: string) => {
-    switch (rarity) {
-      case 'lendario':
-        return {
-          gradient: 'from-yellow-500 via-amber-300 to-yellow-600',
-          glow: 'shadow-[0_0_80px_30px_rgba(234,179,8,0.6)]',
-          particles: 'bg-yellow-400',
-          border: 'border-yellow-400',
-          label: 'LENDÁRIO',
-        };
-      case 'epico':
-        return {
-          gradient: 'from-purple-600 via-fuchsia-400 to-purple-700',
-          glow: 'shadow-[0_0_60px_20px_rgba(168,85,247,0.5)]',
-          particles: 'bg-purple-400',
-          border: 'border-purple-400',
-          label: 'ÉPICO',
-        };
-      case 'raro':
-        return {
-          gradient: 'from-blue-500 via-cyan-300 to-blue-600',
-          glow: 'shadow-[0_0_40px_15px_rgba(59,130,246,0.4)]',
-          particles: 'bg-blue-400',
-          border: 'border-blue-400',
-          label: 'RARO',
-        };
-      default:
-        return {
-          gradient: 'from-gray-400 via-slate-300 to-gray-500',
-          glow: 'shadow-[0_0_20px_10px_rgba(148,163,184,0.3)]',
-          particles: 'bg-gray-400',
-          border: 'border-gray-400',
-          label: 'COMUM',
-        };
-    }
-  };
-
   const config = getRarityConfig(rarity);
-
-  const getVariantConfig = (variant: CardVariant) => {
-    switch (variant) {
-      case 'reliquia':
-        return {
-          label: '🏆 RELÍQUIA',
-          overlayClass: 'variant-relic',
-          extraGlow: 'shadow-[0_0_100px_40px_rgba(234,179,8,0.8)]',
-          icon: Crown,
-        };
-      case 'holografica':
-        return {
-          label: '✨ HOLOGRÁFICA',
-          overlayClass: 'variant-holographic',
-          extraGlow: 'shadow-[0_0_60px_25px_rgba(236,72,153,0.5)]',
-          icon: Sparkles,
-        };
-      case 'edicao_diamante':
-        return {
-          label: '💎 DIAMANTE',
-          overlayClass: 'variant-diamond',
-          extraGlow: 'shadow-[0_0_50px_20px_rgba(34,211,238,0.5)]',
-          icon: Gem,
-        };
-      default:
-        return {
-          label: '',
-          overlayClass: '',
-          extraGlow: '',
-          icon: null,
-        };
-    }
-  };
-
   const variantConfig = getVariantConfig(variant);
 
   const generateParticles = (count: number) => {
@@ -0,0 +1,179 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { motion, AnimatePresence } from 'framer-motion';
+import { formatDistanceToNow } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { toast } from 'sonner';
+import { Copy, Gift, Loader2, X } from 'lucide-react';
+import { variantLabels } from '@/lib/variantOdds';
+import { rarityLabels } from '@/lib/rankingPoints';
+import {
+  CardGift,
+  describeGiftError,
+  getGiftStatus,
+  giftLink,
+  giftStatusColors,
+  giftStatusLabels,
+} from '@/lib/gifts';
+import { Database } from '@/integrations/supabase/types';
+
+interface GiftEvent {
+  id: string;
+  title: string;
+  rarity: Database['public']['Enums']['card_rarity'];
+}
+
+const GiftHistory = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['card-gifts', user?.id],
+    queryFn: async () => {
+      const { data: gifts, error } = await supabase
+        .from('card_gifts')
+        .select('*')
+        .or(`sender_id.eq.${user.id},recipient_id.eq.${user.id}`)
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+
+      const userIds = [...new Set(gifts.flatMap((gift) => [gift.sender_id, gift.recipient_id]).filter(Boolean))];
+      const eventIds = [...new Set(gifts.map((gift) => gift.event_id))];
+
+      const [profilesResult, eventsResult] = await Promise.all([
+        supabase.from('profiles_public').select('user_id, display_name').in('user_id', userIds),
+        supabase.from('events_public').select('id, title, rarity').in('id', eventIds),
+      ]);
+      if (profilesResult.error) throw profilesResult.error;
+      if (eventsResult.error) throw eventsResult.error;
+
+      return {
+        gifts: gifts as CardGift[],
+        names: new Map(profilesResult.data.map((profile) => [profile.user_id, profile.display_name])),
+        events: new Map((eventsResult.data as GiftEvent[]).map((event) => [event.id, event])),
+      };
+    },
+    enabled: !!user,
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (giftId: string) => {
+      const { error } = await supabase.rpc('cancel_card_gift', { _gift_id: giftId });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['card-gifts'] });
+      toast.success('Link de presente cancelado.');
+    },
+    onError: (error) => {
+      toast.error('Erro ao cancelar presente: ' + describeGiftError(error));
+    },
+  });
+
+  const handleCopy = async (token: string) => {
+    await navigator.clipboard.writeText(giftLink(token));
+    toast.success('Link copiado!');
+  };
+
+  const getName = (userId: string) => data?.names.get(userId) || 'Usuário Anônimo';
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!data?.gifts.length) {
+    return (
+      <Card className="glass border-dashed">
+        <CardContent className="flex flex-col items-center justify-center py-12">
+          <Gift className="w-12 h-12 text-muted-foreground mb-4" />
+          <p className="text-muted-foreground text-center">
+            Nenhum presente ainda. Abra um card da sua coleção para presentear alguém.
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <AnimatePresence>
+        {data.gifts.map((gift, index) => {
+          const isSender = gift.sender_id === user.id;
+          const status = getGiftStatus(gift);
+          const event = data.events.get(gift.event_id);
+
+          return (
+            <motion.div
+              key={gift.id}
+              layout
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, scale: 0.95 }}
+              transition={{ delay: index * 0.05 }}
+            >
+              <Card className="glass border-border/50">
+                <CardContent className="p-4 flex flex-wrap items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className="font-semibold">
+                      {isSender
+                        ? gift.recipient_id
+                          ? `Enviado para ${getName(gift.recipient_id)}`
+                          : 'Link de presente'
+                        : `Recebido de ${getName(gift.sender_id)}`}
+                    </p>
+                    <p className="text-sm">
+                      <span className="font-medium">{event?.title ?? 'Card indisponível'}</span>
+                      <span className="text-muted-foreground">
+                        {' '}
+                        · {event ? `${rarityLabels[event.rarity]} · ` : ''}
+                        {variantLabels[gift.variant]}
+                      </span>
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {formatDistanceToNow(new Date(gift.claimed_at ?? gift.created_at), {
+                        addSuffix: true,
+                        locale: ptBR,
+                      })}
+                    </p>
+                  </div>
+
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline" className={giftStatusColors[status]}>
+                      {giftStatusLabels[status]}
+                    </Badge>
+                    {isSender && status === 'pending' && (
+                      <>
+                        <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => handleCopy(gift.token)}>
+                          <Copy className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          className="h-8 w-8"
+                          disabled={cancelMutation.isPending}
+                          onClick={() => cancelMutation.mutate(gift.id)}
+                        >
+                          <X className="w-4 h-4" />
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            </motion.div>
+          );
+        })}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default GiftHistory;
@@ -0,0 +1,329 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { toast } from 'sonner';
+import { AlertTriangle, ArrowLeftRight, Loader2, Search, Star, X } from 'lucide-react';
+import { variantLabels } from '@/lib/variantOdds';
+import { rarityLabels } from '@/lib/rankingPoints';
+import { MAX_TRADE_CARDS, TradeableCard, describeTradeError } from '@/lib/trades';
+import { useWishlist } from '@/hooks/use-wishlist';
+
+export interface Collector {
+  user_id: string;
+  display_name: string | null;
+}
+
+interface TradeOfferDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Skips the collector search, e.g. when opened from someone's profile
+  initialRecipient?: Collector | null;
+}
+
+interface CardPickerProps {
+  title: string;
+  cards: TradeableCard[] | undefined;
+  isLoading: boolean;
+  selected: string[];
+  onToggle: (userCardId: string) => void;
+  // Events on the receiving side's wishlist
+  wished?: string[];
+}
+
+const CardPicker = ({ title, cards, isLoading, selected, onToggle, wished = [] }: CardPickerProps) => (
+  <div className="space-y-2">
+    <p className="text-sm font-medium">
+      {title}
+      <span className="text-muted-foreground font-normal">
+        {' '}
+        ({selected.length}/{MAX_TRADE_CARDS})
+      </span>
+    </p>
+    <ScrollArea className="h-56 rounded-md border border-border/50">
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+        </div>
+      ) : !cards?.length ? (
+        <p className="text-sm text-muted-foreground text-center py-8 px-2">
+          Nenhum card disponível para troca.
+        </p>
+      ) : (
+        <div className="p-2 space-y-1">
+          {cards.map((card) => {
+            const checked = selected.includes(card.user_card_id);
+            return (
+              <Label
+                key={card.user_card_id}
+                className="flex items-start gap-2 rounded-md p-2 hover:bg-muted/50 cursor-pointer font-normal"
+              >
+                <Checkbox
+                  checked={checked}
+                  disabled={!checked && selected.length >= MAX_TRADE_CARDS}
+                  onCheckedChange={() => onToggle(card.user_card_id)}
+                  className="mt-0.5"
+                />
+                <span className="min-w-0">
+                  <span className="flex items-center gap-1">
+                    <span className="truncate">{card.title}</span>
+                    {wished.includes(card.event_id) && (
+                      <Star className="w-3 h-3 shrink-0 fill-amber-400 text-amber-400" />
+                    )}
+                  </span>
+                  <span className="block text-xs text-muted-foreground">
+                    {rarityLabels[card.rarity]} · {variantLabels[card.variant]}
+                  </span>
+                </span>
+              </Label>
+            );
+          })}
+        </div>
+      )}
+    </ScrollArea>
+  </div>
+);
+
+const TradeOfferDialog = ({ open, onOpenChange, initialRecipient = null }: TradeOfferDialogProps) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [search, setSearch] = useState('');
+  const [recipient, setRecipient] = useState<Collector | null>(initialRecipient);
+  const [offered, setOffered] = useState<string[]>([]);
+  const [requested, setRequested] = useState<string[]>([]);
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    if (!open) {
+      setSearch('');
+      setRecipient(initialRecipient);
+      setOffered([]);
+      setRequested([]);
+      setMessage('');
+    }
+  }, [open, initialRecipient]);
+
+  const trimmedSearch = search.trim();
+
+  const { data: collectors, isFetching: searching } = useQuery({
+    queryKey: ['trade-collector-search', trimmedSearch],
+    queryFn: async () => {
+      // Strip characters that have meaning inside a PostgREST filter
+      const term = trimmedSearch.replace(/[,()%*]/g, '');
+      const { data, error } = await supabase
+        .from('profiles_public')
+        .select('user_id, display_name')
+        .ilike('display_name', `%${term}%`)
+        .neq('user_id', user.id)
+        .limit(8);
+      if (error) throw error;
+      return data as Collector[];
+    },
+    enabled: open && !!user && !recipient && trimmedSearch.length >= 2,
+  });
+
+  const { data: myCards, isLoading: myCardsLoading } = useQuery({
+    queryKey: ['tradeable-cards', user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_tradeable_cards', { _user_id: user.id });
+      if (error) throw error;
+      return data as TradeableCard[];
+    },
+    enabled: open && !!user,
+  });
+
+  const { data: theirCards, isLoading: theirCardsLoading } = useQuery({
+    queryKey: ['tradeable-cards', recipient?.user_id],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_tradeable_cards', {
+        _user_id: recipient.user_id,
+      });
+      if (error) throw error;
+      return data as TradeableCard[];
+    },
+    enabled: open && !!recipient,
+  });
+
+  const { data: myWishlist } = useWishlist(open ? user?.id : undefined);
+  const { data: theirWishlist } = useWishlist(open ? recipient?.user_id : undefined);
+
+  const toggle = (list: string[], setList: (ids: string[]) => void) => (userCardId: string) =>
+    setList(
+      list.includes(userCardId) ? list.filter((id) => id !== userCardId) : [...list, userCardId]
+    );
+
+  // Same rule as assert_trade_valid(): a card may only land with someone who
+  // has no card of that event left after the swap.
+  const keepsEvent = (cards: TradeableCard[] | undefined, giving: string[], eventId: string) =>
+    !!cards?.some((card) => card.event_id === eventId && !giving.includes(card.user_card_id));
+
+  const conflict =
+    theirCards?.some(
+      (card) => requested.includes(card.user_card_id) && keepsEvent(myCards, offered, card.event_id)
+    ) ||
+    myCards?.some(
+      (card) => offered.includes(card.user_card_id) && keepsEvent(theirCards, requested, card.event_id)
+    );
+
+  const proposeMutation = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase.rpc('propose_trade', {
+        _recipient_id: recipient.user_id,
+        _offered_card_ids: offered,
+        _requested_card_ids: requested,
+        _message: message.trim() || null,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['trades'] });
+      toast.success('Proposta de troca enviada!');
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast.error('Erro ao propor troca: ' + describeTradeError(error));
+    },
+  });
+
+  const canSubmit = !!recipient && offered.length > 0 && requested.length > 0 && !conflict;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="glass max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ArrowLeftRight className="w-5 h-5 text-primary" />
+            Nova Proposta de Troca
+          </DialogTitle>
+          <DialogDescription>
+            Escolha um colecionador, os cards que você oferece e os que deseja receber.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {recipient ? (
+            <div className="flex items-center justify-between rounded-md border border-border/50 px-3 py-2">
+              <span className="font-medium">{recipient.display_name || 'Usuário Anônimo'}</span>
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-7 w-7"
+                onClick={() => {
+                  setRecipient(null);
+                  setRequested([]);
+                }}
+              >
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <div className="relative">
+                <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+                <Input
+                  placeholder="Buscar colecionador pelo nome..."
+                  className="pl-9"
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                />
+              </div>
+              {trimmedSearch.length >= 2 && (
+                <div className="rounded-md border border-border/50 divide-y divide-border/50">
+                  {searching ? (
+                    <div className="flex justify-center py-3">
+                      <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+                    </div>
+                  ) : !collectors?.length ? (
+                    <p className="text-sm text-muted-foreground text-center py-3">
+                      Nenhum colecionador encontrado.
+                    </p>
+                  ) : (
+                    collectors.map((collector) => (
+                      <button
+                        key={collector.user_id}
+                        type="button"
+                        className="w-full text-left px-3 py-2 text-sm hover:bg-muted/50"
+                        onClick={() => setRecipient(collector)}
+                      >
+                        {collector.display_name || 'Usuário Anônimo'}
+                      </button>
+                    ))
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+
+          {recipient && (
+            <>
+              <div className="grid md:grid-cols-2 gap-4">
+                <CardPicker
+                  title="Você oferece"
+                  cards={myCards}
+                  isLoading={myCardsLoading}
+                  selected={offered}
+                  onToggle={toggle(offered, setOffered)}
+                  wished={theirWishlist}
+                />
+                <CardPicker
+                  title="Você recebe"
+                  cards={theirCards}
+                  isLoading={theirCardsLoading}
+                  selected={requested}
+                  onToggle={toggle(requested, setRequested)}
+                  wished={myWishlist}
+                />
+              </div>
+
+              {(myWishlist?.length > 0 || theirWishlist?.length > 0) && (
+                <p className="text-xs text-muted-foreground flex items-center gap-1">
+                  <Star className="w-3 h-3 fill-amber-400 text-amber-400" />
+                  Na lista de desejos de quem recebe o card
+                </p>
+              )}
+
+              {conflict && (
+                <p className="text-sm text-amber-500 flex items-start gap-2">
+                  <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                  Alguém ficaria com dois cards do mesmo evento. Para trocar variantes de um mesmo
+                  evento, inclua os dois cards desse evento na troca.
+                </p>
+              )}
+
+              <Textarea
+                placeholder="Mensagem (opcional)"
+                maxLength={280}
+                value={message}
+                onChange={(e) => setMessage(e.target.value)}
+              />
+
+              <Button
+                className="w-full"
+                disabled={!canSubmit || proposeMutation.isPending}
+                onClick={() => proposeMutation.mutate()}
+              >
+                {proposeMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Enviar Proposta
+              </Button>
+            </>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TradeOfferDialog;
@@ -0,0 +1,56 @@
+import { useEffect, useRef } from 'react';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+
+// Broadcast by public.broadcast_card_redeemed() after every redemption, on a
+// private topic that only signed-in members can join
+export interface CardRedemption {
+  event_id: string;
+  season_id: string | null;
+  user_id: string;
+  rarity: Database['public']['Enums']['card_rarity'];
+  variant: Database['public']['Enums']['card_variant'];
+  redeemed_at: string;
+  // An extra copy or fusion that upgraded a card the collector already had
+  upgrade?: boolean;
+}
+
+type Listener = (redemption: CardRedemption) => void;
+
+// supabase.channel() hands back the same channel for a topic, so every
+// component shares one subscription instead of subscribing twice.
+const listeners = new Set<Listener>();
+let channel: RealtimeChannel | null = null;
+
+const subscribe = (listener: Listener) => {
+  listeners.add(listener);
+
+  if (!channel) {
+    channel = supabase
+      .channel('card-redemptions', { config: { private: true } })
+      .on('broadcast', { event: 'card_redeemed' }, ({ payload }) => {
+        listeners.forEach((notify) => notify(payload as CardRedemption));
+      })
+      .subscribe();
+  }
+
+  return () => {
+    listeners.delete(listener);
+    if (!listeners.size && channel) {
+      supabase.removeChannel(channel);
+      channel = null;
+    }
+  };
+};
+
+/** Calls `onRedeemed` for every card redeemed by anyone, as it happens. */
+export function useCardRedemptions(onRedeemed: Listener, enabled = true) {
+  const handlerRef = useRef(onRedeemed);
+  handlerRef.current = onRedeemed;
+
+  useEffect(() => {
+    if (!enabled) return;
+    return subscribe((redemption) => handlerRef.current(redemption));
+  }, [enabled]);
+}
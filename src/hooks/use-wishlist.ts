@@ -0,0 +1,52 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+
+/** Event ids on a collector's wishlist, newest first. */
+export function useWishlist(userId: string | undefined) {
+  return useQuery({
+    queryKey: ['wishlist', userId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('wishlist_items')
+        .select('event_id')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      return data.map((item) => item.event_id);
+    },
+    enabled: !!userId,
+  });
+}
+
+/** Stars or unstars a card on the signed-in user's wishlist. */
+export function useToggleWish() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const queryKey = ['wishlist', user?.id];
+
+  return useMutation({
+    mutationFn: async ({ eventId, wished }: { eventId: string; wished: boolean }) => {
+      const { error } = wished
+        ? await supabase.from('wishlist_items').insert({ user_id: user.id, event_id: eventId })
+        : await supabase.from('wishlist_items').delete().eq('user_id', user.id).eq('event_id', eventId);
+      if (error) throw error;
+    },
+    onMutate: async ({ eventId, wished }) => {
+      await queryClient.cancelQueries({ queryKey });
+      const previous = queryClient.getQueryData<string[]>(queryKey);
+      queryClient.setQueryData<string[]>(queryKey, (current = []) =>
+        wished ? [eventId, ...current] : current.filter((id) => id !== eventId)
+      );
+      return { previous };
+    },
+    onError: (error, _variables, context) => {
+      queryClient.setQueryData(queryKey, context?.previous);
+      toast.error('Erro ao atualizar lista de desejos: ' + error.message);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey });
+    },
+  });
+}
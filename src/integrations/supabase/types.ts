@@ -23,6 +23,7 @@ export type Database = {
           id: string
           name: string
           season_id: string | null
+          threshold: number | null
         }
         Insert: {
           badge_type: string
@@ -32,6 +33,7 @@ export type Database = {
           id?: string
           name: string
           season_id?: string | null
+          threshold?: number | null
         }
         Update: {
           badge_type?: string
@@ -41,6 +43,7 @@ export type Database = {
           id?: string
           name?: string
           season_id?: string | null
+          threshold?: number | null
         }
         Relationships: [
           {
@@ -52,55 +55,517 @@ export type Database = {
           },
         ]
       }
+      card_copies: {
+        Row: {
+          consumed_at: string | null
+          event_id: string
+          id: string
+          obtained_at: string
+          source: string
+          user_id: string
+          variant: Database["public"]["Enums"]["card_variant"]
+        }
+        Insert: {
+          consumed_at?: string | null
+          event_id: string
+          id?: string
+          obtained_at?: string
+          source: string
+          user_id: string
+          variant: Database["public"]["Enums"]["card_variant"]
+        }
+        Update: {
+          consumed_at?: string | null
+          event_id?: string
+          id?: string
+          obtained_at?: string
+          source?: string
+          user_id?: string
+          variant?: Database["public"]["Enums"]["card_variant"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "card_copies_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      card_gifts: {
+        Row: {
+          cancelled_at: string | null
+          claimed_at: string | null
+          created_at: string
+          event_id: string
+          expires_at: string
+          id: string
+          recipient_id: string | null
+          sender_id: string
+          token: string
+          user_card_id: string | null
+          variant: Database["public"]["Enums"]["card_variant"]
+        }
+        Insert: {
+          cancelled_at?: string | null
+          claimed_at?: string | null
+          created_at?: string
+          event_id: string
+          expires_at: string
+          id?: string
+          recipient_id?: string | null
+          sender_id: string
+          token?: string
+          user_card_id?: string | null
+          variant: Database["public"]["Enums"]["card_variant"]
+        }
+        Update: {
+          cancelled_at?: string | null
+          claimed_at?: string | null
+          created_at?: string
+          event_id?: string
+          expires_at?: string
+          id?: string
+          recipient_id?: string | null
+          sender_id?: string
+          token?: string
+          user_card_id?: string | null
+          variant?: Database["public"]["Enums"]["card_variant"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "card_gifts_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "card_gifts_user_card_id_fkey"
+            columns: ["user_card_id"]
+            isOneToOne: false
+            referencedRelation: "user_cards"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      card_redemptions: {
+        Row: {
+          event_id: string
+          redeemed_at: string
+          user_id: string
+        }
+        Insert: {
+          event_id: string
+          redeemed_at?: string
+          user_id: string
+        }
+        Update: {
+          event_id?: string
+          redeemed_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "card_redemptions_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      event_attendee_codes: {
+        Row: {
+          code: string
+          created_at: string
+          event_id: string
+          id: string
+          redeemed_at: string | null
+          redeemed_by: string | null
+        }
+        Insert: {
+          code: string
+          created_at?: string
+          event_id: string
+          id?: string
+          redeemed_at?: string | null
+          redeemed_by?: string | null
+        }
+        Update: {
+          code?: string
+          created_at?: string
+          event_id?: string
+          id?: string
+          redeemed_at?: string | null
+          redeemed_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_attendee_codes_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      event_code_history: {
+        Row: {
+          code: string
+          event_id: string
+          id: string
+          reason: string
+          replaced_at: string
+          replaced_by: string | null
+        }
+        Insert: {
+          code: string
+          event_id: string
+          id?: string
+          reason: string
+          replaced_at?: string
+          replaced_by?: string | null
+        }
+        Update: {
+          code?: string
+          event_id?: string
+          id?: string
+          reason?: string
+          replaced_at?: string
+          replaced_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_code_history_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      event_code_secrets: {
+        Row: {
+          created_at: string
+          event_id: string
+          secret: string
+        }
+        Insert: {
+          created_at?: string
+          event_id: string
+          secret?: string
+        }
+        Update: {
+          created_at?: string
+          event_id?: string
+          secret?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_code_secrets_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: true
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      event_templates: {
+        Row: {
+          card_image_url: string
+          created_at: string
+          deadline_days: number
+          deadline_time: string
+          extra_rolls: number
+          id: string
+          name: string
+          preacher: string | null
+          rarity: Database["public"]["Enums"]["card_rarity"]
+          rotating_code: boolean
+          rotation_seconds: number
+          theme: string | null
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          card_image_url: string
+          created_at?: string
+          deadline_days?: number
+          deadline_time?: string
+          extra_rolls?: number
+          id?: string
+          name: string
+          preacher?: string | null
+          rarity?: Database["public"]["Enums"]["card_rarity"]
+          rotating_code?: boolean
+          rotation_seconds?: number
+          theme?: string | null
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          card_image_url?: string
+          created_at?: string
+          deadline_days?: number
+          deadline_time?: string
+          extra_rolls?: number
+          id?: string
+          name?: string
+          preacher?: string | null
+          rarity?: Database["public"]["Enums"]["card_rarity"]
+          rotating_code?: boolean
+          rotation_seconds?: number
+          theme?: string | null
+          title?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       events: {
         Row: {
           card_image_url: string
+          code_revoked_at: string | null
           created_at: string
           event_date: string
+          extra_rolls: number
           id: string
           preacher: string | null
+          publish_at: string | null
           qr_code_data: string | null
           rarity: Database["public"]["Enums"]["card_rarity"]
           redemption_code: string
           redemption_deadline: string
+          redemption_opens_at: string | null
+          rotating_code: boolean
+          rotation_seconds: number
           season_id: string
+          single_use_codes: boolean
+          status: Database["public"]["Enums"]["event_status"]
           theme: string | null
           title: string
           updated_at: string
         }
         Insert: {
           card_image_url: string
+          code_revoked_at?: string | null
           created_at?: string
           event_date: string
+          extra_rolls?: number
           id?: string
           preacher?: string | null
+          publish_at?: string | null
           qr_code_data?: string | null
           rarity?: Database["public"]["Enums"]["card_rarity"]
-          redemption_code: string
+          redemption_code?: string
           redemption_deadline: string
+          redemption_opens_at?: string | null
+          rotating_code?: boolean
+          rotation_seconds?: number
           season_id: string
+          single_use_codes?: boolean
+          status?: Database["public"]["Enums"]["event_status"]
           theme?: string | null
           title: string
           updated_at?: string
         }
         Update: {
           card_image_url?: string
+          code_revoked_at?: string | null
           created_at?: string
           event_date?: string
+          extra_rolls?: number
           id?: string
           preacher?: string | null
+          publish_at?: string | null
           qr_code_data?: string | null
           rarity?: Database["public"]["Enums"]["card_rarity"]
           redemption_code?: string
           redemption_deadline?: string
+          redemption_opens_at?: string | null
+          rotating_code?: boolean
+          rotation_seconds?: number
           season_id?: string
+          single_use_codes?: boolean
+          status?: Database["public"]["Enums"]["event_status"]
           theme?: string | null
           title?: string
           updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "events_season_id_fkey"
+            foreignKeyName: "events_season_id_fkey"
+            columns: ["season_id"]
+            isOneToOne: false
+            referencedRelation: "seasons"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          avatar_url: string | null
+          created_at: string
+          display_name: string | null
+          email: string | null
+          id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          avatar_url?: string | null
+          created_at?: string
+          display_name?: string | null
+          email?: string | null
+          id?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          avatar_url?: string | null
+          created_at?: string
+          display_name?: string | null
+          email?: string | null
+          id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      rarity_points: {
+        Row: {
+          points: number
+          rarity: Database["public"]["Enums"]["card_rarity"]
+          updated_at: string
+        }
+        Insert: {
+          points: number
+          rarity: Database["public"]["Enums"]["card_rarity"]
+          updated_at?: string
+        }
+        Update: {
+          points?: number
+          rarity?: Database["public"]["Enums"]["card_rarity"]
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      redemption_attempts: {
+        Row: {
+          attempted_at: string
+          code: string
+          id: string
+          ip: string | null
+          user_id: string
+        }
+        Insert: {
+          attempted_at?: string
+          code: string
+          id?: string
+          ip?: string | null
+          user_id: string
+        }
+        Update: {
+          attempted_at?: string
+          code?: string
+          id?: string
+          ip?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      redemption_lockouts: {
+        Row: {
+          locked_until: string
+          lockout_count: number
+          subject: string
+          subject_type: string
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          locked_until: string
+          lockout_count?: number
+          subject: string
+          subject_type: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          locked_until?: string
+          lockout_count?: number
+          subject?: string
+          subject_type?: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      season_standings: {
+        Row: {
+          avatar_url: string | null
+          card_count: number
+          comum_count: number
+          created_at: string
+          display_name: string | null
+          edicao_diamante_count: number
+          epico_count: number
+          holografica_count: number
+          lendario_count: number
+          points: number
+          rank: number
+          rarity_points: number
+          raro_count: number
+          reached_at: string
+          reliquia_count: number
+          season_id: string
+          user_id: string
+          variant_points: number
+        }
+        Insert: {
+          avatar_url?: string | null
+          card_count: number
+          comum_count: number
+          created_at?: string
+          display_name?: string | null
+          edicao_diamante_count: number
+          epico_count: number
+          holografica_count: number
+          lendario_count: number
+          points: number
+          rank: number
+          rarity_points: number
+          raro_count: number
+          reached_at: string
+          reliquia_count: number
+          season_id: string
+          user_id: string
+          variant_points: number
+        }
+        Update: {
+          avatar_url?: string | null
+          card_count?: number
+          comum_count?: number
+          created_at?: string
+          display_name?: string | null
+          edicao_diamante_count?: number
+          epico_count?: number
+          holografica_count?: number
+          lendario_count?: number
+          points?: number
+          rank?: number
+          rarity_points?: number
+          raro_count?: number
+          reached_at?: string
+          reliquia_count?: number
+          season_id?: string
+          user_id?: string
+          variant_points?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "season_standings_season_id_fkey"
             columns: ["season_id"]
             isOneToOne: false
             referencedRelation: "seasons"
@@ -108,38 +573,59 @@ export type Database = {
           },
         ]
       }
-      profiles: {
+      season_winners: {
         Row: {
           avatar_url: string | null
+          confirmed_at: string | null
+          confirmed_by: string | null
           created_at: string
           display_name: string | null
-          email: string | null
           id: string
+          place: number
+          prize: string | null
+          season_id: string
           updated_at: string
           user_id: string
         }
         Insert: {
           avatar_url?: string | null
+          confirmed_at?: string | null
+          confirmed_by?: string | null
           created_at?: string
           display_name?: string | null
-          email?: string | null
           id?: string
+          place: number
+          prize?: string | null
+          season_id: string
           updated_at?: string
           user_id: string
         }
         Update: {
           avatar_url?: string | null
+          confirmed_at?: string | null
+          confirmed_by?: string | null
           created_at?: string
           display_name?: string | null
-          email?: string | null
           id?: string
+          place?: number
+          prize?: string | null
+          season_id?: string
           updated_at?: string
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "season_winners_season_id_fkey"
+            columns: ["season_id"]
+            isOneToOne: false
+            referencedRelation: "seasons"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       seasons: {
         Row: {
+          closed_at: string | null
           cover_image_url: string | null
           created_at: string
           description: string | null
@@ -147,9 +633,11 @@ export type Database = {
           id: string
           name: string
           start_date: string
+          trading_enabled: boolean
           updated_at: string
         }
         Insert: {
+          closed_at?: string | null
           cover_image_url?: string | null
           created_at?: string
           description?: string | null
@@ -157,9 +645,11 @@ export type Database = {
           id?: string
           name: string
           start_date: string
+          trading_enabled?: boolean
           updated_at?: string
         }
         Update: {
+          closed_at?: string | null
           cover_image_url?: string | null
           created_at?: string
           description?: string | null
@@ -167,6 +657,89 @@ export type Database = {
           id?: string
           name?: string
           start_date?: string
+          trading_enabled?: boolean
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      trade_items: {
+        Row: {
+          event_id: string
+          id: string
+          owner_id: string
+          trade_id: string
+          user_card_id: string | null
+          variant: Database["public"]["Enums"]["card_variant"]
+        }
+        Insert: {
+          event_id: string
+          id?: string
+          owner_id: string
+          trade_id: string
+          user_card_id?: string | null
+          variant: Database["public"]["Enums"]["card_variant"]
+        }
+        Update: {
+          event_id?: string
+          id?: string
+          owner_id?: string
+          trade_id?: string
+          user_card_id?: string | null
+          variant?: Database["public"]["Enums"]["card_variant"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "trade_items_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "trade_items_trade_id_fkey"
+            columns: ["trade_id"]
+            isOneToOne: false
+            referencedRelation: "trades"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "trade_items_user_card_id_fkey"
+            columns: ["user_card_id"]
+            isOneToOne: false
+            referencedRelation: "user_cards"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      trades: {
+        Row: {
+          created_at: string
+          id: string
+          message: string | null
+          proposer_id: string
+          recipient_id: string
+          responded_at: string | null
+          status: Database["public"]["Enums"]["trade_status"]
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          message?: string | null
+          proposer_id: string
+          recipient_id: string
+          responded_at?: string | null
+          status?: Database["public"]["Enums"]["trade_status"]
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          message?: string | null
+          proposer_id?: string
+          recipient_id?: string
+          responded_at?: string | null
+          status?: Database["public"]["Enums"]["trade_status"]
           updated_at?: string
         }
         Relationships: []
@@ -202,6 +775,7 @@ export type Database = {
       }
       user_cards: {
         Row: {
+          acquired_at: string
           event_id: string
           id: string
           redeemed_at: string
@@ -209,6 +783,7 @@ export type Database = {
           variant: Database["public"]["Enums"]["card_variant"]
         }
         Insert: {
+          acquired_at?: string
           event_id: string
           id?: string
           redeemed_at?: string
@@ -216,6 +791,7 @@ export type Database = {
           variant?: Database["public"]["Enums"]["card_variant"]
         }
         Update: {
+          acquired_at?: string
           event_id?: string
           id?: string
           redeemed_at?: string
@@ -250,8 +826,151 @@ export type Database = {
         }
         Relationships: []
       }
+      variant_drop_tables: {
+        Row: {
+          comum: number
+          created_at: string
+          edicao_diamante: number
+          event_id: string | null
+          holografica: number
+          id: string
+          reliquia: number
+          season_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          comum: number
+          created_at?: string
+          edicao_diamante: number
+          event_id?: string | null
+          holografica: number
+          id?: string
+          reliquia: number
+          season_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          comum?: number
+          created_at?: string
+          edicao_diamante?: number
+          event_id?: string | null
+          holografica?: number
+          id?: string
+          reliquia?: number
+          season_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "variant_drop_tables_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: true
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "variant_drop_tables_season_id_fkey"
+            columns: ["season_id"]
+            isOneToOne: true
+            referencedRelation: "seasons"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      variant_points: {
+        Row: {
+          points: number
+          variant: Database["public"]["Enums"]["card_variant"]
+          updated_at: string
+        }
+        Insert: {
+          points: number
+          variant: Database["public"]["Enums"]["card_variant"]
+          updated_at?: string
+        }
+        Update: {
+          points?: number
+          variant?: Database["public"]["Enums"]["card_variant"]
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      wishlist_items: {
+        Row: {
+          created_at: string
+          event_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          event_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          event_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "wishlist_items_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
+      events_public: {
+        Row: {
+          card_image_url: string | null
+          created_at: string | null
+          event_date: string | null
+          id: string | null
+          preacher: string | null
+          rarity: Database["public"]["Enums"]["card_rarity"] | null
+          redemption_deadline: string | null
+          redemption_opens_at: string | null
+          season_id: string | null
+          theme: string | null
+          title: string | null
+          updated_at: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "events_season_id_fkey"
+            columns: ["season_id"]
+            isOneToOne: false
+            referencedRelation: "seasons"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      hall_of_fame: {
+        Row: {
+          avatar_url: string | null
+          card_count: number | null
+          display_name: string | null
+          end_date: string | null
+          place: number | null
+          points: number | null
+          prize: string | null
+          season_id: string | null
+          season_name: string | null
+          user_id: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "season_winners_season_id_fkey"
+            columns: ["season_id"]
+            isOneToOne: false
+            referencedRelation: "seasons"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles_public: {
         Row: {
           avatar_url: string | null
@@ -283,9 +1002,20 @@ export type Database = {
         Row: {
           avatar_url: string | null
           card_count: number | null
+          comum_count: number | null
           display_name: string | null
+          edicao_diamante_count: number | null
+          epico_count: number | null
+          holografica_count: number | null
+          last_acquired_at: string | null
+          lendario_count: number | null
+          points: number | null
+          raro_count: number | null
+          rarity_points: number | null
+          reliquia_count: number | null
           season_id: string | null
           user_id: string | null
+          variant_points: number | null
         }
         Relationships: [
           {
@@ -297,8 +1027,209 @@ export type Database = {
           },
         ]
       }
+      redemption_flags: {
+        Row: {
+          display_name: string | null
+          email: string | null
+          failures_24h: number | null
+          locked_until: string | null
+          lockout_count: number | null
+          subject: string | null
+          subject_type: string | null
+          updated_at: string | null
+          user_id: string | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
+      accept_trade: { Args: { _trade_id: string }; Returns: undefined }
+      apply_redemption_lockout: {
+        Args: {
+          _max_failures: number
+          _subject: string
+          _subject_type: string
+          _user_id: string
+        }
+        Returns: string
+      }
+      assert_trade_valid: { Args: { _trade_id: string }; Returns: undefined }
+      award_badges: {
+        Args: { _user_id: string }
+        Returns: {
+          badge_id: string
+          earned_at: string
+          id: string
+          user_id: string
+        }[]
+      }
+      badge_criteria_met: {
+        Args: {
+          _badge: Database["public"]["Tables"]["badges"]["Row"]
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      evaluate_all_badges: { Args: never; Returns: number }
+      cancel_card_gift: { Args: { _gift_id: string }; Returns: undefined }
+      cancel_trade: { Args: { _trade_id: string }; Returns: undefined }
+      claim_card_gift: {
+        Args: { _token: string }
+        Returns: {
+          card_image_url: string
+          event_id: string
+          rarity: Database["public"]["Enums"]["card_rarity"]
+          title: string
+          variant: Database["public"]["Enums"]["card_variant"]
+        }[]
+      }
+      close_season: { Args: { _season_id: string }; Returns: number }
+      create_card_gift: {
+        Args: { _event_id: string }
+        Returns: {
+          expires_at: string
+          id: string
+          token: string
+        }[]
+      }
+      decline_trade: { Args: { _trade_id: string }; Returns: undefined }
+      event_is_public: {
+        Args: {
+          _publish_at: string
+          _status: Database["public"]["Enums"]["event_status"]
+        }
+        Returns: boolean
+      }
+      event_tradeable: { Args: { _event_id: string }; Returns: boolean }
+      fuse_card_copies: {
+        Args: { _event_id: string }
+        Returns: {
+          upgraded: boolean
+          variant: Database["public"]["Enums"]["card_variant"]
+        }[]
+      }
+      generate_event_codes: {
+        Args: { _count: number; _event_id: string }
+        Returns: number
+      }
+      get_card_gift: {
+        Args: { _token: string }
+        Returns: {
+          cancelled_at: string
+          claimed_at: string
+          event_id: string
+          expires_at: string
+          id: string
+          rarity: Database["public"]["Enums"]["card_rarity"]
+          recipient_id: string
+          sender_id: string
+          sender_name: string
+          title: string
+          variant: Database["public"]["Enums"]["card_variant"]
+        }[]
+      }
+      get_leaderboard: {
+        Args: {
+          _mode?: string
+          _page?: number
+          _page_size?: number
+          _season_id?: string
+        }
+        Returns: {
+          avatar_url: string
+          card_count: number
+          comum_count: number
+          display_name: string
+          edicao_diamante_count: number
+          epico_count: number
+          holografica_count: number
+          lendario_count: number
+          list_position: number
+          points: number
+          rank: number
+          rarity_points: number
+          raro_count: number
+          reached_at: string
+          reliquia_count: number
+          total_count: number
+          user_id: string
+          variant_points: number
+        }[]
+      }
+      get_my_ranking: {
+        Args: { _mode?: string; _neighbours?: number; _season_id?: string }
+        Returns: {
+          avatar_url: string
+          card_count: number
+          comum_count: number
+          display_name: string
+          edicao_diamante_count: number
+          epico_count: number
+          holografica_count: number
+          lendario_count: number
+          list_position: number
+          points: number
+          rank: number
+          rarity_points: number
+          raro_count: number
+          reached_at: string
+          reliquia_count: number
+          total_count: number
+          user_id: string
+          variant_points: number
+        }[]
+      }
+      get_ranking: {
+        Args: { _mode?: string; _season_id?: string }
+        Returns: {
+          avatar_url: string
+          card_count: number
+          comum_count: number
+          display_name: string
+          edicao_diamante_count: number
+          epico_count: number
+          holografica_count: number
+          lendario_count: number
+          points: number
+          rank: number
+          rarity_points: number
+          raro_count: number
+          reached_at: string
+          reliquia_count: number
+          user_id: string
+          variant_points: number
+        }[]
+      }
+      get_rotating_code: {
+        Args: { _event_id: string }
+        Returns: {
+          code: string
+          expires_at: string
+          rotation_seconds: number
+          server_time: string
+        }[]
+      }
+      get_tradeable_cards: {
+        Args: { _user_id: string }
+        Returns: {
+          card_image_url: string
+          event_id: string
+          rarity: Database["public"]["Enums"]["card_rarity"]
+          season_id: string
+          title: string
+          user_card_id: string
+          variant: Database["public"]["Enums"]["card_variant"]
+        }[]
+      }
+      grant_card_copy: {
+        Args: {
+          _event_id: string
+          _source: string
+          _user_id: string
+          _variant: Database["public"]["Enums"]["card_variant"]
+        }
+        Returns: boolean
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -306,11 +1237,85 @@ export type Database = {
         }
         Returns: boolean
       }
+      org_timezone: { Args: never; Returns: string }
+      propose_trade: {
+        Args: {
+          _message?: string
+          _offered_card_ids: string[]
+          _recipient_id: string
+          _requested_card_ids: string[]
+        }
+        Returns: string
+      }
+      random_redemption_code: { Args: never; Returns: string }
+      redeem_card: {
+        Args: { _code: string }
+        Returns: {
+          card_image_url: string
+          event_id: string
+          locked_until: string
+          opens_at: string
+          rarity: Database["public"]["Enums"]["card_rarity"]
+          status: Database["public"]["Enums"]["redeem_status"]
+          title: string
+          variant: Database["public"]["Enums"]["card_variant"]
+        }[]
+      }
+      redemption_locked_until: {
+        Args: { _ip: string; _user_id: string }
+        Returns: string
+      }
+      regenerate_redemption_code: {
+        Args: { _event_id: string }
+        Returns: string
+      }
+      register_failed_redemption: {
+        Args: { _code: string; _ip: string; _user_id: string }
+        Returns: string
+      }
+      request_ip: { Args: never; Returns: string }
+      resolve_redemption_code: { Args: { _code: string }; Returns: string }
+      revoke_redemption_code: {
+        Args: { _event_id: string }
+        Returns: undefined
+      }
+      roll_variant: {
+        Args: { _event_id: string }
+        Returns: Database["public"]["Enums"]["card_variant"]
+      }
+      rotating_code_at: {
+        Args: { _secret: string; _window: number }
+        Returns: string
+      }
+      rotation_window: {
+        Args: { _at?: string; _seconds: number }
+        Returns: number
+      }
+      unused_redemption_code: { Args: never; Returns: string }
+      variant_outranks: {
+        Args: {
+          _candidate: Database["public"]["Enums"]["card_variant"]
+          _current: Database["public"]["Enums"]["card_variant"]
+        }
+        Returns: boolean
+      }
     }
     Enums: {
       app_role: "admin" | "user"
       card_rarity: "comum" | "raro" | "epico" | "lendario"
       card_variant: "comum" | "holografica" | "edicao_diamante" | "reliquia"
+      event_status: "draft" | "scheduled" | "published" | "archived"
+      redeem_status:
+        | "success"
+        | "expired"
+        | "already_redeemed"
+        | "not_found"
+        | "rate_limited"
+        | "not_open"
+        | "extra_copy"
+        | "code_used"
+        | "code_replaced"
+      trade_status: "pending" | "accepted" | "declined" | "cancelled"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -441,6 +1446,19 @@ export const Constants = {
       app_role: ["admin", "user"],
       card_rarity: ["comum", "raro", "epico", "lendario"],
       card_variant: ["comum", "holografica", "edicao_diamante", "reliquia"],
+      event_status: ["draft", "scheduled", "published", "archived"],
+      redeem_status: [
+        "success",
+        "expired",
+        "already_redeemed",
+        "not_found",
+        "rate_limited",
+        "not_open",
+        "extra_copy",
+        "code_used",
+        "code_replaced",
+      ],
+      trade_status: ["pending", "accepted", "declined", "cancelled"],
     },
   },
 } as const
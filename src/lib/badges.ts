@@ -0,0 +1,61 @@
+// Badge types understood by badge_criteria_met() on the server.
+// 'manual' never matches, so those badges are only granted by admins.
+export const BADGE_TYPES = [
+  'season_collector',
+  'supreme_collector',
+  'total_cards',
+  'first_relic',
+  'rarity_master',
+  'manual',
+] as const;
+
+export type BadgeType = (typeof BADGE_TYPES)[number];
+
+interface BadgeTypeConfig {
+  label: string;
+  description: string;
+  season: 'required' | 'optional' | 'none';
+  usesThreshold: boolean;
+}
+
+export const badgeTypeConfig: Record<BadgeType, BadgeTypeConfig> = {
+  season_collector: {
+    label: 'Colecionador da Temporada',
+    description: 'Todos os cards da temporada, concedida quando a temporada termina',
+    season: 'required',
+    usesThreshold: false,
+  },
+  supreme_collector: {
+    label: 'Colecionador Supremo',
+    description: 'Todos os cards de todas as temporadas encerradas',
+    season: 'none',
+    usesThreshold: false,
+  },
+  total_cards: {
+    label: 'Total de Cards',
+    description: 'Quantidade mínima de cards coletados',
+    season: 'optional',
+    usesThreshold: true,
+  },
+  first_relic: {
+    label: 'Primeira Relíquia',
+    description: 'Obter um card na variante Relíquia',
+    season: 'optional',
+    usesThreshold: false,
+  },
+  rarity_master: {
+    label: 'Mestre das Raridades',
+    description: 'Um card de cada raridade na mesma temporada',
+    season: 'optional',
+    usesThreshold: false,
+  },
+  manual: {
+    label: 'Manual',
+    description: 'Concedida apenas manualmente pelos administradores',
+    season: 'optional',
+    usesThreshold: false,
+  },
+};
+
+export const getBadgeTypeLabel = (badgeType: string) =>
+  badgeTypeConfig[badgeType as BadgeType]?.label ?? badgeType;
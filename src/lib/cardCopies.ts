@@ -0,0 +1,2 @@
+// Spare copies consumed by one fusion; mirrors _copies_per_fusion in fuse_card_copies()
+export const COPIES_PER_FUSION = 3;
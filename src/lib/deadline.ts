@@ -0,0 +1,80 @@
+// Redemption deadlines are stored as absolute instants (timestamptz). Admins
+// enter and read them as wall-clock time in the organization's timezone,
+// which must match public.org_timezone() on the server.
+export const ORG_TIMEZONE = 'America/Sao_Paulo';
+
+const wallClockFormatter = new Intl.DateTimeFormat('en-US', {
+  timeZone: ORG_TIMEZONE,
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+  hour: '2-digit',
+  minute: '2-digit',
+  second: '2-digit',
+  hourCycle: 'h23',
+});
+
+const getWallClockParts = (date: Date) => {
+  const parts: Record<string, string> = {};
+  for (const { type, value } of wallClockFormatter.formatToParts(date)) {
+    parts[type] = value;
+  }
+  return parts;
+};
+
+// Offset (in ms) between org wall-clock time and UTC at the given instant
+const getOrgOffset = (date: Date) => {
+  const p = getWallClockParts(date);
+  const asUtc = Date.UTC(+p.year, +p.month - 1, +p.day, +p.hour, +p.minute, +p.second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+};
+
+/** Converts a stored deadline into a `datetime-local` value in the org timezone. */
+export const deadlineToInput = (deadline: string | Date) => {
+  const p = getWallClockParts(new Date(deadline));
+  return `${p.year}-${p.month}-${p.day}T${p.hour}:${p.minute}`;
+};
+
+/** Converts a `datetime-local` value, read in the org timezone, into an ISO instant. */
+export const deadlineFromInput = (value: string) => {
+  const [datePart, timePart = '00:00'] = value.split('T');
+  const [year, month, day] = datePart.split('-').map(Number);
+  const [hour, minute] = timePart.split(':').map(Number);
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute);
+
+  // Re-check the offset at the resulting instant in case it sits across a DST change
+  const guess = asUtc - getOrgOffset(new Date(asUtc));
+  const offset = getOrgOffset(new Date(guess));
+  const instant = asUtc - offset;
+
+  // A wall-clock time skipped by the clocks moving forward does not exist; keep the
+  // first guess, which lands the same distance past the change instead of the day before
+  return new Date(getOrgOffset(new Date(instant)) === offset ? instant : guess).toISOString();
+};
+
+export const isDeadlinePassed = (deadline: string | Date, now: Date = new Date()) =>
+  now.getTime() > new Date(deadline).getTime();
+
+/** Whether redemption has not opened yet. Events without an opening time are open from creation. */
+export const isBeforeOpening = (opensAt: string | Date | null | undefined, now: Date = new Date()) =>
+  !!opensAt && now.getTime() < new Date(opensAt).getTime();
+
+/** Time left until the given instant, split into whole days, hours and minutes. */
+export const getTimeRemaining = (deadline: string | Date, now: Date = new Date()) => {
+  const totalMs = Math.max(0, new Date(deadline).getTime() - now.getTime());
+  return {
+    totalMs,
+    days: Math.floor(totalMs / (1000 * 60 * 60 * 24)),
+    hours: Math.floor((totalMs % (1000 * 60 * 60 * 24)) / (1000 * 60 * 60)),
+    minutes: Math.floor((totalMs % (1000 * 60 * 60)) / (1000 * 60)),
+  };
+};
+
+/** Formats a deadline as `dd/MM/yyyy às HH:mm` in the org timezone. */
+export const formatDeadline = (deadline: string | Date) => {
+  const p = getWallClockParts(new Date(deadline));
+  return `${p.day}/${p.month}/${p.year} às ${p.hour}:${p.minute}`;
+};
+
+/** Today's date as `yyyy-MM-dd` in the org timezone, comparable with date columns. */
+export const orgToday = (now: Date = new Date()) => deadlineToInput(now).split('T')[0];
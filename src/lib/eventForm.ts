@@ -0,0 +1,97 @@
+import { z } from 'zod';
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+import { deadlineFromInput } from '@/lib/deadline';
+import { variantOddsSchema } from '@/lib/variantOdds';
+
+// Shared by the event dialog and the bulk import, so both accept the same events
+export const eventSchema = z.object({
+  title: z.string().min(1, 'Título é obrigatório'),
+  theme: z.string().optional(),
+  preacher: z.string().optional(),
+  event_date: z.string().min(1, 'Data do evento é obrigatória'),
+  redemption_opens_at: z.string().optional(),
+  redemption_deadline: z.string().min(1, 'Data limite de resgate é obrigatória'),
+  season_id: z.string().min(1, 'Temporada é obrigatória'),
+  rarity: z.enum(['comum', 'raro', 'epico', 'lendario'] as const),
+  status: z.enum(['draft', 'scheduled', 'published', 'archived'] as const),
+  publish_at: z.string().optional(),
+  variant_odds: variantOddsSchema,
+  rotating_code: z.boolean(),
+  single_use_codes: z.boolean(),
+  rotation_seconds: z.coerce
+    .number()
+    .int('Use um número inteiro de segundos')
+    .min(10, 'Mínimo de 10 segundos')
+    .max(600, 'Máximo de 600 segundos'),
+  extra_rolls: z.coerce
+    .number()
+    .int('Use um número inteiro')
+    .min(0, 'Mínimo de 0')
+    .max(10, 'Máximo de 10'),
+}).refine(
+  (data) => !data.redemption_opens_at || data.redemption_opens_at < data.redemption_deadline,
+  { message: 'A abertura deve ser antes da data limite', path: ['redemption_opens_at'] }
+).refine(
+  (data) => data.status !== 'scheduled' || !!data.publish_at,
+  { message: 'Informe quando o evento será publicado', path: ['publish_at'] }
+).refine(
+  (data) => !(data.rotating_code && data.single_use_codes),
+  { message: 'Escolha código rotativo ou códigos individuais', path: ['single_use_codes'] }
+);
+
+export type EventFormData = z.infer<typeof eventSchema>;
+
+/** Uploads a card image to the public `cards` bucket and returns its URL. */
+export const uploadCardImage = async (file: File) => {
+  const fileExt = file.name.split('.').pop();
+  const fileName = `${crypto.randomUUID()}.${fileExt}`;
+
+  const { error } = await supabase.storage.from('cards').upload(fileName, file);
+  if (error) throw error;
+
+  const { data } = supabase.storage.from('cards').getPublicUrl(fileName);
+  return data.publicUrl;
+};
+
+/** Deletes images uploaded by uploadCardImage(), e.g. when their events could not be saved. */
+export const removeCardImages = async (imageUrls: string[]) => {
+  const fileNames = imageUrls.map((url) => url.split('/').pop());
+  const { error } = await supabase.storage.from('cards').remove(fileNames);
+  if (error) throw error;
+};
+
+/** Maps a validated event form onto a new `events` row. The server picks its redemption code. */
+export const toEventInsert = (
+  data: EventFormData,
+  imageUrl: string,
+): Database['public']['Tables']['events']['Insert'] => ({
+  title: data.title,
+  theme: data.theme || null,
+  preacher: data.preacher || null,
+  event_date: data.event_date,
+  redemption_opens_at: data.redemption_opens_at ? deadlineFromInput(data.redemption_opens_at) : null,
+  redemption_deadline: deadlineFromInput(data.redemption_deadline),
+  season_id: data.season_id,
+  rarity: data.rarity,
+  status: data.status,
+  publish_at: data.status === 'scheduled' ? deadlineFromInput(data.publish_at) : null,
+  card_image_url: imageUrl,
+  rotating_code: data.rotating_code,
+  rotation_seconds: data.rotation_seconds,
+  single_use_codes: data.single_use_codes,
+  extra_rolls: data.extra_rolls,
+});
+
+// The server draws a code no other event uses, but two inserts running at the
+// same time can still draw the same one; the loser fails on the UNIQUE constraint
+const MAX_INSERT_ATTEMPTS = 3;
+
+/** Inserts new events, drawing fresh codes again if one was taken meanwhile. Returns their ids. */
+export const insertEvents = async (events: Database['public']['Tables']['events']['Insert'][]) => {
+  for (let attempt = 1; ; attempt++) {
+    const { data, error } = await supabase.from('events').insert(events).select('id');
+    if (!error) return data;
+    if (error.code !== '23505' || attempt === MAX_INSERT_ATTEMPTS) throw error;
+  }
+};
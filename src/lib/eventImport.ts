@@ -0,0 +1,180 @@
+import { EventFormData, eventSchema } from '@/lib/eventForm';
+import { toVariantOddsForm } from '@/lib/variantOdds';
+import { Database } from '@/integrations/supabase/types';
+
+type CardRarity = Database['public']['Enums']['card_rarity'];
+
+export const IMPORT_COLUMNS = ['title', 'theme', 'preacher', 'event_date', 'deadline', 'rarity', 'image'];
+
+export interface ImportRow {
+  line: number;
+  data: EventFormData;
+  image: File | null;
+  errors: string[];
+}
+
+type RawRecord = Record<string, string>;
+
+/** Splits CSV text into records keyed by the lower-cased header. Accepts `,` or `;` separators. */
+export const parseCsv = (text: string): RawRecord[] => {
+  const content = text.replace(/^\uFEFF/, '');
+  const firstLine = content.split(/\r?\n/, 1)[0];
+  const separator = firstLine.split(';').length > firstLine.split(',').length ? ';' : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === separator) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const [header = [], ...body] = rows.filter((cells) => cells.some((cell) => cell.trim()));
+  const keys = header.map((key) => key.trim().toLowerCase());
+  return body.map((cells) => Object.fromEntries(keys.map((key, i) => [key, (cells[i] ?? '').trim()])));
+};
+
+/** Reads a JSON array of event objects into the same shape as parseCsv(). */
+export const parseJson = (text: string): RawRecord[] => {
+  const parsed = JSON.parse(text);
+  const items = Array.isArray(parsed) ? parsed : parsed?.events;
+  if (!Array.isArray(items)) throw new Error('O JSON deve ser uma lista de eventos');
+
+  return items.map((item) =>
+    Object.fromEntries(
+      Object.entries(item ?? {}).map(([key, value]) => [key.trim().toLowerCase(), value == null ? '' : String(value).trim()])
+    )
+  );
+};
+
+export const readImportFile = async (file: File) => {
+  const text = await file.text();
+  return file.name.toLowerCase().endsWith('.json') ? parseJson(text) : parseCsv(text);
+};
+
+// Accepts yyyy-MM-dd and dd/MM/yyyy
+const normalizeDate = (value: string) => {
+  const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (iso) return value;
+  const br = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (br) return `${br[3]}-${br[2].padStart(2, '0')}-${br[1].padStart(2, '0')}`;
+  return null;
+};
+
+// Same formats as normalizeDate() plus an optional HH:mm; a bare date means the end of that day
+const normalizeDateTime = (value: string) => {
+  const [datePart, timePart] = value.replace('T', ' ').split(/\s+/);
+  const date = normalizeDate(datePart ?? '');
+  if (!date) return null;
+  if (!timePart) return `${date}T23:59`;
+  const time = timePart.match(/^(\d{1,2}):(\d{2})/);
+  return time ? `${date}T${time[1].padStart(2, '0')}:${time[2]}` : null;
+};
+
+const RARITIES: CardRarity[] = ['comum', 'raro', 'epico', 'lendario'];
+
+// Also accepts the accented labels, e.g. "Épico"
+const normalizeRarity = (value: string) => {
+  const rarity = value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase() as CardRarity;
+  return RARITIES.includes(rarity) ? rarity : undefined;
+};
+
+const fileStem = (name: string) => name.replace(/\.[^.]+$/, '').toLowerCase();
+
+/**
+ * Turns imported records into event forms for the given season, validated with
+ * the same schema as the event dialog. Images are matched on the `image`
+ * column, or on the title when that column is empty.
+ */
+export const buildImportRows = (records: RawRecord[], seasonId: string, images: File[]): ImportRow[] => {
+  const imagesByName = new Map<string, File>();
+  images.forEach((image) => {
+    imagesByName.set(image.name.toLowerCase(), image);
+    imagesByName.set(fileStem(image.name), image);
+  });
+
+  return records.map((record, index) => {
+    const errors: string[] = [];
+    const invalid = new Set<string>();
+
+    const eventDate = record.event_date ? normalizeDate(record.event_date) : '';
+    if (eventDate === null) {
+      errors.push(`Data do evento inválida: ${record.event_date}`);
+      invalid.add('event_date');
+    }
+
+    const deadlineValue = record.deadline || record.redemption_deadline || '';
+    const deadline = deadlineValue ? normalizeDateTime(deadlineValue) : '';
+    if (deadline === null) {
+      errors.push(`Data limite inválida: ${deadlineValue}`);
+      invalid.add('redemption_deadline');
+    }
+
+    const rarity = record.rarity ? normalizeRarity(record.rarity) : 'comum';
+    if (!rarity) {
+      errors.push(`Raridade inválida: ${record.rarity}`);
+      invalid.add('rarity');
+    }
+
+    const data = {
+      title: record.title ?? '',
+      theme: record.theme ?? '',
+      preacher: record.preacher ?? '',
+      event_date: eventDate ?? record.event_date,
+      redemption_opens_at: '',
+      redemption_deadline: deadline ?? deadlineValue,
+      season_id: seasonId,
+      rarity: rarity ?? 'comum',
+      status: 'draft',
+      publish_at: '',
+      variant_odds: toVariantOddsForm(),
+      rotating_code: false,
+      rotation_seconds: 30,
+      single_use_codes: false,
+      extra_rolls: 0,
+    } as EventFormData;
+
+    const result = eventSchema.safeParse(data);
+    if (!result.success) {
+      result.error.issues
+        .filter((issue) => !invalid.has(String(issue.path[0])))
+        .forEach((issue) => errors.push(issue.message));
+    }
+
+    const imageName = record.image || record.title || '';
+    const image = imagesByName.get(imageName.toLowerCase()) ?? imagesByName.get(fileStem(imageName)) ?? null;
+    if (!image) {
+      errors.push(record.image ? `Imagem não encontrada: ${record.image}` : 'Nenhuma imagem com o nome do título');
+    }
+
+    return { line: index + 1, data, image, errors };
+  });
+};
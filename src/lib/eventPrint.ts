@@ -0,0 +1,131 @@
+// Print sheets are drawn as a single SVG in millimetres on an A4 page, so the
+// same markup is printed (or saved as PDF) by the browser and downloaded as a
+// standalone SVG.
+export const A4_WIDTH = 210;
+export const A4_HEIGHT = 297;
+
+export type PrintLayout = 'poster-art' | 'poster-qr' | 'tickets-8' | 'tickets-24';
+
+export interface PrintLayoutOption {
+  value: PrintLayout;
+  label: string;
+  description: string;
+  columns: number;
+  rows: number;
+}
+
+export const PRINT_LAYOUTS: PrintLayoutOption[] = [
+  {
+    value: 'poster-art',
+    label: 'Cartaz com arte',
+    description: 'A4 com a arte do card em destaque, QR Code e código.',
+    columns: 1,
+    rows: 1,
+  },
+  {
+    value: 'poster-qr',
+    label: 'Cartaz QR grande',
+    description: 'A4 com o QR Code em tamanho grande, para leitura à distância.',
+    columns: 1,
+    rows: 1,
+  },
+  {
+    value: 'tickets-8',
+    label: 'Folheto (8 por folha)',
+    description: 'Tickets de 105 × 74 mm com linhas de corte.',
+    columns: 2,
+    rows: 4,
+  },
+  {
+    value: 'tickets-24',
+    label: 'Folheto (24 por folha)',
+    description: 'Tickets de 70 × 37 mm com linhas de corte.',
+    columns: 3,
+    rows: 8,
+  },
+];
+
+/**
+ * Breaks text into at most `maxLines` lines of about `maxChars` characters,
+ * ending the last line with an ellipsis when the text does not fit.
+ */
+export const wrapText = (text: string, maxChars: number, maxLines: number) => {
+  const lines: string[] = [];
+  let current = '';
+
+  for (const word of text.trim().split(/\s+/)) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (candidate.length <= maxChars || !current) {
+      current = candidate;
+    } else {
+      lines.push(current);
+      current = word;
+    }
+  }
+  if (current) lines.push(current);
+
+  if (lines.length <= maxLines) return lines.map((line) => truncate(line, maxChars));
+  const kept = lines.slice(0, maxLines);
+  kept[maxLines - 1] = truncate(`${kept[maxLines - 1]}…`, maxChars);
+  return kept;
+};
+
+const truncate = (line: string, maxChars: number) =>
+  line.length <= maxChars ? line : `${line.slice(0, maxChars - 1)}…`;
+
+/**
+ * Loads an image as a data URL so downloaded SVGs do not depend on storage
+ * URLs. Falls back to the original URL when the image cannot be fetched.
+ */
+export const toDataUrl = async (url: string) => {
+  try {
+    const response = await fetch(url);
+    if (!response.ok) return url;
+    const blob = await response.blob();
+    return await new Promise<string>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsDataURL(blob);
+    });
+  } catch {
+    return url;
+  }
+};
+
+/** Saves an on-screen SVG element as a standalone `.svg` file. */
+export const downloadSvg = (svg: SVGSVGElement, fileName: string) => {
+  const markup = new XMLSerializer().serializeToString(svg);
+  const blob = new Blob(['<?xml version="1.0" encoding="UTF-8"?>\n', markup], {
+    type: 'image/svg+xml',
+  });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const isTicketLayout = (layout: PrintLayout) => layout.startsWith('tickets');
+
+/** Splits per-attendee codes into the pages of a ticket layout. */
+export const paginateCodes = (codes: string[], layout: PrintLayout) => {
+  const { columns, rows } = PRINT_LAYOUTS.find((option) => option.value === layout);
+  const pages: string[][] = [];
+  for (let i = 0; i < codes.length; i += columns * rows) {
+    pages.push(codes.slice(i, i + columns * rows));
+  }
+  return pages;
+};
+
+/** Download name for a sheet, e.g. `culto-de-domingo-poster-art.svg` or `retiro-tickets-8-2.svg`. */
+export const printFileName = (title: string, layout: PrintLayout, page?: number) => {
+  const slug = title
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+  return `${slug || 'evento'}-${layout}${page ? `-${page}` : ''}.svg`;
+};
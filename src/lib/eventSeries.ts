@@ -0,0 +1,65 @@
+import { addDays, format, getDay, parseISO } from 'date-fns';
+import { EventFormData } from '@/lib/eventForm';
+import { toVariantOddsForm } from '@/lib/variantOdds';
+import { Database } from '@/integrations/supabase/types';
+
+export type EventTemplate = Database['public']['Tables']['event_templates']['Row'];
+
+// Indexed like Date.getDay()
+export const WEEKDAY_LABELS = [
+  'Domingo',
+  'Segunda-feira',
+  'Terça-feira',
+  'Quarta-feira',
+  'Quinta-feira',
+  'Sexta-feira',
+  'Sábado',
+];
+
+/** Every `yyyy-MM-dd` date from `from` to `to`, inclusive, that falls on `weekday` (0 = Sunday). */
+export const seriesDates = (from: string, to: string, weekday: number) => {
+  const dates: string[] = [];
+  if (!from || !to) return dates;
+
+  const start = parseISO(from);
+  let date = addDays(start, (weekday - getDay(start) + 7) % 7);
+  const end = parseISO(to);
+  while (date <= end) {
+    dates.push(format(date, 'yyyy-MM-dd'));
+    date = addDays(date, 7);
+  }
+  return dates;
+};
+
+// `{data}` and `{n}` in a template's title or theme become the event date (dd/MM)
+// and the event's position in the series
+const fillPlaceholders = (text: string, date: string, position: number) =>
+  text
+    .split('{data}')
+    .join(format(parseISO(date), 'dd/MM'))
+    .split('{n}')
+    .join(String(position));
+
+/** The event form a template produces for one date of a series, created as a draft. */
+export const eventFromTemplate = (
+  template: EventTemplate,
+  seasonId: string,
+  date: string,
+  position: number,
+): EventFormData => ({
+  title: fillPlaceholders(template.title, date, position),
+  theme: template.theme ? fillPlaceholders(template.theme, date, position) : '',
+  preacher: template.preacher ?? '',
+  event_date: date,
+  redemption_opens_at: '',
+  redemption_deadline: `${format(addDays(parseISO(date), template.deadline_days), 'yyyy-MM-dd')}T${template.deadline_time.slice(0, 5)}`,
+  season_id: seasonId,
+  rarity: template.rarity,
+  status: 'draft',
+  publish_at: '',
+  variant_odds: toVariantOddsForm(),
+  rotating_code: template.rotating_code,
+  rotation_seconds: template.rotation_seconds,
+  single_use_codes: false,
+  extra_rolls: template.extra_rolls,
+});
@@ -0,0 +1,31 @@
+import { Database } from '@/integrations/supabase/types';
+
+export type EventStatus = Database['public']['Enums']['event_status'];
+
+export const EVENT_STATUSES: EventStatus[] = ['draft', 'scheduled', 'published', 'archived'];
+
+export const eventStatusLabels: Record<EventStatus, string> = {
+  draft: 'Rascunho',
+  scheduled: 'Agendado',
+  published: 'Publicado',
+  archived: 'Arquivado',
+};
+
+export const eventStatusColors: Record<EventStatus, string> = {
+  draft: 'bg-muted text-muted-foreground',
+  scheduled: 'bg-amber-500/20 text-amber-500 border-amber-500',
+  published: 'bg-green-500/20 text-green-500 border-green-500',
+  archived: 'bg-secondary text-secondary-foreground',
+};
+
+interface EventLifecycle {
+  status: EventStatus;
+  publish_at: string | null;
+}
+
+// Scheduled events go live on their own once publish_at passes, so they are
+// shown as published from then on. Mirrors public.event_is_public().
+export const getEffectiveEventStatus = (event: EventLifecycle, now: Date = new Date()): EventStatus =>
+  event.status === 'scheduled' && event.publish_at && new Date(event.publish_at) <= now
+    ? 'published'
+    : event.status;
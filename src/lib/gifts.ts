@@ -0,0 +1,48 @@
+import { Database } from '@/integrations/supabase/types';
+import { describeTradeError } from '@/lib/trades';
+
+export type CardGift = Database['public']['Tables']['card_gifts']['Row'];
+export type GiftStatus = 'pending' | 'claimed' | 'cancelled' | 'expired';
+
+// Mirrors the link lifetime set by create_card_gift()
+export const GIFT_LINK_HOURS = 48;
+
+export const giftLink = (token: string) => `${window.location.origin}/gift/${token}`;
+
+export const getGiftStatus = (
+  gift: Pick<CardGift, 'claimed_at' | 'cancelled_at' | 'expires_at'>
+): GiftStatus => {
+  if (gift.claimed_at) return 'claimed';
+  if (gift.cancelled_at) return 'cancelled';
+  if (new Date(gift.expires_at) <= new Date()) return 'expired';
+  return 'pending';
+};
+
+export const giftStatusLabels: Record<GiftStatus, string> = {
+  pending: 'Aguardando',
+  claimed: 'Resgatado',
+  cancelled: 'Cancelado',
+  expired: 'Expirado',
+};
+
+export const giftStatusColors: Record<GiftStatus, string> = {
+  pending: 'bg-amber-500/20 text-amber-500 border-amber-500',
+  claimed: 'bg-green-500/20 text-green-500 border-green-500',
+  cancelled: 'bg-muted text-muted-foreground',
+  expired: 'bg-muted text-muted-foreground',
+};
+
+// The gift functions raise English messages; members read them in Portuguese
+const giftErrorMessages: Record<string, string> = {
+  'You can only gift cards you own': 'Você só pode presentear cards que possui.',
+  'Gift not found': 'Presente não encontrado.',
+  'This gift was already claimed': 'Este presente já foi resgatado.',
+  'This gift was cancelled': 'Este presente foi cancelado por quem o enviou.',
+  'This gift link has expired': 'Este link de presente expirou.',
+  'You cannot claim your own gift': 'Você não pode resgatar o seu próprio presente.',
+  'The gifted card is no longer available': 'O card deste presente não está mais disponível.',
+  'You already have this card': 'Você já possui este card.',
+};
+
+export const describeGiftError = (error: { message: string }) =>
+  giftErrorMessages[error.message] ?? describeTradeError(error);
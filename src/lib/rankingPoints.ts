@@ -0,0 +1,19 @@
+import { Database } from '@/integrations/supabase/types';
+import { VARIANT_KEYS } from '@/lib/variantOdds';
+
+type CardRarity = Database['public']['Enums']['card_rarity'];
+
+export type RankingMode = 'points' | 'count';
+export type RankingEntry = Database['public']['Functions']['get_leaderboard']['Returns'][number];
+
+export const RARITY_KEYS: CardRarity[] = ['comum', 'raro', 'epico', 'lendario'];
+
+export const rarityLabels: Record<CardRarity, string> = {
+  comum: 'Comum',
+  raro: 'Raro',
+  epico: 'Épico',
+  lendario: 'Lendário',
+};
+
+// Variants that add a bonus on top of the rarity points
+export const BONUS_VARIANT_KEYS = VARIANT_KEYS.filter((key) => key !== 'comum');
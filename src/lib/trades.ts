@@ -0,0 +1,39 @@
+import { Database } from '@/integrations/supabase/types';
+
+export type TradeStatus = Database['public']['Enums']['trade_status'];
+export type TradeableCard = Database['public']['Functions']['get_tradeable_cards']['Returns'][number];
+
+// Mirrors the per-side cap enforced by propose_trade()
+export const MAX_TRADE_CARDS = 10;
+
+export const tradeStatusLabels: Record<TradeStatus, string> = {
+  pending: 'Pendente',
+  accepted: 'Aceita',
+  declined: 'Recusada',
+  cancelled: 'Cancelada',
+};
+
+export const tradeStatusColors: Record<TradeStatus, string> = {
+  pending: 'bg-amber-500/20 text-amber-500 border-amber-500',
+  accepted: 'bg-green-500/20 text-green-500 border-green-500',
+  declined: 'bg-destructive/20 text-destructive border-destructive',
+  cancelled: 'bg-muted text-muted-foreground',
+};
+
+// The trade functions raise English messages; members read them in Portuguese
+const tradeErrorMessages: Record<string, string> = {
+  'Choose another collector to trade with': 'Escolha outro colecionador para trocar.',
+  'A trade needs at least one card on each side': 'Selecione pelo menos um card de cada lado.',
+  'A trade can hold at most 10 cards on each side': `Selecione no máximo ${MAX_TRADE_CARDS} cards de cada lado.`,
+  'You can only offer cards you own': 'Você só pode oferecer cards que possui.',
+  'You can only ask for cards the other collector owns': 'O outro colecionador não possui mais um dos cards pedidos.',
+  'A card in this trade is no longer owned by its holder': 'Um dos cards desta troca mudou de dono.',
+  'Trading is disabled for this season': 'As trocas estão desativadas para esta temporada.',
+  'The trade would leave a collector with two cards of the same event':
+    'A troca deixaria um colecionador com dois cards do mesmo evento.',
+  'Trade is no longer pending': 'Esta troca já foi respondida.',
+  'Trade not found': 'Troca não encontrada.',
+};
+
+export const describeTradeError = (error: { message: string }) =>
+  tradeErrorMessages[error.message] ?? error.message;
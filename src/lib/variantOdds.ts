@@ -0,0 +1,89 @@
+import { z } from 'zod';
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+
+type CardVariant = Database['public']['Enums']['card_variant'];
+type DropTableRow = Database['public']['Tables']['variant_drop_tables']['Row'];
+
+// Rarest first, the same order the server rolls them in
+export const VARIANT_KEYS: CardVariant[] = ['reliquia', 'holografica', 'edicao_diamante', 'comum'];
+
+export const variantLabels: Record<CardVariant, string> = {
+  reliquia: 'Relíquia',
+  holografica: 'Holográfica',
+  edicao_diamante: 'Diamante',
+  comum: 'Comum',
+};
+
+// Global odds used by roll_variant() when neither the event nor its season has a drop table
+export const DEFAULT_VARIANT_ODDS: Record<CardVariant, number> = {
+  reliquia: 3,
+  holografica: 7,
+  edicao_diamante: 12,
+  comum: 78,
+};
+
+export const sumVariantOdds = (odds: Partial<Record<CardVariant, number>>) =>
+  VARIANT_KEYS.reduce((total, key) => total + (Number(odds[key]) || 0), 0);
+
+const oddsField = z.coerce
+  .number({ invalid_type_error: 'Informe um número' })
+  .min(0, 'Mínimo 0%')
+  .max(100, 'Máximo 100%');
+
+export const variantOddsSchema = z
+  .object({
+    custom: z.boolean(),
+    reliquia: oddsField,
+    holografica: oddsField,
+    edicao_diamante: oddsField,
+    comum: oddsField,
+  })
+  .refine(
+    (odds) => !odds.custom || Math.abs(sumVariantOdds(odds) - 100) < 0.001,
+    { message: 'As probabilidades devem somar 100%' },
+  );
+
+export type VariantOddsFormData = z.infer<typeof variantOddsSchema>;
+
+export const toVariantOddsForm = (
+  row?: Pick<DropTableRow, CardVariant> | null,
+  fallback: Record<CardVariant, number> = DEFAULT_VARIANT_ODDS,
+): VariantOddsFormData => ({
+  custom: !!row,
+  reliquia: row?.reliquia ?? fallback.reliquia,
+  holografica: row?.holografica ?? fallback.holografica,
+  edicao_diamante: row?.edicao_diamante ?? fallback.edicao_diamante,
+  comum: row?.comum ?? fallback.comum,
+});
+
+/**
+ * Stores the drop table of a season or event, or removes it when the form is
+ * not using custom odds so the owner falls back to the next level.
+ */
+export const saveVariantOdds = async (
+  owner: { season_id: string } | { event_id: string },
+  odds: VariantOddsFormData,
+) => {
+  const [column, id] = 'event_id' in owner
+    ? ['event_id', owner.event_id] as const
+    : ['season_id', owner.season_id] as const;
+
+  if (!odds.custom) {
+    const { error } = await supabase.from('variant_drop_tables').delete().eq(column, id);
+    if (error) throw error;
+    return;
+  }
+
+  const { error } = await supabase.from('variant_drop_tables').upsert(
+    {
+      [column]: id,
+      reliquia: odds.reliquia,
+      holografica: odds.holografica,
+      edicao_diamante: odds.edicao_diamante,
+      comum: odds.comum,
+    },
+    { onConflict: column },
+  );
+  if (error) throw error;
+};
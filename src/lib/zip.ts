@@ -0,0 +1,67 @@
+// Minimal zip reader for card image bundles. Handles stored and deflated
+// entries (what every common zip tool writes); zip64 archives are rejected.
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+
+const imageTypes: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+};
+
+/** Extracts the PNG and JPG files of a zip archive, dropping folder paths from their names. */
+export const extractZipImages = async (archive: File): Promise<File[]> => {
+  const buffer = await archive.arrayBuffer();
+  const view = new DataView(buffer);
+
+  // The end record sits after an optional comment of up to 64 KiB
+  let end = -1;
+  for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw new Error(`${archive.name} não é um arquivo zip válido`);
+
+  const entryCount = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const files: File[] = [];
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw new Error(`${archive.name} não é um arquivo zip válido`);
+    }
+
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const path = new TextDecoder().decode(new Uint8Array(buffer, offset + 46, nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    const name = path.split('/').pop();
+    const type = imageTypes[name.split('.').pop()?.toLowerCase() ?? ''];
+    if (!type || path.startsWith('__MACOSX/') || name.startsWith('.')) continue;
+
+    const dataStart =
+      localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const data = new Blob([buffer.slice(dataStart, dataStart + compressedSize)]);
+
+    let content: Blob;
+    if (method === 0) {
+      content = data;
+    } else if (method === 8) {
+      content = await new Response(data.stream().pipeThrough(new DecompressionStream('deflate-raw'))).blob();
+    } else {
+      throw new Error(`Compressão não suportada em ${path}`);
+    }
+
+    files.push(new File([content], name, { type }));
+  }
+
+  return files;
+};
@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useLocation, useNavigate } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
@@ -29,13 +29,16 @@ const Auth = () => {
   const [errors, setErrors] = useState<{ email?: string; password?: string; displayName?: string }>({});
   const { user, signIn, signUp, signOut } = useAuth();
   const navigate = useNavigate();
+  const location = useLocation();
   const { toast } = useToast();
+  // Pages that send visitors here to log in pass themselves along to come back to
+  const redirectTo = (location.state as { from?: string } | null)?.from ?? '/';
 
   useEffect(() => {
     if (user) {
-      navigate('/');
+      navigate(redirectTo);
     }
-  }, [user, navigate]);
+  }, [user, navigate, redirectTo]);
 
   const validateLoginForm = () => {
     try {
@@ -94,7 +97,7 @@ const Auth = () => {
         title: 'Bem-vindo de volta!',
         description: 'Login realizado com sucesso',
       });
-      navigate('/');
+      navigate(redirectTo);
     }
     setLoading(false);
   };
@@ -0,0 +1,167 @@
+import { useState } from 'react';
+import { Navigate, useLocation, useNavigate, useParams } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { motion } from 'framer-motion';
+import { formatDistanceToNow } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import Header from '@/components/layout/Header';
+import CardRevealAnimation from '@/components/redeem/CardRevealAnimation';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { toast } from 'sonner';
+import { Gift, Loader2, Sparkles } from 'lucide-react';
+import { variantLabels } from '@/lib/variantOdds';
+import { rarityLabels } from '@/lib/rankingPoints';
+import { describeGiftError, getGiftStatus, giftStatusColors, giftStatusLabels } from '@/lib/gifts';
+import { Database } from '@/integrations/supabase/types';
+
+type ClaimedCard = Database['public']['Functions']['claim_card_gift']['Returns'][number];
+
+const ClaimGift = () => {
+  const { token } = useParams<{ token: string }>();
+  const { user, loading: authLoading } = useAuth();
+  const location = useLocation();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [claimed, setClaimed] = useState<ClaimedCard | null>(null);
+  const [showReveal, setShowReveal] = useState(false);
+
+  const { data: gift, isLoading } = useQuery({
+    queryKey: ['card-gift', token],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_card_gift', { _token: token }).maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user && !!token,
+  });
+
+  const claimMutation = useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase.rpc('claim_card_gift', { _token: token }).single();
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['card-gift', token] });
+      queryClient.invalidateQueries({ queryKey: ['card-gifts'] });
+      queryClient.invalidateQueries({ queryKey: ['tradeable-cards'] });
+      queryClient.invalidateQueries({ queryKey: ['ranking'] });
+      queryClient.invalidateQueries({ queryKey: ['my-ranking'] });
+      setClaimed(data);
+      setShowReveal(true);
+    },
+    onError: (error) => {
+      queryClient.invalidateQueries({ queryKey: ['card-gift', token] });
+      toast.error('Erro ao resgatar presente: ' + describeGiftError(error));
+    },
+  });
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Sparkles className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/auth" replace state={{ from: location.pathname }} />;
+  }
+
+  const status = gift ? getGiftStatus(gift) : null;
+  const isOwnGift = gift?.sender_id === user.id;
+  const claimedByMe = gift?.recipient_id === user.id;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+
+      <main className="container mx-auto px-4 py-12 max-w-md">
+        <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }}>
+          <Card className="glass border-border/50">
+            <CardContent className="p-6 text-center space-y-4">
+              <Gift className="w-14 h-14 text-primary mx-auto" />
+
+              {isLoading ? (
+                <Loader2 className="w-8 h-8 animate-spin text-muted-foreground mx-auto" />
+              ) : !gift ? (
+                <p className="text-muted-foreground">
+                  Presente não encontrado. Confira se o link está completo.
+                </p>
+              ) : (
+                <>
+                  <div>
+                    <p className="text-sm text-muted-foreground">
+                      {isOwnGift ? 'Você está presenteando' : `${gift.sender_name || 'Alguém'} te enviou`}
+                    </p>
+                    <h1 className="font-display text-2xl font-bold mt-1">{gift.title}</h1>
+                    <p className="text-sm text-muted-foreground mt-1">
+                      {rarityLabels[gift.rarity]} · {variantLabels[gift.variant]}
+                    </p>
+                  </div>
+
+                  <Badge variant="outline" className={giftStatusColors[status]}>
+                    {giftStatusLabels[status]}
+                  </Badge>
+
+                  {status === 'pending' && (
+                    <p className="text-xs text-muted-foreground">
+                      Expira {formatDistanceToNow(new Date(gift.expires_at), { addSuffix: true, locale: ptBR })}
+                    </p>
+                  )}
+
+                  {status === 'pending' && !isOwnGift && (
+                    <Button
+                      className="w-full"
+                      disabled={claimMutation.isPending}
+                      onClick={() => claimMutation.mutate()}
+                    >
+                      {claimMutation.isPending ? (
+                        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      ) : (
+                        <Gift className="w-4 h-4 mr-2" />
+                      )}
+                      Resgatar Presente
+                    </Button>
+                  )}
+
+                  {status === 'pending' && isOwnGift && (
+                    <p className="text-sm text-muted-foreground">
+                      Compartilhe este link com quem vai receber o card.
+                    </p>
+                  )}
+
+                  {status === 'claimed' && claimedByMe && (
+                    <Button className="w-full" onClick={() => navigate('/')}>
+                      Ver minha coleção
+                    </Button>
+                  )}
+                </>
+              )}
+            </CardContent>
+          </Card>
+        </motion.div>
+      </main>
+
+      {claimed && (
+        <CardRevealAnimation
+          isOpen={showReveal}
+          onComplete={() => {
+            setShowReveal(false);
+            toast.success(`"${claimed.title}" agora faz parte da sua coleção!`);
+          }}
+          cardImage={claimed.card_image_url || ''}
+          cardTitle={claimed.title}
+          rarity={claimed.rarity}
+          variant={claimed.variant}
+        />
+      )}
+    </div>
+  );
+};
+
+export default ClaimGift;
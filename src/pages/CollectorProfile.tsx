@@ -0,0 +1,212 @@
+import { useMemo, useState } from 'react';
+import { Navigate, useParams } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { motion } from 'framer-motion';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import Header from '@/components/layout/Header';
+import TradeOfferDialog, { Collector } from '@/components/trades/TradeOfferDialog';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { ArrowLeftRight, Layers, Loader2, Sparkles, Star } from 'lucide-react';
+import { variantLabels } from '@/lib/variantOdds';
+import { rarityLabels } from '@/lib/rankingPoints';
+import { TradeableCard } from '@/lib/trades';
+import { useWishlist } from '@/hooks/use-wishlist';
+import { Database } from '@/integrations/supabase/types';
+
+interface WishedEvent {
+  id: string;
+  title: string;
+  rarity: Database['public']['Enums']['card_rarity'];
+  event_date: string;
+}
+
+const getInitials = (name: string | null) => (name ? name.substring(0, 2).toUpperCase() : '??');
+
+const CollectorProfile = () => {
+  const { userId } = useParams<{ userId: string }>();
+  const { user, loading: authLoading } = useAuth();
+  const [isOfferOpen, setIsOfferOpen] = useState(false);
+
+  const { data: profile, isLoading: profileLoading } = useQuery({
+    queryKey: ['collector-profile', userId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('profiles_public')
+        .select('user_id, display_name, avatar_url')
+        .eq('user_id', userId)
+        .maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user && !!userId,
+  });
+
+  const { data: wishlist = [] } = useWishlist(user ? userId : undefined);
+  const { data: myWishlist = [] } = useWishlist(user?.id);
+
+  const { data: wishedEvents, isLoading: wishedLoading } = useQuery({
+    queryKey: ['wishlist-events', userId, wishlist],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('events_public')
+        .select('id, title, rarity, event_date')
+        .in('id', wishlist)
+        .order('event_date', { ascending: false });
+      if (error) throw error;
+      return data as WishedEvent[];
+    },
+    enabled: wishlist.length > 0,
+  });
+
+  const { data: tradeableCards, isLoading: cardsLoading } = useQuery({
+    queryKey: ['tradeable-cards', userId],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_tradeable_cards', { _user_id: userId });
+      if (error) throw error;
+      return data as TradeableCard[];
+    },
+    enabled: !!user && !!userId,
+  });
+
+  const recipient = useMemo<Collector | null>(
+    () => (profile ? { user_id: profile.user_id, display_name: profile.display_name } : null),
+    [profile]
+  );
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Sparkles className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/auth" replace />;
+  }
+
+  const isSelf = user.id === userId;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+
+      <main className="container mx-auto px-4 py-8 max-w-4xl">
+        {profileLoading ? (
+          <div className="flex justify-center py-20">
+            <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : !profile ? (
+          <p className="text-center text-muted-foreground py-20">Colecionador não encontrado.</p>
+        ) : (
+          <div className="space-y-6">
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              className="flex flex-col md:flex-row md:items-center md:justify-between gap-4"
+            >
+              <div className="flex items-center gap-4">
+                <Avatar className="w-16 h-16 border-2 border-border">
+                  {profile.avatar_url ? (
+                    <img
+                      src={profile.avatar_url}
+                      alt={profile.display_name || 'User'}
+                      className="w-full h-full object-cover"
+                    />
+                  ) : (
+                    <AvatarFallback className="bg-primary/20 text-primary text-xl font-semibold">
+                      {getInitials(profile.display_name)}
+                    </AvatarFallback>
+                  )}
+                </Avatar>
+                <h1 className="text-3xl font-display font-bold">
+                  {profile.display_name || 'Usuário Anônimo'}
+                </h1>
+              </div>
+              {!isSelf && (
+                <Button onClick={() => setIsOfferOpen(true)} className="gap-2">
+                  <ArrowLeftRight className="w-4 h-4" />
+                  Propor Troca
+                </Button>
+              )}
+            </motion.div>
+
+            <Card className="glass border-border/50">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-lg">
+                  <Star className="w-5 h-5 fill-amber-400 text-amber-400" />
+                  Procurando
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {!wishlist.length ? (
+                  <p className="text-sm text-muted-foreground">Nenhum card na lista de desejos.</p>
+                ) : wishedLoading ? (
+                  <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+                ) : (
+                  <ul className="space-y-1">
+                    {wishedEvents?.map((event) => (
+                      <li key={event.id} className="text-sm">
+                        <span className="font-medium">{event.title}</span>
+                        <span className="text-muted-foreground">
+                          {' '}
+                          · {rarityLabels[event.rarity]} · {event.event_date.split('-').reverse().join('/')}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card className="glass border-border/50">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-lg">
+                  <Layers className="w-5 h-5 text-primary" />
+                  Disponíveis para troca
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {cardsLoading ? (
+                  <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+                ) : !tradeableCards?.length ? (
+                  <p className="text-sm text-muted-foreground">Nenhum card disponível para troca.</p>
+                ) : (
+                  <ul className="space-y-1">
+                    {tradeableCards.map((card) => (
+                      <li key={card.user_card_id} className="text-sm flex items-center gap-1">
+                        <span className="font-medium">{card.title}</span>
+                        <span className="text-muted-foreground">
+                          · {rarityLabels[card.rarity]} · {variantLabels[card.variant]}
+                        </span>
+                        {!isSelf && myWishlist.includes(card.event_id) && (
+                          <Star
+                            className="w-3 h-3 ml-1 fill-amber-400 text-amber-400"
+                            aria-label="Na sua lista de desejos"
+                          />
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </main>
+
+      {!isSelf && (
+        <TradeOfferDialog
+          open={isOfferOpen}
+          onOpenChange={setIsOfferOpen}
+          initialRecipient={recipient}
+        />
+      )}
+    </div>
+  );
+};
+
+export default CollectorProfile;
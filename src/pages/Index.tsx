@@ -1,12 +1,16 @@
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { motion } from 'framer-motion';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
 import Header from '@/components/layout/Header';
 import CollectibleCard, { CardRarity, CardVariant } from '@/components/cards/CollectibleCard';
 import CardDetailModal from '@/components/cards/CardDetailModal';
+import GiftCardDialog from '@/components/cards/GiftCardDialog';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Sparkles, Calendar, ArrowUpDown } from 'lucide-react';
+import { Sparkles, Calendar, ArrowUpDown, Filter } from 'lucide-react';
+import { toast } from 'sonner';
+import { variantLabels } from '@/lib/variantOdds';
+import { useToggleWish, useWishlist } from '@/hooks/use-wishlist';
 
 interface Season {
   id: string;
@@ -18,12 +22,13 @@ interface Season {
 interface Event {
   id: string;
   title: string;
-  card_image_url: string;
+  card_image_url: string | null;
   rarity: CardRarity;
   event_date: string;
   preacher: string | null;
   theme: string | null;
   redemption_deadline: string;
+  redemption_opens_at: string | null;
   season_id: string;
 }
 
@@ -33,6 +38,10 @@ interface UserCard {
 }
 
 type SortOption = 'date_desc' | 'date_asc' | 'rarity_desc' | 'rarity_asc';
+type FilterOption = 'all' | 'collected' | 'missing' | 'wishlist';
+
+// Season selector value that lists every season's cards together
+const ALL_SEASONS = 'all';
 
 const rarityOrder: Record<CardRarity, number> = {
   comum: 1,
@@ -47,27 +56,55 @@ const Index = () => {
   const [selectedSeason, setSelectedSeason] = useState<string>('');
   const [events, setEvents] = useState<Event[]>([]);
   const [userCards, setUserCards] = useState<UserCard[]>([]);
+  // Spare copies per event, on top of the card in userCards
+  const [copyCounts, setCopyCounts] = useState<Record<string, number>>({});
+  const [isFusing, setIsFusing] = useState(false);
   const [loading, setLoading] = useState(true);
   const [sortBy, setSortBy] = useState<SortOption>('date_desc');
+  const [filter, setFilter] = useState<FilterOption>('all');
+  const { data: wishlist = [] } = useWishlist(user?.id);
+  const toggleWish = useToggleWish();
   
   // Modal state
   const [selectedCard, setSelectedCard] = useState<{
     id: string;
     title: string;
-    imageUrl: string;
+    imageUrl: string | null;
     rarity: CardRarity;
     variant: CardVariant;
     eventDate: string;
     preacher?: string;
     theme?: string;
   } | null>(null);
+  const [giftCard, setGiftCard] = useState<{ id: string; title: string } | null>(null);
+
+  const fetchUserCards = useCallback(async () => {
+    if (!user) return;
+    const { data } = await supabase.from('user_cards').select('event_id, variant').eq('user_id', user.id);
+    if (data) setUserCards(data as UserCard[]);
+  }, [user]);
+
+  const fetchCardCopies = useCallback(async () => {
+    if (!user) return;
+    const { data } = await supabase
+      .from('card_copies')
+      .select('event_id')
+      .eq('user_id', user.id)
+      .is('consumed_at', null);
+    if (data) {
+      const counts: Record<string, number> = {};
+      data.forEach((copy) => (counts[copy.event_id] = (counts[copy.event_id] || 0) + 1));
+      setCopyCounts(counts);
+    }
+  }, [user]);
 
   useEffect(() => {
     if (user) {
       fetchSeasons();
       fetchUserCards();
+      fetchCardCopies();
     }
-  }, [user]);
+  }, [user, fetchUserCards, fetchCardCopies]);
 
   useEffect(() => {
     if (selectedSeason) {
@@ -85,14 +122,36 @@ const Index = () => {
   };
 
   const fetchEvents = async (seasonId: string) => {
-    const { data } = await supabase.from('events').select('*').eq('season_id', seasonId).order('event_date', { ascending: false });
+    // events_public hides codes, unpublished events and artwork of cards not yet earned
+    let query = supabase.from('events_public').select('*');
+    if (seasonId !== ALL_SEASONS) query = query.eq('season_id', seasonId);
+    const { data } = await query.order('event_date', { ascending: false });
     if (data) setEvents(data as Event[]);
   };
 
-  const fetchUserCards = async () => {
-    if (!user) return;
-    const { data } = await supabase.from('user_cards').select('event_id, variant').eq('user_id', user.id);
-    if (data) setUserCards(data as UserCard[]);
+  const handleFuse = async () => {
+    if (!selectedCard) return;
+
+    setIsFusing(true);
+    const { data, error } = await supabase
+      .rpc('fuse_card_copies', { _event_id: selectedCard.id })
+      .single();
+    setIsFusing(false);
+
+    if (error) {
+      toast.error('Erro ao fundir cópias: ' + error.message);
+      return;
+    }
+
+    if (data.upgraded) {
+      toast.success(`Seu card agora é ${variantLabels[data.variant]}!`);
+      setSelectedCard({ ...selectedCard, variant: data.variant });
+    } else {
+      toast.success(`A fusão rendeu uma cópia ${variantLabels[data.variant]}.`);
+    }
+
+    fetchUserCards();
+    fetchCardCopies();
   };
 
   const getCardVariant = (eventId: string): CardVariant => {
@@ -103,7 +162,22 @@ const Index = () => {
   const isCardRedeemed = (eventId: string) => userCards.some(uc => uc.event_id === eventId);
   const collectedCount = events.filter(e => isCardRedeemed(e.id)).length;
 
-  const sortedEvents = [...events].sort((a, b) => {
+  const isWished = (eventId: string) => wishlist.includes(eventId);
+
+  const filteredEvents = events.filter((event) => {
+    switch (filter) {
+      case 'collected':
+        return isCardRedeemed(event.id);
+      case 'missing':
+        return !isCardRedeemed(event.id);
+      case 'wishlist':
+        return isWished(event.id);
+      default:
+        return true;
+    }
+  });
+
+  const sortedEvents = [...filteredEvents].sort((a, b) => {
     switch (sortBy) {
       case 'date_desc':
         return new Date(b.event_date).getTime() - new Date(a.event_date).getTime();
@@ -162,6 +236,18 @@ const Index = () => {
             <p className="text-muted-foreground">{collectedCount} de {events.length} cards coletados</p>
           </div>
           <div className="flex flex-col sm:flex-row gap-2">
+            <Select value={filter} onValueChange={(v) => setFilter(v as FilterOption)}>
+              <SelectTrigger className="w-full sm:w-48 glass border border-foreground/20">
+                <Filter className="w-4 h-4 mr-2" />
+                <SelectValue placeholder="Filtrar" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Todos os cards</SelectItem>
+                <SelectItem value="collected">Coletados</SelectItem>
+                <SelectItem value="missing">Faltando</SelectItem>
+                <SelectItem value="wishlist">Lista de desejos</SelectItem>
+              </SelectContent>
+            </Select>
             <Select value={sortBy} onValueChange={(v) => setSortBy(v as SortOption)}>
               <SelectTrigger className="w-full sm:w-48 glass border border-foreground/20">
                 <ArrowUpDown className="w-4 h-4 mr-2" />
@@ -181,6 +267,7 @@ const Index = () => {
                   <SelectValue placeholder="Selecione a temporada" />
                 </SelectTrigger>
                 <SelectContent>
+                  <SelectItem value={ALL_SEASONS}>Todas as temporadas</SelectItem>
                   {seasons.map(s => (
                     <SelectItem key={s.id} value={s.id}>{s.name}</SelectItem>
                   ))}
@@ -195,6 +282,17 @@ const Index = () => {
             <Sparkles className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
             <p className="text-muted-foreground">Nenhum card disponível nesta temporada ainda.</p>
           </div>
+        ) : sortedEvents.length === 0 ? (
+          <div className="text-center py-20">
+            <Sparkles className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
+            <p className="text-muted-foreground">
+              {filter === 'wishlist'
+                ? 'Sua lista de desejos está vazia. Marque com a estrela os cards que você perdeu.'
+                : filter === 'missing'
+                  ? 'Você já tem todos estes cards!'
+                  : 'Nenhum card encontrado com este filtro.'}
+            </p>
+          </div>
         ) : (
           <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4 md:gap-6">
             {sortedEvents.map((event, i) => (
@@ -209,7 +307,11 @@ const Index = () => {
                   preacher={event.preacher || undefined}
                   theme={event.theme || undefined}
                   isRedeemed={isCardRedeemed(event.id)}
+                  copies={copyCounts[event.id] || 0}
                   redemptionDeadline={new Date(event.redemption_deadline)}
+                  redemptionOpensAt={event.redemption_opens_at ? new Date(event.redemption_opens_at) : undefined}
+                  isWished={isWished(event.id)}
+                  onToggleWish={() => toggleWish.mutate({ eventId: event.id, wished: !isWished(event.id) })}
                   onClick={() => handleCardClick(event)}
                 />
               </motion.div>
@@ -223,6 +325,19 @@ const Index = () => {
         isOpen={!!selectedCard}
         onClose={() => setSelectedCard(null)}
         card={selectedCard}
+        copies={selectedCard ? copyCounts[selectedCard.id] || 0 : 0}
+        onFuse={handleFuse}
+        isFusing={isFusing}
+        onGift={() => {
+          setGiftCard(selectedCard);
+          setSelectedCard(null);
+        }}
+      />
+
+      <GiftCardDialog
+        open={!!giftCard}
+        onOpenChange={(open) => !open && setGiftCard(null)}
+        card={giftCard}
       />
     </div>
   );
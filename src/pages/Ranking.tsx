@@ -1,8 +1,10 @@
-import { useState } from 'react';
-import { useQuery } from '@tanstack/react-query';
+import { useEffect, useRef, useState } from 'react';
+import { useInfiniteQuery, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Link } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
+import { useCardRedemptions } from '@/hooks/use-card-redemptions';
 import Header from '@/components/layout/Header';
 import { Card, CardContent } from '@/components/ui/card';
 import {
@@ -13,96 +15,164 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
-import { Trophy, Medal, Award, Crown, Sparkles } from 'lucide-react';
-
-interface RankingUser {
-  user_id: string;
-  display_name: string | null;
-  avatar_url: string | null;
-  card_count: number;
-}
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import HallOfFame from '@/components/ranking/HallOfFame';
+import { Trophy, Medal, Award, Crown, Sparkles, Star, Loader2, TrendingUp, Lock } from 'lucide-react';
+import { variantLabels } from '@/lib/variantOdds';
+import {
+  RankingMode,
+  RankingEntry,
+  RARITY_KEYS,
+  BONUS_VARIANT_KEYS,
+  rarityLabels,
+} from '@/lib/rankingPoints';
 
 interface Season {
   id: string;
   name: string;
+  closed_at: string | null;
 }
 
+const RANKING_PAGE_SIZE = 25;
+// Bursts of redemptions at the end of a service are refetched together
+const LIVE_REFRESH_DELAY_MS = 1000;
+
 const Ranking = () => {
   const { user } = useAuth();
+  const queryClient = useQueryClient();
   const [selectedSeason, setSelectedSeason] = useState<string>('all');
+  const [mode, setMode] = useState<RankingMode>('points');
+  const [view, setView] = useState<'ranking' | 'hall-of-fame'>('ranking');
 
   const { data: seasons } = useQuery({
     queryKey: ['seasons'],
     queryFn: async () => {
       const { data, error } = await supabase
         .from('seasons')
-        .select('id, name')
+        .select('id, name, closed_at')
         .order('start_date', { ascending: false });
       if (error) throw error;
       return data as Season[];
     },
   });
 
-  const { data: ranking, isLoading } = useQuery({
-    queryKey: ['ranking', selectedSeason],
-    queryFn: async () => {
-      // Use the secure ranking_view instead of directly querying user_cards
-      let query = supabase
-        .from('ranking_view')
-        .select('user_id, display_name, avatar_url, season_id, card_count');
-
-      if (selectedSeason !== 'all') {
-        query = query.eq('season_id', selectedSeason);
-      }
+  const seasonId = selectedSeason === 'all' ? null : selectedSeason;
+  const closedSeason = seasons?.find((season) => season.id === seasonId && season.closed_at);
 
-      const { data, error } = await query;
+  const {
+    data,
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: ['ranking', selectedSeason, mode],
+    queryFn: async ({ pageParam }) => {
+      // Ranks, ties and tiebreakers are computed on the server so every client agrees
+      const { data, error } = await supabase.rpc('get_leaderboard', {
+        _season_id: seasonId,
+        _mode: mode,
+        _page: pageParam,
+        _page_size: RANKING_PAGE_SIZE,
+      });
 
       if (error) throw error;
+      return data as RankingEntry[];
+    },
+    initialPageParam: 0,
+    getNextPageParam: (lastPage, allPages) => {
+      const loaded = allPages.reduce((total, page) => total + page.length, 0);
+      return loaded < (lastPage[0]?.total_count ?? 0) ? allPages.length : undefined;
+    },
+  });
 
-      // Aggregate card counts per user (in case of multiple seasons)
-      const userTotals: Record<string, RankingUser> = {};
-      
-      data?.forEach((row) => {
-        if (!userTotals[row.user_id]) {
-          userTotals[row.user_id] = {
-            user_id: row.user_id,
-            display_name: row.display_name,
-            avatar_url: row.avatar_url,
-            card_count: 0,
-          };
-        }
-        userTotals[row.user_id].card_count += row.card_count;
+  const ranking = data?.pages.flat();
+
+  // The caller's own row and the members right around it, even when off-page
+  const { data: myRanking } = useQuery({
+    queryKey: ['my-ranking', selectedSeason, mode, user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_my_ranking', {
+        _season_id: seasonId,
+        _mode: mode,
+        _neighbours: 1,
       });
 
-      // Convert to array and sort by card count
-      return Object.values(userTotals).sort((a, b) => b.card_count - a.card_count);
+      if (error) throw error;
+      return data as RankingEntry[];
     },
+    enabled: !!user,
   });
 
-  const getRankIcon = (position: number) => {
-    switch (position) {
-      case 0:
-        return <Crown className="w-6 h-6 text-rarity-legendary" />;
+  const refreshTimeout = useRef<ReturnType<typeof setTimeout>>();
+
+  // Closed seasons are frozen, so only live leaderboards follow redemptions
+  useCardRedemptions(
+    (redemption) => {
+      if (seasonId && redemption.season_id !== seasonId) return;
+      if (refreshTimeout.current) return;
+
+      refreshTimeout.current = setTimeout(() => {
+        refreshTimeout.current = undefined;
+        queryClient.invalidateQueries({ queryKey: ['ranking', selectedSeason] });
+        queryClient.invalidateQueries({ queryKey: ['my-ranking', selectedSeason] });
+      }, LIVE_REFRESH_DELAY_MS);
+    },
+    view === 'ranking' && !closedSeason
+  );
+
+  useEffect(() => () => clearTimeout(refreshTimeout.current), []);
+
+  const me = myRanking?.find((entry) => entry.user_id === user?.id);
+  const ahead = me && myRanking?.find((entry) => entry.list_position === me.list_position - 1);
+  const score = (entry: RankingEntry) => (mode === 'points' ? entry.points : entry.card_count);
+
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const node = loadMoreRef.current;
+    if (!node || !hasNextPage) return;
+
+    const observer = new IntersectionObserver(
+      ([entry]) => {
+        if (entry.isIntersecting && !isFetchingNextPage) fetchNextPage();
+      },
+      { rootMargin: '200px' }
+    );
+    observer.observe(node);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  const isTied = (index: number) =>
+    !!ranking &&
+    (ranking[index - 1]?.rank === ranking[index].rank || ranking[index + 1]?.rank === ranking[index].rank);
+
+  const getRankIcon = (rank: number) => {
+    switch (rank) {
       case 1:
-        return <Medal className="w-6 h-6 text-gray-400" />;
+        return <Crown className="w-6 h-6 text-rarity-legendary" />;
       case 2:
+        return <Medal className="w-6 h-6 text-gray-400" />;
+      case 3:
         return <Award className="w-6 h-6 text-amber-600" />;
       default:
         return (
           <span className="w-6 h-6 flex items-center justify-center text-sm font-bold text-muted-foreground">
-            {position + 1}
+            {rank}
           </span>
         );
     }
   };
 
-  const getRankStyle = (position: number) => {
-    switch (position) {
-      case 0:
-        return 'border-rarity-legendary/50 bg-rarity-legendary/5';
+  const getRankStyle = (rank: number) => {
+    switch (rank) {
       case 1:
-        return 'border-gray-400/50 bg-gray-400/5';
+        return 'border-rarity-legendary/50 bg-rarity-legendary/5';
       case 2:
+        return 'border-gray-400/50 bg-gray-400/5';
+      case 3:
         return 'border-amber-600/50 bg-amber-600/5';
       default:
         return 'border-border/50';
@@ -135,122 +205,249 @@ const Ranking = () => {
               </p>
             </div>
 
-            <Select value={selectedSeason} onValueChange={setSelectedSeason}>
-              <SelectTrigger className="w-[200px] glass">
-                <SelectValue placeholder="Filtrar por temporada" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="all">Todas as Temporadas</SelectItem>
-                {seasons?.map((season) => (
-                  <SelectItem key={season.id} value={season.id}>
-                    {season.name}
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
+            {view === 'ranking' && (
+              <div className="flex flex-wrap items-center gap-3">
+                <ToggleGroup
+                  type="single"
+                  value={mode}
+                  onValueChange={(value) => value && setMode(value as RankingMode)}
+                  className="glass rounded-md p-1"
+                >
+                  <ToggleGroupItem value="points" size="sm">
+                    Por pontos
+                  </ToggleGroupItem>
+                  <ToggleGroupItem value="count" size="sm">
+                    Por cards
+                  </ToggleGroupItem>
+                </ToggleGroup>
+
+                <Select value={selectedSeason} onValueChange={setSelectedSeason}>
+                  <SelectTrigger className="w-[200px] glass">
+                    <SelectValue placeholder="Filtrar por temporada" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Todas as Temporadas</SelectItem>
+                    {seasons?.map((season) => (
+                      <SelectItem key={season.id} value={season.id}>
+                        {season.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
           </div>
         </motion.div>
 
-        {isLoading ? (
-          <div className="space-y-3">
-            {[1, 2, 3, 4, 5].map((i) => (
-              <Card key={i} className="glass animate-pulse">
-                <CardContent className="p-4 flex items-center gap-4">
-                  <div className="w-6 h-6 bg-muted rounded" />
-                  <div className="w-12 h-12 bg-muted rounded-full" />
-                  <div className="flex-1">
-                    <div className="h-5 bg-muted rounded w-32 mb-2" />
-                    <div className="h-4 bg-muted rounded w-20" />
-                  </div>
-                </CardContent>
-              </Card>
-            ))}
-          </div>
-        ) : !ranking?.length ? (
-          <Card className="glass border-dashed">
-            <CardContent className="flex flex-col items-center justify-center py-12">
-              <Trophy className="w-12 h-12 text-muted-foreground mb-4" />
-              <p className="text-muted-foreground text-center">
-                Nenhum card resgatado ainda.
-                <br />
-                Seja o primeiro a colecionar!
+        <Tabs value={view} onValueChange={(value) => setView(value as typeof view)}>
+          <TabsList className="glass mb-6">
+            <TabsTrigger value="ranking">Classificação</TabsTrigger>
+            <TabsTrigger value="hall-of-fame" className="gap-1">
+              <Crown className="w-4 h-4" />
+              Hall da Fama
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="hall-of-fame">
+            <HallOfFame />
+          </TabsContent>
+
+          <TabsContent value="ranking">
+            {closedSeason && (
+              <p className="text-sm text-muted-foreground flex items-center gap-2 mb-4">
+                <Lock className="w-4 h-4" />
+                Classificação final — temporada encerrada em{' '}
+                {new Date(closedSeason.closed_at).toLocaleDateString('pt-BR')}
               </p>
-            </CardContent>
-          </Card>
-        ) : (
-          <div className="space-y-3">
-            <AnimatePresence>
-              {ranking.map((rankUser, index) => (
-                <motion.div
-                  key={rankUser.user_id}
-                  initial={{ opacity: 0, x: -20 }}
-                  animate={{ opacity: 1, x: 0 }}
-                  exit={{ opacity: 0, x: 20 }}
-                  transition={{ delay: index * 0.05 }}
-                >
-                  <Card
-                    className={`glass transition-all hover:scale-[1.01] ${getRankStyle(index)} ${
-                      user?.id === rankUser.user_id ? 'ring-2 ring-primary' : ''
-                    }`}
-                  >
+            )}
+
+
+            {isLoading ? (
+              <div className="space-y-3">
+                {[1, 2, 3, 4, 5].map((i) => (
+                  <Card key={i} className="glass animate-pulse">
                     <CardContent className="p-4 flex items-center gap-4">
-                      <div className="w-10 flex justify-center">
-                        {getRankIcon(index)}
+                      <div className="w-6 h-6 bg-muted rounded" />
+                      <div className="w-12 h-12 bg-muted rounded-full" />
+                      <div className="flex-1">
+                        <div className="h-5 bg-muted rounded w-32 mb-2" />
+                        <div className="h-4 bg-muted rounded w-20" />
                       </div>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            ) : !ranking?.length ? (
+              <Card className="glass border-dashed">
+                <CardContent className="flex flex-col items-center justify-center py-12">
+                  <Trophy className="w-12 h-12 text-muted-foreground mb-4" />
+                  <p className="text-muted-foreground text-center">
+                    Nenhum card resgatado ainda.
+                    <br />
+                    Seja o primeiro a colecionar!
+                  </p>
+                </CardContent>
+              </Card>
+            ) : (
+              <div className="space-y-3">
+                <AnimatePresence>
+                  {ranking.map((rankUser, index) => (
+                    <motion.div
+                      key={rankUser.user_id}
+                      layout="position"
+                      initial={{ opacity: 0, x: -20 }}
+                      animate={{ opacity: 1, x: 0 }}
+                      exit={{ opacity: 0, x: 20 }}
+                      transition={{
+                        delay: (index % RANKING_PAGE_SIZE) * 0.05,
+                        layout: { type: 'spring', stiffness: 300, damping: 30 },
+                      }}
+                    >
+                      <Card
+                        className={`glass transition-all hover:scale-[1.01] ${getRankStyle(rankUser.rank)} ${
+                          user?.id === rankUser.user_id ? 'ring-2 ring-primary' : ''
+                        }`}
+                      >
+                        <CardContent className="p-4 flex items-center gap-4">
+                          <div className="w-10 flex justify-center">
+                            {getRankIcon(rankUser.rank)}
+                          </div>
                       
-                      <Avatar className="w-12 h-12 border-2 border-border">
-                        {rankUser.avatar_url ? (
-                          <img
-                            src={rankUser.avatar_url}
-                            alt={rankUser.display_name || 'User'}
-                            className="w-full h-full object-cover"
-                          />
-                        ) : (
-                          <AvatarFallback className="bg-primary/20 text-primary font-semibold">
-                            {getInitials(rankUser.display_name)}
-                          </AvatarFallback>
-                        )}
-                      </Avatar>
-
-                      <div className="flex-1 min-w-0">
-                        <div className="flex items-center gap-2">
-                          <p className="font-semibold truncate">
-                            {rankUser.display_name || 'Usuário Anônimo'}
-                          </p>
-                          {user?.id === rankUser.user_id && (
-                            <span className="text-xs bg-primary/20 text-primary px-2 py-0.5 rounded-full">
-                              Você
-                            </span>
+                          <Avatar className="w-12 h-12 border-2 border-border">
+                            {rankUser.avatar_url ? (
+                              <img
+                                src={rankUser.avatar_url}
+                                alt={rankUser.display_name || 'User'}
+                                className="w-full h-full object-cover"
+                              />
+                            ) : (
+                              <AvatarFallback className="bg-primary/20 text-primary font-semibold">
+                                {getInitials(rankUser.display_name)}
+                              </AvatarFallback>
+                            )}
+                          </Avatar>
+
+                          <div className="flex-1 min-w-0">
+                            <div className="flex items-center gap-2">
+                              <Link
+                                to={`/collectors/${rankUser.user_id}`}
+                                className="font-semibold truncate hover:underline"
+                              >
+                                {rankUser.display_name || 'Usuário Anônimo'}
+                              </Link>
+                              {user?.id === rankUser.user_id && (
+                                <span className="text-xs bg-primary/20 text-primary px-2 py-0.5 rounded-full">
+                                  Você
+                                </span>
+                              )}
+                              {isTied(index) && (
+                                <span className="text-xs bg-muted text-muted-foreground px-2 py-0.5 rounded-full">
+                                  Empate
+                                </span>
+                              )}
+                            </div>
+                            <div className="text-sm text-muted-foreground flex items-center gap-3">
+                              <Tooltip>
+                                <TooltipTrigger asChild>
+                                  <span
+                                    className={`flex items-center gap-1 cursor-help ${
+                                      mode === 'points' ? 'text-foreground font-medium' : ''
+                                    }`}
+                                  >
+                                    <Star className="w-3 h-3" />
+                                    {rankUser.points} pts
+                                  </span>
+                                </TooltipTrigger>
+                                <TooltipContent className="text-xs space-y-1">
+                                  {RARITY_KEYS.filter((rarity) => rankUser[`${rarity}_count`] > 0).map((rarity) => (
+                                    <p key={rarity}>
+                                      {rankUser[`${rarity}_count`]}× {rarityLabels[rarity]}
+                                    </p>
+                                  ))}
+                                  {BONUS_VARIANT_KEYS.filter((variant) => rankUser[`${variant}_count`] > 0).map(
+                                    (variant) => (
+                                      <p key={variant} className="text-muted-foreground">
+                                        {rankUser[`${variant}_count`]}× {variantLabels[variant]}
+                                      </p>
+                                    )
+                                  )}
+                                  <p className="pt-1 border-t border-border/50">
+                                    Raridade {rankUser.rarity_points} pts + Variantes {rankUser.variant_points} pts
+                                  </p>
+                                </TooltipContent>
+                              </Tooltip>
+                              <span
+                                className={`flex items-center gap-1 ${
+                                  mode === 'count' ? 'text-foreground font-medium' : ''
+                                }`}
+                              >
+                                <Sparkles className="w-3 h-3" />
+                                {rankUser.card_count} {rankUser.card_count === 1 ? 'card' : 'cards'}
+                              </span>
+                            </div>
+                          </div>
+
+                          {rankUser.rank <= 3 && (
+                            <div className="hidden md:flex items-center gap-2">
+                              <div
+                                className={`px-3 py-1 rounded-full text-xs font-medium ${
+                                  rankUser.rank === 1
+                                    ? 'bg-rarity-legendary/20 text-rarity-legendary'
+                                    : rankUser.rank === 2
+                                    ? 'bg-gray-400/20 text-gray-400'
+                                    : 'bg-amber-600/20 text-amber-600'
+                                }`}
+                              >
+                                {rankUser.rank === 1 ? '🥇 1º Lugar' : rankUser.rank === 2 ? '🥈 2º Lugar' : '🥉 3º Lugar'}
+                              </div>
+                            </div>
                           )}
-                        </div>
-                        <p className="text-sm text-muted-foreground flex items-center gap-1">
-                          <Sparkles className="w-3 h-3" />
-                          {rankUser.card_count} {rankUser.card_count === 1 ? 'card' : 'cards'}
+                        </CardContent>
+                      </Card>
+                    </motion.div>
+                  ))}
+                </AnimatePresence>
+
+                <div ref={loadMoreRef} className="flex justify-center py-4">
+                  {isFetchingNextPage && <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />}
+                </div>
+              </div>
+            )}
+
+            {me && (
+              <div className="sticky bottom-4 mt-6">
+                <Card className="glass border-primary/50 shadow-lg">
+                  <CardContent className="p-4 flex flex-wrap items-center justify-between gap-3">
+                    <div className="flex items-center gap-3">
+                      <div className="w-10 flex justify-center">{getRankIcon(me.rank)}</div>
+                      <div>
+                        <p className="font-semibold">
+                          Você está em #{me.rank}
+                          <span className="text-muted-foreground font-normal"> de {me.total_count}</span>
+                        </p>
+                        <p className="text-sm text-muted-foreground">
+                          {me.points} pts · {me.card_count} {me.card_count === 1 ? 'card' : 'cards'}
                         </p>
                       </div>
-
-                      {index < 3 && (
-                        <div className="hidden md:flex items-center gap-2">
-                          <div
-                            className={`px-3 py-1 rounded-full text-xs font-medium ${
-                              index === 0
-                                ? 'bg-rarity-legendary/20 text-rarity-legendary'
-                                : index === 1
-                                ? 'bg-gray-400/20 text-gray-400'
-                                : 'bg-amber-600/20 text-amber-600'
-                            }`}
-                          >
-                            {index === 0 ? '🥇 1º Lugar' : index === 1 ? '🥈 2º Lugar' : '🥉 3º Lugar'}
-                          </div>
-                        </div>
-                      )}
-                    </CardContent>
-                  </Card>
-                </motion.div>
-              ))}
-            </AnimatePresence>
-          </div>
-        )}
+                    </div>
+                    {ahead && ahead.rank < me.rank && (
+                      <p className="text-sm text-muted-foreground flex items-center gap-1">
+                        <TrendingUp className="w-4 h-4 text-primary" />
+                        {score(ahead) > score(me)
+                          ? mode === 'points'
+                            ? `Faltam ${score(ahead) - score(me)} pts para alcançar o #${ahead.rank}`
+                            : `Faltam ${score(ahead) - score(me)} cards para alcançar o #${ahead.rank}`
+                          : mode === 'points'
+                            ? `Empatado em pontos com o #${ahead.rank}; faltam ${ahead.card_count - me.card_count} cards no desempate`
+                            : `Empatado em cards com o #${ahead.rank}; faltam ${ahead.points - me.points} pts no desempate`}
+                      </p>
+                    )}
+                  </CardContent>
+                </Card>
+              </div>
+            )}
+          </TabsContent>
+        </Tabs>
       </main>
     </div>
   );
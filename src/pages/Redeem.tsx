@@ -1,7 +1,9 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { useNavigate } from "react-router-dom";
-import { Gift, Loader2, CheckCircle, XCircle, Clock, Sparkles, QrCode, Keyboard } from "lucide-react";
+import { Gift, Loader2, CheckCircle, XCircle, Clock, Sparkles, QrCode, Keyboard, ShieldAlert, Hourglass } from "lucide-react";
+import { formatDistanceToNowStrict } from "date-fns";
+import { ptBR } from "date-fns/locale";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -12,8 +14,9 @@ import Header from "@/components/layout/Header";
 import ProtectedRoute from "@/components/layout/ProtectedRoute";
 import QRScanner from "@/components/scanner/QRScanner";
 import CardRevealAnimation from "@/components/redeem/CardRevealAnimation";
+import { formatDeadline } from "@/lib/deadline";
 
-type RedeemStatus = "idle" | "loading" | "success" | "error" | "expired" | "already_redeemed";
+type RedeemStatus = "idle" | "loading" | "success" | "error" | "expired" | "not_open" | "already_redeemed" | "rate_limited";
 
 export type CardVariant = "comum" | "holografica" | "edicao_diamante" | "reliquia";
 
@@ -24,30 +27,11 @@ interface RedeemResult {
   cardImage?: string;
   rarity?: string;
   variant?: CardVariant;
+  lockedUntil?: Date;
+  opensAt?: Date;
+  isExtraCopy?: boolean;
 }
 
-// Probabilidades de variante (soma = 100%)
-const VARIANT_PROBABILITIES: { variant: CardVariant; chance: number }[] = [
-  { variant: "reliquia", chance: 3 },       // 3% - mais raro
-  { variant: "holografica", chance: 7 },    // 7% - segundo mais raro
-  { variant: "edicao_diamante", chance: 12 }, // 12% - médio
-  { variant: "comum", chance: 78 },         // 78% - mais comum
-];
-
-const getRandomVariant = (): CardVariant => {
-  const random = Math.random() * 100;
-  let cumulative = 0;
-  
-  for (const { variant, chance } of VARIANT_PROBABILITIES) {
-    cumulative += chance;
-    if (random < cumulative) {
-      return variant;
-    }
-  }
-  
-  return "comum";
-};
-
 const getVariantMessage = (variant: CardVariant): string => {
   switch (variant) {
     case "reliquia":
@@ -71,6 +55,14 @@ const RedeemPage = () => {
   const { user } = useAuth();
   const { toast } = useToast();
   const navigate = useNavigate();
+  const [, setTick] = useState(0);
+
+  // Keep the "try again in X" / "opens in X" countdowns fresh
+  useEffect(() => {
+    if (result.status !== "rate_limited" && result.status !== "not_open") return;
+    const interval = setInterval(() => setTick((tick) => tick + 1), 1000);
+    return () => clearInterval(interval);
+  }, [result.status]);
 
   // Format input as YYY-ZZZ
   const handleCodeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -111,78 +103,78 @@ const RedeemPage = () => {
     setResult({ status: "loading", message: "Verificando código..." });
 
     try {
-      // Find event by redemption code
-      const { data: event, error: eventError } = await supabase
-        .from("events")
-        .select("*")
-        .eq("redemption_code", codeToUse)
-        .maybeSingle();
-
-      if (eventError) throw eventError;
-
-      if (!event) {
-        setResult({
-          status: "error",
-          message: "Código não encontrado. Verifique e tente novamente.",
-        });
-        return;
-      }
-
-      // Check if redemption deadline has passed
-      const now = new Date();
-      var deadline = new Date(event.redemption_deadline);
-      deadline.setHours(deadline.getHours() + 3)
-      
-      if (now > deadline) {
-        setResult({
-          status: "expired",
-          message: "O prazo de resgate para este card expirou.",
-        });
-        return;
-      }
-
-      // Check if user already redeemed this card
-      const { data: existingCard, error: checkError } = await supabase
-        .from("user_cards")
-        .select("id")
-        .eq("user_id", user.id)
-        .eq("event_id", event.id)
-        .maybeSingle();
-
-      if (checkError) throw checkError;
-
-      if (existingCard) {
-        setResult({
-          status: "already_redeemed",
-          message: "Você já resgatou este card!",
-          cardTitle: event.title,
-          cardImage: event.card_image_url,
-          rarity: event.rarity,
-        });
-        return;
+      // Validation, variant roll and insert all happen atomically on the server
+      const { data, error } = await supabase
+        .rpc("redeem_card", { _code: codeToUse })
+        .single();
+
+      if (error) throw error;
+
+      switch (data.status) {
+        case "rate_limited":
+          setResult({
+            status: "rate_limited",
+            message: "Muitas tentativas com códigos inválidos.",
+            lockedUntil: new Date(data.locked_until),
+          });
+          return;
+        case "not_found":
+          setResult({
+            status: "error",
+            message: "Código não encontrado. Verifique e tente novamente.",
+          });
+          return;
+        case "not_open":
+          setResult({
+            status: "not_open",
+            message: `O resgate de "${data.title}" ainda não foi aberto.`,
+            opensAt: new Date(data.opens_at),
+          });
+          return;
+        case "expired":
+          setResult({
+            status: "expired",
+            message: "O prazo de resgate para este card expirou.",
+          });
+          return;
+        case "code_used":
+          setResult({
+            status: "error",
+            message: "Este código já foi usado. Cada ticket vale um único resgate.",
+          });
+          return;
+        case "code_replaced":
+          setResult({
+            status: "error",
+            message: data.title
+              ? `Código substituído: o código de "${data.title}" foi trocado. Peça o novo código à equipe.`
+              : "Código substituído. Peça o novo código à equipe.",
+          });
+          return;
+        case "already_redeemed":
+          setResult({
+            status: "already_redeemed",
+            message: "Você já resgatou este card!",
+            cardTitle: data.title,
+            cardImage: data.card_image_url,
+            rarity: data.rarity,
+          });
+          return;
       }
 
-      // Determine random variant
-      const variant = getRandomVariant();
-
-      // Redeem the card with variant
-      const { error: redeemError } = await supabase
-        .from("user_cards")
-        .insert({
-          user_id: user.id,
-          event_id: event.id,
-          variant: variant,
-        });
-
-      if (redeemError) throw redeemError;
+      // Bonus events let owners roll extra copies; those reveal just like a first redemption
+      const isExtraCopy = data.status === "extra_copy";
 
       setResult({
         status: "success",
-        message: getVariantMessage(variant),
-        cardTitle: event.title,
-        cardImage: event.card_image_url,
-        rarity: event.rarity,
-        variant: variant,
+        message: isExtraCopy && data.variant === "comum"
+          ? "Você ganhou uma cópia extra deste card!"
+          : getVariantMessage(data.variant),
+        cardTitle: data.title,
+        cardImage: data.card_image_url,
+        rarity: data.rarity,
+        variant: data.variant,
+        isExtraCopy,
       });
 
       // Show reveal animation
@@ -216,8 +208,10 @@ const RedeemPage = () => {
   const handleRevealComplete = () => {
     setShowRevealAnimation(false);
     toast({
-      title: "🎉 Card Resgatado!",
-      description: `Você adicionou "${result.cardTitle}" à sua coleção!`,
+      title: result.isExtraCopy ? "🎉 Cópia Extra!" : "🎉 Card Resgatado!",
+      description: result.isExtraCopy
+        ? `Mais uma cópia de "${result.cardTitle}" foi para a sua coleção!`
+        : `Você adicionou "${result.cardTitle}" à sua coleção!`,
     });
   };
 
@@ -231,8 +225,12 @@ const RedeemPage = () => {
         return <XCircle className="h-16 w-16 text-destructive" />;
       case "expired":
         return <Clock className="h-16 w-16 text-yellow-500" />;
+      case "not_open":
+        return <Hourglass className="h-16 w-16 text-primary" />;
       case "already_redeemed":
         return <Sparkles className="h-16 w-16 text-primary" />;
+      case "rate_limited":
+        return <ShieldAlert className="h-16 w-16 text-destructive" />;
       default:
         return null;
     }
@@ -399,6 +397,22 @@ const RedeemPage = () => {
 
                       <p className="text-lg font-medium">{result.message}</p>
 
+                      {result.status === "rate_limited" && result.lockedUntil && (
+                        <p className="text-sm text-muted-foreground">
+                          {result.lockedUntil > new Date()
+                            ? `Tente novamente em ${formatDistanceToNowStrict(result.lockedUntil, { locale: ptBR })}.`
+                            : "Você já pode tentar novamente."}
+                        </p>
+                      )}
+
+                      {result.status === "not_open" && result.opensAt && (
+                        <p className="text-sm text-muted-foreground">
+                          {result.opensAt > new Date()
+                            ? `Abre em ${formatDistanceToNowStrict(result.opensAt, { locale: ptBR })} (${formatDeadline(result.opensAt)}).`
+                            : "O resgate já está aberto. Tente novamente."}
+                        </p>
+                      )}
+
                       {(result.status === "success" || result.status === "already_redeemed") && result.cardImage && (
                         <motion.div
                           initial={{ opacity: 0, y: 20 }}
@@ -0,0 +1,327 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { motion, AnimatePresence } from 'framer-motion';
+import { formatDistanceToNow } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Navigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import Header from '@/components/layout/Header';
+import TradeOfferDialog from '@/components/trades/TradeOfferDialog';
+import GiftHistory from '@/components/trades/GiftHistory';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { toast } from 'sonner';
+import { ArrowLeftRight, Check, Gift, Inbox, Loader2, Plus, Send, Sparkles, X } from 'lucide-react';
+import { variantLabels } from '@/lib/variantOdds';
+import { rarityLabels } from '@/lib/rankingPoints';
+import { tradeStatusColors, tradeStatusLabels, describeTradeError } from '@/lib/trades';
+import { Database } from '@/integrations/supabase/types';
+
+type Trade = Database['public']['Tables']['trades']['Row'] & {
+  trade_items: Database['public']['Tables']['trade_items']['Row'][];
+};
+
+interface TradeEvent {
+  id: string;
+  title: string;
+  rarity: Database['public']['Enums']['card_rarity'];
+}
+
+const Trades = () => {
+  const { user, loading: authLoading } = useAuth();
+  const queryClient = useQueryClient();
+  const [isOfferOpen, setIsOfferOpen] = useState(false);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['trades', user?.id],
+    queryFn: async () => {
+      const { data: trades, error } = await supabase
+        .from('trades')
+        .select('*, trade_items(*)')
+        .or(`proposer_id.eq.${user.id},recipient_id.eq.${user.id}`)
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+
+      const userIds = [...new Set(trades.flatMap((trade) => [trade.proposer_id, trade.recipient_id]))];
+      const eventIds = [...new Set(trades.flatMap((trade) => trade.trade_items.map((item) => item.event_id)))];
+
+      const [profilesResult, eventsResult] = await Promise.all([
+        supabase.from('profiles_public').select('user_id, display_name').in('user_id', userIds),
+        supabase.from('events_public').select('id, title, rarity').in('id', eventIds),
+      ]);
+      if (profilesResult.error) throw profilesResult.error;
+      if (eventsResult.error) throw eventsResult.error;
+
+      return {
+        trades: trades as Trade[],
+        names: new Map(profilesResult.data.map((profile) => [profile.user_id, profile.display_name])),
+        events: new Map((eventsResult.data as TradeEvent[]).map((event) => [event.id, event])),
+      };
+    },
+    enabled: !!user,
+  });
+
+  const onResponded = (message: string) => {
+    queryClient.invalidateQueries({ queryKey: ['trades'] });
+    queryClient.invalidateQueries({ queryKey: ['tradeable-cards'] });
+    queryClient.invalidateQueries({ queryKey: ['ranking'] });
+    queryClient.invalidateQueries({ queryKey: ['my-ranking'] });
+    toast.success(message);
+  };
+
+  const acceptMutation = useMutation({
+    mutationFn: async (tradeId: string) => {
+      const { error } = await supabase.rpc('accept_trade', { _trade_id: tradeId });
+      if (error) throw error;
+    },
+    onSuccess: () => onResponded('Troca realizada! Os cards já estão na sua coleção.'),
+    onError: (error) => {
+      queryClient.invalidateQueries({ queryKey: ['trades'] });
+      toast.error('Erro ao aceitar troca: ' + describeTradeError(error));
+    },
+  });
+
+  const declineMutation = useMutation({
+    mutationFn: async (tradeId: string) => {
+      const { error } = await supabase.rpc('decline_trade', { _trade_id: tradeId });
+      if (error) throw error;
+    },
+    onSuccess: () => onResponded('Troca recusada.'),
+    onError: (error) => {
+      toast.error('Erro ao recusar troca: ' + describeTradeError(error));
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (tradeId: string) => {
+      const { error } = await supabase.rpc('cancel_trade', { _trade_id: tradeId });
+      if (error) throw error;
+    },
+    onSuccess: () => onResponded('Proposta cancelada.'),
+    onError: (error) => {
+      toast.error('Erro ao cancelar proposta: ' + describeTradeError(error));
+    },
+  });
+
+  const isResponding = acceptMutation.isPending || declineMutation.isPending || cancelMutation.isPending;
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Sparkles className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/auth" replace />;
+  }
+
+  const trades = data?.trades ?? [];
+  const received = trades.filter((trade) => trade.status === 'pending' && trade.recipient_id === user.id);
+  const sent = trades.filter((trade) => trade.status === 'pending' && trade.proposer_id === user.id);
+  const history = trades.filter((trade) => trade.status !== 'pending');
+
+  const getName = (userId: string) => data?.names.get(userId) || 'Usuário Anônimo';
+
+  const renderItems = (items: Trade['trade_items']) => (
+    <ul className="space-y-1">
+      {items.map((item) => {
+        const event = data?.events.get(item.event_id);
+        return (
+          <li key={item.id} className="text-sm">
+            <span className="font-medium">{event?.title ?? 'Card indisponível'}</span>
+            <span className="text-muted-foreground">
+              {' '}
+              · {event ? `${rarityLabels[event.rarity]} · ` : ''}
+              {variantLabels[item.variant]}
+            </span>
+          </li>
+        );
+      })}
+    </ul>
+  );
+
+  const renderTrade = (trade: Trade, index: number) => {
+    const isProposer = trade.proposer_id === user.id;
+    const otherId = isProposer ? trade.recipient_id : trade.proposer_id;
+    const giving = trade.trade_items.filter((item) => item.owner_id === user.id);
+    const receiving = trade.trade_items.filter((item) => item.owner_id !== user.id);
+
+    return (
+      <motion.div
+        key={trade.id}
+        layout
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        exit={{ opacity: 0, scale: 0.95 }}
+        transition={{ delay: index * 0.05 }}
+      >
+        <Card className="glass border-border/50">
+          <CardContent className="p-4 space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div>
+                <p className="font-semibold">
+                  {isProposer ? `Para ${getName(otherId)}` : `De ${getName(otherId)}`}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {formatDistanceToNow(new Date(trade.created_at), { addSuffix: true, locale: ptBR })}
+                </p>
+              </div>
+              <Badge variant="outline" className={tradeStatusColors[trade.status]}>
+                {tradeStatusLabels[trade.status]}
+              </Badge>
+            </div>
+
+            <div className="grid md:grid-cols-[1fr_auto_1fr] gap-4 items-start">
+              <div>
+                <p className="text-xs uppercase text-muted-foreground mb-1">Você dá</p>
+                {renderItems(giving)}
+              </div>
+              <ArrowLeftRight className="w-5 h-5 text-primary hidden md:block mt-5" />
+              <div>
+                <p className="text-xs uppercase text-muted-foreground mb-1">Você recebe</p>
+                {renderItems(receiving)}
+              </div>
+            </div>
+
+            {trade.message && (
+              <p className="text-sm italic text-muted-foreground border-l-2 border-border pl-3">
+                {trade.message}
+              </p>
+            )}
+
+            {trade.status === 'pending' && (
+              <div className="flex gap-2 justify-end">
+                {isProposer ? (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={isResponding}
+                    onClick={() => cancelMutation.mutate(trade.id)}
+                  >
+                    <X className="w-4 h-4 mr-1" />
+                    Cancelar
+                  </Button>
+                ) : (
+                  <>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={isResponding}
+                      onClick={() => declineMutation.mutate(trade.id)}
+                    >
+                      <X className="w-4 h-4 mr-1" />
+                      Recusar
+                    </Button>
+                    <Button
+                      size="sm"
+                      disabled={isResponding}
+                      onClick={() => acceptMutation.mutate(trade.id)}
+                    >
+                      {acceptMutation.isPending && acceptMutation.variables === trade.id ? (
+                        <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                      ) : (
+                        <Check className="w-4 h-4 mr-1" />
+                      )}
+                      Aceitar
+                    </Button>
+                  </>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </motion.div>
+    );
+  };
+
+  const renderList = (list: Trade[], emptyText: string) =>
+    isLoading ? (
+      <div className="flex justify-center py-12">
+        <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+      </div>
+    ) : !list.length ? (
+      <Card className="glass border-dashed">
+        <CardContent className="flex flex-col items-center justify-center py-12">
+          <ArrowLeftRight className="w-12 h-12 text-muted-foreground mb-4" />
+          <p className="text-muted-foreground text-center">{emptyText}</p>
+        </CardContent>
+      </Card>
+    ) : (
+      <div className="space-y-3">
+        <AnimatePresence>{list.map(renderTrade)}</AnimatePresence>
+      </div>
+    );
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+
+      <main className="container mx-auto px-4 py-8 max-w-4xl">
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="mb-8 flex flex-col md:flex-row md:items-center md:justify-between gap-4"
+        >
+          <div>
+            <h1 className="text-3xl font-display font-bold flex items-center gap-3">
+              <ArrowLeftRight className="w-8 h-8 text-primary" />
+              Trocas
+            </h1>
+            <p className="text-muted-foreground mt-1">
+              Troque cards com outros colecionadores para completar sua coleção
+            </p>
+          </div>
+          <Button onClick={() => setIsOfferOpen(true)} className="gap-2">
+            <Plus className="w-4 h-4" />
+            Nova Proposta
+          </Button>
+        </motion.div>
+
+        <Tabs defaultValue="received">
+          <TabsList className="glass mb-6">
+            <TabsTrigger value="received" className="gap-1">
+              <Inbox className="w-4 h-4" />
+              Recebidas
+              {received.length > 0 && (
+                <span className="ml-1 text-xs bg-primary text-primary-foreground px-1.5 rounded-full">
+                  {received.length}
+                </span>
+              )}
+            </TabsTrigger>
+            <TabsTrigger value="sent" className="gap-1">
+              <Send className="w-4 h-4" />
+              Enviadas
+            </TabsTrigger>
+            <TabsTrigger value="history">Histórico</TabsTrigger>
+            <TabsTrigger value="gifts" className="gap-1">
+              <Gift className="w-4 h-4" />
+              Presentes
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="received">
+            {renderList(received, 'Nenhuma proposta aguardando sua resposta.')}
+          </TabsContent>
+          <TabsContent value="sent">
+            {renderList(sent, 'Você não tem propostas pendentes.')}
+          </TabsContent>
+          <TabsContent value="history">
+            {renderList(history, 'Nenhuma troca concluída ainda.')}
+          </TabsContent>
+          <TabsContent value="gifts">
+            <GiftHistory />
+          </TabsContent>
+        </Tabs>
+      </main>
+
+      <TradeOfferDialog open={isOfferOpen} onOpenChange={setIsOfferOpen} />
+    </div>
+  );
+};
+
+export default Trades;
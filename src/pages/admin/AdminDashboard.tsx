@@ -4,9 +4,12 @@ import { useAuth } from '@/contexts/AuthContext';
 import { Navigate } from 'react-router-dom';
 import Header from '@/components/layout/Header';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Calendar, Layers, BarChart3 } from 'lucide-react';
+import { Calendar, Layers, BarChart3, Award, ShieldAlert, Trophy } from 'lucide-react';
 import SeasonsManager from '@/components/admin/SeasonsManager';
 import EventsManager from '@/components/admin/EventsManager';
+import BadgesManager from '@/components/admin/BadgesManager';
+import RankingPointsManager from '@/components/admin/RankingPointsManager';
+import RedemptionFlags from '@/components/admin/RedemptionFlags';
 import AdminStats from '@/components/admin/AdminStats';
 
 const AdminDashboard = () => {
@@ -39,7 +42,7 @@ const AdminDashboard = () => {
             Painel Administrativo
           </h1>
           <p className="text-muted-foreground">
-            Gerencie temporadas, eventos e acompanhe as estatísticas
+            Gerencie temporadas, eventos, conquistas e acompanhe as estatísticas
           </p>
         </motion.div>
 
@@ -57,6 +60,18 @@ const AdminDashboard = () => {
               <Layers className="w-4 h-4" />
               Eventos / Cards
             </TabsTrigger>
+            <TabsTrigger value="badges" className="gap-2">
+              <Award className="w-4 h-4" />
+              Conquistas
+            </TabsTrigger>
+            <TabsTrigger value="ranking" className="gap-2">
+              <Trophy className="w-4 h-4" />
+              Pontuação
+            </TabsTrigger>
+            <TabsTrigger value="security" className="gap-2">
+              <ShieldAlert className="w-4 h-4" />
+              Segurança
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="stats">
@@ -70,6 +85,18 @@ const AdminDashboard = () => {
           <TabsContent value="events">
             <EventsManager />
           </TabsContent>
+
+          <TabsContent value="badges">
+            <BadgesManager />
+          </TabsContent>
+
+          <TabsContent value="ranking">
+            <RankingPointsManager />
+          </TabsContent>
+
+          <TabsContent value="security">
+            <RedemptionFlags />
+          </TabsContent>
         </Tabs>
       </main>
     </div>
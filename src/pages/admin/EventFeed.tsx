@@ -0,0 +1,215 @@
+import { useEffect, useRef, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { motion, AnimatePresence } from 'framer-motion';
+import { formatDistanceToNow } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Maximize, Minimize, Loader2, Sparkles } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import ProtectedRoute from '@/components/layout/ProtectedRoute';
+import { useCardRedemptions } from '@/hooks/use-card-redemptions';
+import { getRarityConfig, getVariantConfig } from '@/lib/cardStyles';
+import { VARIANT_KEYS, variantLabels } from '@/lib/variantOdds';
+import { Database } from '@/integrations/supabase/types';
+
+type CardVariant = Database['public']['Enums']['card_variant'];
+
+interface FeedItem {
+  user_id: string;
+  display_name: string | null;
+  variant: CardVariant;
+  redeemed_at: string;
+}
+
+// Older redemptions still count towards the totals, they just scroll off screen
+const VISIBLE_ITEMS = 20;
+
+const fetchDisplayNames = async (userIds: string[]) => {
+  if (!userIds.length) return new Map<string, string | null>();
+
+  const { data, error } = await supabase
+    .from('profiles_public')
+    .select('user_id, display_name')
+    .in('user_id', userIds);
+  if (error) throw error;
+
+  return new Map(data.map((profile) => [profile.user_id, profile.display_name]));
+};
+
+const EventFeed = () => {
+  const { eventId } = useParams<{ eventId: string }>();
+  const queryClient = useQueryClient();
+  const [isFullscreen, setIsFullscreen] = useState(false);
+  const [, setTick] = useState(0);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const { data: event } = useQuery({
+    queryKey: ['feed-event', eventId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('events')
+        .select('id, title, card_image_url, rarity')
+        .eq('id', eventId)
+        .single();
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!eventId,
+  });
+
+  const { data: feed, isLoading, isError } = useQuery({
+    queryKey: ['event-feed', eventId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('user_cards')
+        .select('user_id, variant, redeemed_at')
+        .eq('event_id', eventId)
+        .order('redeemed_at', { ascending: false });
+      if (error) throw error;
+
+      const names = await fetchDisplayNames(data.map((card) => card.user_id));
+      return data.map((card) => ({ ...card, display_name: names.get(card.user_id) ?? null }));
+    },
+    enabled: !!eventId,
+    refetchOnWindowFocus: false,
+  });
+
+  useCardRedemptions(async (redemption) => {
+    if (redemption.event_id !== eventId) return;
+
+    const names = await fetchDisplayNames([redemption.user_id]).catch(() => new Map());
+    const item: FeedItem = {
+      user_id: redemption.user_id,
+      display_name: names.get(redemption.user_id) ?? null,
+      variant: redemption.variant,
+      redeemed_at: redemption.redeemed_at,
+    };
+
+    // Upgrades show the better variant in place
+    queryClient.setQueryData<FeedItem[]>(['event-feed', eventId], (current = []) =>
+      current.some((entry) => entry.user_id === item.user_id)
+        ? current.map((entry) => (entry.user_id === item.user_id ? { ...entry, variant: item.variant } : entry))
+        : [item, ...current]
+    );
+    listRef.current?.scrollTo({ top: 0, behavior: 'smooth' });
+  }, !!eventId);
+
+  // Keeps the "há 2 minutos" labels current
+  useEffect(() => {
+    const interval = setInterval(() => setTick((tick) => tick + 1), 30000);
+    return () => clearInterval(interval);
+  }, []);
+
+  useEffect(() => {
+    const handleChange = () => setIsFullscreen(!!document.fullscreenElement);
+    document.addEventListener('fullscreenchange', handleChange);
+    return () => document.removeEventListener('fullscreenchange', handleChange);
+  }, []);
+
+  const toggleFullscreen = async () => {
+    if (document.fullscreenElement) {
+      await document.exitFullscreen();
+    } else {
+      await document.documentElement.requestFullscreen();
+    }
+  };
+
+  const rarityConfig = getRarityConfig(event?.rarity ?? 'comum');
+  const variantTotals = VARIANT_KEYS.map((variant) => ({
+    variant,
+    count: feed?.filter((item) => item.variant === variant).length ?? 0,
+  }));
+
+  return (
+    <ProtectedRoute requireAdmin>
+      <div className="min-h-screen bg-background flex flex-col p-8 relative">
+        <Button
+          variant="ghost"
+          size="icon"
+          className="absolute top-4 right-4"
+          onClick={toggleFullscreen}
+        >
+          {isFullscreen ? <Minimize className="w-5 h-5" /> : <Maximize className="w-5 h-5" />}
+        </Button>
+
+        <div className="flex items-center justify-center gap-3 mb-8">
+          <Sparkles className="w-8 h-8 text-primary" />
+          <h1 className="font-display text-3xl md:text-5xl font-bold text-center">
+            {event?.title ?? 'Renascer Cards'}
+          </h1>
+        </div>
+
+        <div className="flex flex-wrap justify-center gap-3 mb-8">
+          <div className={`px-6 py-3 rounded-2xl border-2 ${rarityConfig.border} text-center`}>
+            <p className="text-4xl font-bold">{feed?.length ?? 0}</p>
+            <p className="text-sm text-muted-foreground">cards resgatados</p>
+          </div>
+          {variantTotals
+            .filter(({ variant }) => variant !== 'comum')
+            .map(({ variant, count }) => (
+              <div key={variant} className="px-6 py-3 rounded-2xl glass text-center">
+                <p className="text-4xl font-bold">{count}</p>
+                <p className="text-sm text-muted-foreground">{variantLabels[variant]}</p>
+              </div>
+            ))}
+        </div>
+
+        {isError ? (
+          <p className="text-destructive text-lg text-center">
+            Não foi possível carregar os resgates deste evento.
+          </p>
+        ) : isLoading ? (
+          <div className="flex justify-center">
+            <Loader2 className="w-12 h-12 animate-spin text-primary" />
+          </div>
+        ) : !feed?.length ? (
+          <p className="text-muted-foreground text-xl text-center">
+            Aguardando o primeiro resgate...
+          </p>
+        ) : (
+          <div ref={listRef} className="w-full max-w-3xl mx-auto flex-1 overflow-y-auto space-y-3">
+            <AnimatePresence initial={false}>
+              {feed.slice(0, VISIBLE_ITEMS).map((item) => {
+                const variantConfig = getVariantConfig(item.variant);
+                return (
+                  <motion.div
+                    key={item.user_id}
+                    layout
+                    initial={{ opacity: 0, y: -30, scale: 0.95 }}
+                    animate={{ opacity: 1, y: 0, scale: 1 }}
+                    exit={{ opacity: 0 }}
+                    className={`relative overflow-hidden rounded-2xl p-[2px] bg-gradient-to-r ${rarityConfig.gradient} ${
+                      item.variant !== 'comum' ? variantConfig.extraGlow : ''
+                    }`}
+                  >
+                    <div className="relative flex items-center justify-between gap-4 rounded-2xl bg-background/95 px-6 py-4">
+                      {item.variant !== 'comum' && (
+                        <div className={`absolute inset-0 opacity-30 ${variantConfig.overlayClass}`} />
+                      )}
+                      <p className="relative text-xl md:text-2xl">
+                        <span className="font-semibold">{item.display_name || 'Alguém'}</span>{' '}
+                        {item.variant !== 'comum' ? (
+                          <>
+                            acabou de ganhar uma <span className="font-bold">{variantConfig.label}</span>!
+                          </>
+                        ) : (
+                          <>acabou de resgatar o card {rarityConfig.label}!</>
+                        )}
+                      </p>
+                      <span className="relative text-sm text-muted-foreground whitespace-nowrap">
+                        {formatDistanceToNow(new Date(item.redeemed_at), { addSuffix: true, locale: ptBR })}
+                      </span>
+                    </div>
+                  </motion.div>
+                );
+              })}
+            </AnimatePresence>
+          </div>
+        )}
+      </div>
+    </ProtectedRoute>
+  );
+};
+
+export default EventFeed;
@@ -0,0 +1,142 @@
+import { useEffect, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { motion, AnimatePresence } from 'framer-motion';
+import { QRCodeSVG } from 'qrcode.react';
+import { Maximize, Minimize, Loader2, Sparkles } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import ProtectedRoute from '@/components/layout/ProtectedRoute';
+
+const EventPresenter = () => {
+  const { eventId } = useParams<{ eventId: string }>();
+  const [now, setNow] = useState(Date.now());
+  const [isFullscreen, setIsFullscreen] = useState(false);
+
+  const { data: event } = useQuery({
+    queryKey: ['presenter-event', eventId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('events')
+        .select('id, title, card_image_url')
+        .eq('id', eventId)
+        .single();
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!eventId,
+  });
+
+  const { data: rotating, refetch, isFetching, isError } = useQuery({
+    queryKey: ['rotating-code', eventId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .rpc('get_rotating_code', { _event_id: eventId })
+        .single();
+      if (error) throw error;
+
+      // Keep the countdown in server time so it flips together with the code
+      const clockOffset = new Date(data.server_time).getTime() - Date.now();
+      return {
+        code: data.code,
+        rotationSeconds: data.rotation_seconds,
+        expiresAt: new Date(data.expires_at).getTime(),
+        clockOffset,
+      };
+    },
+    enabled: !!eventId,
+    refetchOnWindowFocus: false,
+  });
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, []);
+
+  const remainingMs = rotating ? rotating.expiresAt - (now + rotating.clockOffset) : 0;
+
+  useEffect(() => {
+    if (rotating && remainingMs <= 0 && !isFetching) {
+      refetch();
+    }
+  }, [rotating, remainingMs, isFetching, refetch]);
+
+  useEffect(() => {
+    const handleChange = () => setIsFullscreen(!!document.fullscreenElement);
+    document.addEventListener('fullscreenchange', handleChange);
+    return () => document.removeEventListener('fullscreenchange', handleChange);
+  }, []);
+
+  const toggleFullscreen = async () => {
+    if (document.fullscreenElement) {
+      await document.exitFullscreen();
+    } else {
+      await document.documentElement.requestFullscreen();
+    }
+  };
+
+  const remainingSeconds = Math.max(0, Math.ceil(remainingMs / 1000));
+  const progress = rotating
+    ? Math.max(0, Math.min(100, (remainingMs / (rotating.rotationSeconds * 1000)) * 100))
+    : 0;
+
+  return (
+    <ProtectedRoute requireAdmin>
+      <div className="min-h-screen bg-background flex flex-col items-center justify-center p-8 relative">
+        <Button
+          variant="ghost"
+          size="icon"
+          className="absolute top-4 right-4"
+          onClick={toggleFullscreen}
+        >
+          {isFullscreen ? <Minimize className="w-5 h-5" /> : <Maximize className="w-5 h-5" />}
+        </Button>
+
+        <div className="flex items-center gap-3 mb-8">
+          <Sparkles className="w-8 h-8 text-primary" />
+          <h1 className="font-display text-3xl md:text-5xl font-bold text-center">
+            {event?.title ?? 'Renascer Cards'}
+          </h1>
+        </div>
+
+        {isError ? (
+          <p className="text-destructive text-lg">Não foi possível carregar o código deste evento.</p>
+        ) : !rotating ? (
+          <Loader2 className="w-12 h-12 animate-spin text-primary" />
+        ) : (
+          <div className="flex flex-col items-center gap-6 w-full max-w-xl">
+            <AnimatePresence mode="wait">
+              <motion.div
+                key={rotating.code}
+                initial={{ opacity: 0, scale: 0.95 }}
+                animate={{ opacity: 1, scale: 1 }}
+                exit={{ opacity: 0, scale: 0.95 }}
+                className="p-6 bg-white rounded-2xl shadow-2xl"
+              >
+                <QRCodeSVG value={rotating.code} size={360} level="H" />
+              </motion.div>
+            </AnimatePresence>
+
+            <code className="font-mono font-bold text-5xl md:text-7xl tracking-widest text-primary">
+              {rotating.code}
+            </code>
+
+            <div className="w-full space-y-2">
+              <Progress value={progress} className="h-3" />
+              <p className="text-center text-muted-foreground text-lg">
+                Novo código em {remainingSeconds}s
+              </p>
+            </div>
+
+            <p className="text-muted-foreground text-center">
+              Escaneie o QRCode ou digite o código em <span className="font-semibold">Resgatar</span>
+            </p>
+          </div>
+        )}
+      </div>
+    </ProtectedRoute>
+  );
+};
+
+export default EventPresenter;
@@ -0,0 +1,178 @@
+import { useRef, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { Download, Loader2, Printer } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import ProtectedRoute from '@/components/layout/ProtectedRoute';
+import EventPrintSheet from '@/components/admin/EventPrintSheet';
+import {
+  PRINT_LAYOUTS,
+  PrintLayout,
+  downloadSvg,
+  isTicketLayout,
+  paginateCodes,
+  printFileName,
+  toDataUrl,
+} from '@/lib/eventPrint';
+
+const EventPrint = () => {
+  const { eventId } = useParams<{ eventId: string }>();
+  const [layout, setLayout] = useState<PrintLayout>('poster-art');
+  const sheetRefs = useRef<SVGSVGElement[]>([]);
+
+  const { data: event, isError } = useQuery({
+    queryKey: ['print-event', eventId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('events')
+        .select('id, title, event_date, card_image_url, redemption_code, qr_code_data, rotating_code, single_use_codes, code_revoked_at')
+        .eq('id', eventId)
+        .single();
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!eventId,
+  });
+
+  // Embedded so the artwork survives the SVG download and prints without a network round trip
+  const { data: imageUrl } = useQuery({
+    queryKey: ['print-artwork', event?.card_image_url],
+    queryFn: () => toDataUrl(event.card_image_url),
+    enabled: !!event,
+    staleTime: Infinity,
+  });
+
+  // Single-use events print one ticket per code that has not been redeemed yet
+  const { data: codes } = useQuery({
+    queryKey: ['attendee-codes', eventId, 'available'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('event_attendee_codes')
+        .select('code')
+        .eq('event_id', eventId)
+        .is('redeemed_at', null)
+        .order('created_at');
+      if (error) throw error;
+      return data.map((row) => row.code);
+    },
+    enabled: !!event?.single_use_codes,
+  });
+
+  const layouts = event?.single_use_codes
+    ? PRINT_LAYOUTS.filter((option) => isTicketLayout(option.value))
+    : PRINT_LAYOUTS;
+  const selected = layouts.find((option) => option.value === layout) ?? layouts[0];
+  const pages = event?.single_use_codes ? paginateCodes(codes ?? [], selected.value) : [undefined];
+  const isReady = !!imageUrl && (!event?.single_use_codes || !!codes);
+
+  const handleDownload = () => {
+    pages.forEach((_, i) => {
+      downloadSvg(sheetRefs.current[i], printFileName(event.title, selected.value, pages.length > 1 ? i + 1 : undefined));
+    });
+  };
+
+  return (
+    <ProtectedRoute requireAdmin>
+      <style>{'@page { size: A4; margin: 0; }'}</style>
+      <div className="min-h-screen bg-background p-6 print:p-0 print:bg-white">
+        <div className="max-w-3xl mx-auto space-y-6 print:max-w-none">
+          <div className="space-y-4 print:hidden">
+            <h1 className="font-display text-2xl font-bold">
+              Imprimir {event ? `— ${event.title}` : ''}
+            </h1>
+
+            {event && !event.rotating_code && !event.code_revoked_at && (
+              <>
+                <div className="flex flex-wrap items-end gap-3">
+                  <div className="space-y-2 w-64">
+                    <Label>Layout</Label>
+                    <Select value={selected.value} onValueChange={(value) => setLayout(value as PrintLayout)}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {layouts.map((option) => (
+                          <SelectItem key={option.value} value={option.value}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <Button disabled={!isReady || !pages.length} onClick={() => window.print()}>
+                    <Printer className="w-4 h-4 mr-2" />
+                    Imprimir / PDF
+                  </Button>
+                  <Button
+                    variant="outline"
+                    disabled={!isReady || !pages.length}
+                    onClick={handleDownload}
+                  >
+                    <Download className="w-4 h-4 mr-2" />
+                    Baixar SVG
+                  </Button>
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  {selected.description}
+                  {event.single_use_codes && ` ${codes?.length ?? 0} códigos disponíveis em ${pages.length} folhas.`}{' '}
+                  Para gerar um PDF, escolha "Salvar como PDF" na janela de impressão.
+                </p>
+              </>
+            )}
+          </div>
+
+          {isError ? (
+            <p className="text-destructive">Não foi possível carregar este evento.</p>
+          ) : event?.rotating_code ? (
+            <p className="text-muted-foreground">
+              Este evento usa código rotativo, que muda a cada poucos segundos e não pode ser impresso.
+              Use o Modo Apresentação para exibi-lo.
+            </p>
+          ) : event?.code_revoked_at ? (
+            <p className="text-muted-foreground">
+              O código deste evento foi revogado. Gere um novo código nos detalhes do evento para imprimir.
+            </p>
+          ) : !event || !isReady ? (
+            <div className="flex justify-center py-16">
+              <Loader2 className="w-10 h-10 animate-spin text-primary" />
+            </div>
+          ) : !pages.length ? (
+            <p className="text-muted-foreground">
+              Nenhum código disponível. Gere códigos individuais nos detalhes do evento.
+            </p>
+          ) : (
+            pages.map((pageCodes, i) => (
+              <EventPrintSheet
+                key={i}
+                ref={(element) => {
+                  sheetRefs.current[i] = element;
+                }}
+                layout={selected.value}
+                codes={pageCodes}
+                content={{
+                  title: event.title,
+                  date: event.event_date.split('-').reverse().join('/'),
+                  code: event.redemption_code,
+                  qrValue: event.qr_code_data || event.redemption_code,
+                  imageUrl,
+                }}
+                className="w-full h-auto mx-auto rounded-lg shadow-2xl print:rounded-none print:shadow-none print:w-[210mm] print:h-[297mm] print:break-after-page"
+              />
+            ))
+          )}
+        </div>
+      </div>
+    </ProtectedRoute>
+  );
+};
+
+export default EventPrint;
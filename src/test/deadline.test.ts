@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest";
+import { deadlineFromInput, deadlineToInput, formatDeadline } from "@/lib/deadline";
+
+// São Paulo observed daylight saving time until 2019: clocks moved forward at
+// 00:00 on 2018-11-04 (-03 to -02) and back at 00:00 on 2019-02-17 (-02 to -03).
+const everyQuarterHour = (from: string, to: string) => {
+  const instants: string[] = [];
+  for (let time = Date.parse(from); time < Date.parse(to); time += 15 * 60 * 1000) {
+    instants.push(new Date(time).toISOString());
+  }
+  return instants;
+};
+
+describe("deadlineFromInput", () => {
+  it("reads the input as wall-clock time in the org timezone", () => {
+    expect(deadlineFromInput("2026-03-08T20:30")).toBe("2026-03-08T23:30:00.000Z");
+    expect(deadlineFromInput("2026-03-08T23:59")).toBe("2026-03-09T02:59:00.000Z");
+  });
+
+  it("treats a date without a time as midnight", () => {
+    expect(deadlineFromInput("2026-03-08")).toBe("2026-03-08T03:00:00.000Z");
+  });
+
+  it("uses the offset in force on the given date", () => {
+    expect(deadlineFromInput("2018-11-03T23:59")).toBe("2018-11-04T02:59:00.000Z");
+    expect(deadlineFromInput("2018-11-04T01:30")).toBe("2018-11-04T03:30:00.000Z");
+    expect(deadlineFromInput("2019-02-16T22:30")).toBe("2019-02-17T00:30:00.000Z");
+    expect(deadlineFromInput("2019-02-17T00:30")).toBe("2019-02-17T03:30:00.000Z");
+  });
+
+  it("moves times skipped by the clocks going forward past the change", () => {
+    expect(deadlineFromInput("2018-11-04T00:30")).toBe("2018-11-04T03:30:00.000Z");
+  });
+
+  it("picks the first occurrence of times repeated by the clocks going back", () => {
+    expect(deadlineFromInput("2019-02-16T23:30")).toBe("2019-02-17T01:30:00.000Z");
+  });
+});
+
+describe("deadlineToInput", () => {
+  it("shows the instant as wall-clock time in the org timezone", () => {
+    expect(deadlineToInput("2026-03-08T23:30:00.000Z")).toBe("2026-03-08T20:30");
+    expect(deadlineToInput(new Date("2019-01-10T22:00:00.000Z"))).toBe("2019-01-10T20:00");
+  });
+
+  it("round-trips with deadlineFromInput outside daylight saving changes", () => {
+    for (const instant of everyQuarterHour("2026-03-07T00:00:00Z", "2026-03-09T00:00:00Z")) {
+      expect(deadlineFromInput(deadlineToInput(instant))).toBe(instant);
+    }
+  });
+
+  it("round-trips with deadlineFromInput across the clocks going forward", () => {
+    for (const instant of everyQuarterHour("2018-11-03T20:00:00Z", "2018-11-04T08:00:00Z")) {
+      expect(deadlineFromInput(deadlineToInput(instant))).toBe(instant);
+    }
+  });
+
+  it("round-trips every wall-clock time across the clocks going back", () => {
+    for (const instant of everyQuarterHour("2019-02-16T20:00:00Z", "2019-02-17T08:00:00Z")) {
+      const input = deadlineToInput(instant);
+      expect(deadlineToInput(deadlineFromInput(input))).toBe(input);
+    }
+  });
+});
+
+describe("formatDeadline", () => {
+  it("formats in the org timezone", () => {
+    expect(formatDeadline("2026-03-09T02:59:00.000Z")).toBe("08/03/2026 às 23:59");
+  });
+});
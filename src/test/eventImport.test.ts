@@ -0,0 +1,106 @@
+import { describe, it, expect } from "vitest";
+import { buildImportRows, parseCsv } from "@/lib/eventImport";
+
+const image = (name: string) => new File(["png"], name, { type: "image/png" });
+
+describe("parseCsv", () => {
+  it("keys records by the lower-cased, trimmed header", () => {
+    const records = parseCsv(" Title ,EVENT_DATE\nCulto de Domingo,2026-03-01\n");
+    expect(records).toEqual([{ title: "Culto de Domingo", event_date: "2026-03-01" }]);
+  });
+
+  it("keeps separators, line breaks and escaped quotes inside quoted fields", () => {
+    const records = parseCsv('title,theme\r\n"Culto, Ceia","Linha 1\nLinha 2 ""fé"""\r\n');
+    expect(records).toEqual([{ title: "Culto, Ceia", theme: 'Linha 1\nLinha 2 "fé"' }]);
+  });
+
+  it("detects semicolon separators and strips a byte order mark", () => {
+    const records = parseCsv("\uFEFFtitle;event_date\nCulto, noite;01/03/2026");
+    expect(records).toEqual([{ title: "Culto, noite", event_date: "01/03/2026" }]);
+  });
+
+  it("skips blank lines and fills missing cells with empty strings", () => {
+    const records = parseCsv("title,theme,preacher\n\nCulto,Graça\n,,\n");
+    expect(records).toEqual([{ title: "Culto", theme: "Graça", preacher: "" }]);
+  });
+
+  it("returns no records for an empty file or a header alone", () => {
+    expect(parseCsv("")).toEqual([]);
+    expect(parseCsv("title,event_date\n")).toEqual([]);
+  });
+});
+
+describe("buildImportRows", () => {
+  const record = {
+    title: "Culto de Domingo",
+    event_date: "01/03/2026",
+    deadline: "08/03/2026 20:30",
+    rarity: "Épico",
+    image: "Culto.PNG",
+  };
+
+  it("normalizes dates and rarity into a valid draft event", () => {
+    const [row] = buildImportRows([record], "season-1", [image("culto.png")]);
+
+    expect(row.errors).toEqual([]);
+    expect(row.line).toBe(1);
+    expect(row.image?.name).toBe("culto.png");
+    expect(row.data).toMatchObject({
+      title: "Culto de Domingo",
+      event_date: "2026-03-01",
+      redemption_deadline: "2026-03-08T20:30",
+      season_id: "season-1",
+      rarity: "epico",
+      status: "draft",
+    });
+  });
+
+  it("reads a bare deadline date as the end of that day", () => {
+    const [row] = buildImportRows([{ ...record, deadline: "2026-03-08" }], "season-1", [image("culto.png")]);
+    expect(row.data.redemption_deadline).toBe("2026-03-08T23:59");
+  });
+
+  it("matches images by title when the image column is empty, ignoring case", () => {
+    const [row] = buildImportRows([{ ...record, image: "" }], "season-1", [image("CULTO DE DOMINGO.jpg")]);
+    expect(row.errors).toEqual([]);
+    expect(row.image?.name).toBe("CULTO DE DOMINGO.jpg");
+  });
+
+  it("rejects invalid dates and rarities once each", () => {
+    const [row] = buildImportRows(
+      [{ ...record, event_date: "2026/03/01", deadline: "amanhã", rarity: "mítico" }],
+      "season-1",
+      [image("culto.png")],
+    );
+
+    expect(row.errors).toEqual([
+      "Data do evento inválida: 2026/03/01",
+      "Data limite inválida: amanhã",
+      "Raridade inválida: mítico",
+    ]);
+  });
+
+  it("rejects rows missing required fields or a matching image", () => {
+    const [row] = buildImportRows([{ title: "", image: "" }], "season-1", []);
+
+    expect(row.image).toBeNull();
+    expect(row.errors).toEqual(
+      expect.arrayContaining([
+        "Título é obrigatório",
+        "Data do evento é obrigatória",
+        "Data limite de resgate é obrigatória",
+        "Nenhuma imagem com o nome do título",
+      ]),
+    );
+  });
+
+  it("reports the image named in the row when it is not in the bundle", () => {
+    const [row] = buildImportRows([record], "season-1", [image("outro.png")]);
+    expect(row.errors).toEqual(["Imagem não encontrada: Culto.PNG"]);
+  });
+
+  it("numbers rows in file order", () => {
+    const rows = buildImportRows([record, { ...record, title: "Culto de Quarta" }], "season-1", [image("culto.png")]);
+    expect(rows.map((row) => row.line)).toEqual([1, 2]);
+  });
+});
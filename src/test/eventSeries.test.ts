@@ -0,0 +1,82 @@
+import { describe, it, expect } from "vitest";
+import { EventTemplate, eventFromTemplate, seriesDates } from "@/lib/eventSeries";
+
+const template: EventTemplate = {
+  id: "template-1",
+  name: "Culto de Domingo",
+  title: "Culto {n} — {data}",
+  theme: "Série {n}",
+  preacher: null,
+  card_image_url: "https://example.com/culto.png",
+  rarity: "raro",
+  deadline_days: 7,
+  deadline_time: "23:59:00",
+  rotating_code: true,
+  rotation_seconds: 45,
+  extra_rolls: 1,
+  created_at: "2026-01-01T00:00:00Z",
+  updated_at: "2026-01-01T00:00:00Z",
+};
+
+describe("seriesDates", () => {
+  it("starts on the first matching weekday and steps one week at a time", () => {
+    // 2026-03-03 is a Tuesday; the first Sunday after it is 2026-03-08
+    expect(seriesDates("2026-03-03", "2026-03-29", 0)).toEqual([
+      "2026-03-08",
+      "2026-03-15",
+      "2026-03-22",
+      "2026-03-29",
+    ]);
+  });
+
+  it("includes the start date when it falls on the weekday", () => {
+    expect(seriesDates("2026-03-04", "2026-03-18", 3)).toEqual(["2026-03-04", "2026-03-11", "2026-03-18"]);
+  });
+
+  it("stops at the end date and crosses month boundaries", () => {
+    expect(seriesDates("2026-03-20", "2026-04-09", 5)).toEqual(["2026-03-20", "2026-03-27", "2026-04-03"]);
+  });
+
+  it("returns nothing when the range is empty, reversed or incomplete", () => {
+    expect(seriesDates("2026-03-09", "2026-03-14", 0)).toEqual([]);
+    expect(seriesDates("2026-03-29", "2026-03-01", 0)).toEqual([]);
+    expect(seriesDates("", "2026-03-29", 0)).toEqual([]);
+    expect(seriesDates("2026-03-01", "", 0)).toEqual([]);
+  });
+});
+
+describe("eventFromTemplate", () => {
+  it("fills the date and position placeholders", () => {
+    const event = eventFromTemplate(template, "season-1", "2026-03-08", 2);
+
+    expect(event.title).toBe("Culto 2 — 08/03");
+    expect(event.theme).toBe("Série 2");
+    expect(event.preacher).toBe("");
+    expect(event.event_date).toBe("2026-03-08");
+    expect(event.season_id).toBe("season-1");
+  });
+
+  it("carries the redemption window over from the event date", () => {
+    expect(eventFromTemplate(template, "season-1", "2026-03-08", 1).redemption_deadline).toBe("2026-03-15T23:59");
+    expect(eventFromTemplate(template, "season-1", "2026-03-29", 4).redemption_deadline).toBe("2026-04-05T23:59");
+    expect(
+      eventFromTemplate({ ...template, deadline_days: 0, deadline_time: "21:30:00" }, "season-1", "2026-03-08", 1)
+        .redemption_deadline,
+    ).toBe("2026-03-08T21:30");
+  });
+
+  it("creates a draft with the template's code and drop settings", () => {
+    const event = eventFromTemplate(template, "season-1", "2026-03-08", 1);
+
+    expect(event).toMatchObject({
+      rarity: "raro",
+      status: "draft",
+      publish_at: "",
+      rotating_code: true,
+      rotation_seconds: 45,
+      single_use_codes: false,
+      extra_rolls: 1,
+    });
+    expect(event.variant_odds.custom).toBe(false);
+  });
+});
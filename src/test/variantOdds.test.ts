@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest";
+import { DEFAULT_VARIANT_ODDS, sumVariantOdds, toVariantOddsForm, variantOddsSchema } from "@/lib/variantOdds";
+
+const messages = (value: unknown) => {
+  const result = variantOddsSchema.safeParse(value);
+  return result.success ? [] : result.error.issues.map((issue) => issue.message);
+};
+
+describe("variantOddsSchema", () => {
+  it("accepts a custom table that sums to 100", () => {
+    expect(messages({ custom: true, reliquia: 5, holografica: 10, edicao_diamante: 15, comum: 70 })).toEqual([]);
+    expect(messages({ custom: true, reliquia: 0.1, holografica: 0.2, edicao_diamante: 0.7, comum: 99 })).toEqual([]);
+  });
+
+  it("coerces the strings sent by number inputs", () => {
+    const result = variantOddsSchema.safeParse({ custom: true, reliquia: "3", holografica: "7", edicao_diamante: "12", comum: "78" });
+    expect(result.success && result.data).toEqual({ custom: true, ...DEFAULT_VARIANT_ODDS });
+  });
+
+  it("rejects custom tables that do not sum to 100", () => {
+    expect(messages({ custom: true, reliquia: 5, holografica: 10, edicao_diamante: 15, comum: 60 })).toEqual([
+      "As probabilidades devem somar 100%",
+    ]);
+    expect(messages({ custom: true, reliquia: 50, holografica: 50, edicao_diamante: 50, comum: 50 })).toEqual([
+      "As probabilidades devem somar 100%",
+    ]);
+  });
+
+  it("ignores the sum when the table is not custom", () => {
+    expect(messages({ custom: false, reliquia: 0, holografica: 0, edicao_diamante: 0, comum: 0 })).toEqual([]);
+  });
+
+  it("rejects negative weights even when the total is 100", () => {
+    expect(messages({ custom: true, reliquia: -10, holografica: 10, edicao_diamante: 20, comum: 80 })).toEqual([
+      "Mínimo 0%",
+    ]);
+  });
+
+  it("rejects weights above 100", () => {
+    expect(messages({ custom: true, reliquia: 0, holografica: 0, edicao_diamante: 0, comum: 101 })).toContain(
+      "Máximo 100%",
+    );
+  });
+
+  it("rejects an empty custom table", () => {
+    expect(messages({ custom: true, reliquia: "", holografica: "", edicao_diamante: "", comum: "" })).toEqual([
+      "As probabilidades devem somar 100%",
+    ]);
+    expect(messages({ custom: true })).toEqual([
+      "Informe um número",
+      "Informe um número",
+      "Informe um número",
+      "Informe um número",
+    ]);
+  });
+});
+
+describe("toVariantOddsForm", () => {
+  it("uses the drop table when there is one", () => {
+    expect(toVariantOddsForm({ reliquia: 1, holografica: 4, edicao_diamante: 15, comum: 80 })).toEqual({
+      custom: true,
+      reliquia: 1,
+      holografica: 4,
+      edicao_diamante: 15,
+      comum: 80,
+    });
+  });
+
+  it("falls back to the given odds without a drop table", () => {
+    const fallback = { reliquia: 10, holografica: 20, edicao_diamante: 30, comum: 40 };
+    expect(toVariantOddsForm(null, fallback)).toEqual({ custom: false, ...fallback });
+    expect(sumVariantOdds(toVariantOddsForm())).toBe(100);
+  });
+});
@@ -0,0 +1,122 @@
+// @vitest-environment node
+// jsdom's Blob has no arrayBuffer() or stream(), so this spec uses Node's.
+import { describe, it, expect } from "vitest";
+import { extractZipImages } from "@/lib/zip";
+
+interface ZipEntry {
+  path: string;
+  content: string;
+  deflate?: boolean;
+}
+
+const deflateRaw = async (data: Uint8Array) =>
+  new Uint8Array(
+    await new Response(new Blob([data]).stream().pipeThrough(new CompressionStream("deflate-raw"))).arrayBuffer(),
+  );
+
+// Writes a minimal archive: local headers, central directory and end record.
+// CRCs are left at zero since the reader does not check them.
+const buildZip = async (entries: ZipEntry[], comment = "") => {
+  const encoder = new TextEncoder();
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.path);
+    const raw = encoder.encode(entry.content);
+    const data = entry.deflate ? await deflateRaw(raw) : raw;
+    const method = entry.deflate ? 8 : 0;
+
+    const local = new Uint8Array(30 + name.length + data.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, 0x04034b50, true);
+    localView.setUint16(8, method, true);
+    localView.setUint32(18, data.length, true);
+    localView.setUint32(22, raw.length, true);
+    localView.setUint16(26, name.length, true);
+    local.set(name, 30);
+    local.set(data, 30 + name.length);
+
+    const central = new Uint8Array(46 + name.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, 0x02014b50, true);
+    centralView.setUint16(10, method, true);
+    centralView.setUint32(20, data.length, true);
+    centralView.setUint32(24, raw.length, true);
+    centralView.setUint16(28, name.length, true);
+    centralView.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    locals.push(local);
+    centrals.push(central);
+    offset += local.length;
+  }
+
+  const commentBytes = encoder.encode(comment);
+  const directorySize = centrals.reduce((total, central) => total + central.length, 0);
+  const end = new Uint8Array(22 + commentBytes.length);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054b50, true);
+  endView.setUint16(8, entries.length, true);
+  endView.setUint16(10, entries.length, true);
+  endView.setUint32(12, directorySize, true);
+  endView.setUint32(16, offset, true);
+  endView.setUint16(20, commentBytes.length, true);
+  end.set(commentBytes, 22);
+
+  return new File([...locals, ...centrals, end], "imagens.zip", { type: "application/zip" });
+};
+
+describe("extractZipImages", () => {
+  it("extracts stored and deflated images, dropping folder paths", async () => {
+    const archive = await buildZip([
+      { path: "cards/culto.png", content: "png-bytes" },
+      { path: "cards/ceia.JPG", content: "jpg-bytes ".repeat(20), deflate: true },
+    ]);
+
+    const files = await extractZipImages(archive);
+
+    expect(files.map((file) => [file.name, file.type])).toEqual([
+      ["culto.png", "image/png"],
+      ["ceia.JPG", "image/jpeg"],
+    ]);
+    expect(await files[1].text()).toBe("jpg-bytes ".repeat(20));
+  });
+
+  it("skips folders, other file types and macOS metadata", async () => {
+    const archive = await buildZip([
+      { path: "cards/", content: "" },
+      { path: "eventos.csv", content: "title" },
+      { path: "__MACOSX/cards/._culto.png", content: "meta" },
+      { path: "cards/.hidden.png", content: "hidden" },
+      { path: "cards/culto.jpeg", content: "jpeg-bytes" },
+    ]);
+
+    const files = await extractZipImages(archive);
+
+    expect(files.map((file) => file.name)).toEqual(["culto.jpeg"]);
+  });
+
+  it("finds the end record after an archive comment", async () => {
+    const archive = await buildZip([{ path: "culto.png", content: "png-bytes" }], "Cards de março");
+    expect((await extractZipImages(archive)).map((file) => file.name)).toEqual(["culto.png"]);
+  });
+
+  it("rejects files that are not zip archives", async () => {
+    const file = new File(["title,event_date\nCulto,2026-03-01\n"], "eventos.zip");
+    await expect(extractZipImages(file)).rejects.toThrow("eventos.zip não é um arquivo zip válido");
+  });
+
+  it("rejects unsupported compression methods", async () => {
+    const archive = await buildZip([{ path: "culto.png", content: "png-bytes" }]);
+    const bytes = new Uint8Array(await archive.arrayBuffer());
+    // Patch the central directory entry to method 12 (bzip2)
+    const centralStart = bytes.length - 22 - (46 + "culto.png".length);
+    new DataView(bytes.buffer).setUint16(centralStart + 10, 12, true);
+
+    await expect(extractZipImages(new File([bytes], "imagens.zip"))).rejects.toThrow(
+      "Compressão não suportada em culto.png",
+    );
+  });
+});
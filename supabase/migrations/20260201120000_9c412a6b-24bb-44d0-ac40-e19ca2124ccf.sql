@@ -0,0 +1,96 @@
+-- Atomic server-side redemption.
+-- The browser used to look up the event, check the deadline, roll the variant
+-- and insert into user_cards on its own, so anyone could skip the checks or pick
+-- a variant by inserting directly. Everything now happens inside redeem_card().
+
+-- 1. Result status of a redemption attempt
+CREATE TYPE public.redeem_status AS ENUM ('success', 'expired', 'already_redeemed', 'not_found');
+
+-- 2. Redemption function
+CREATE OR REPLACE FUNCTION public.redeem_card(_code TEXT)
+RETURNS TABLE (
+  status public.redeem_status,
+  event_id UUID,
+  title TEXT,
+  card_image_url TEXT,
+  rarity public.card_rarity,
+  variant public.card_variant
+)
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _event public.events%ROWTYPE;
+  _existing public.card_variant;
+  _variant public.card_variant;
+  _roll NUMERIC;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  SELECT * INTO _event
+  FROM public.events e
+  WHERE e.redemption_code = upper(trim(_code));
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT 'not_found'::public.redeem_status, NULL::UUID, NULL::TEXT, NULL::TEXT,
+      NULL::public.card_rarity, NULL::public.card_variant;
+    RETURN;
+  END IF;
+
+  SELECT uc.variant INTO _existing
+  FROM public.user_cards uc
+  WHERE uc.user_id = _user_id AND uc.event_id = _event.id;
+
+  IF FOUND THEN
+    RETURN QUERY SELECT 'already_redeemed'::public.redeem_status, _event.id, _event.title,
+      _event.card_image_url, _event.rarity, _existing;
+    RETURN;
+  END IF;
+
+  -- Deadlines are saved from a naive datetime-local value, so they are off by
+  -- the America/Sao_Paulo offset; keep the 3 hour grace the client used to apply.
+  IF now() > _event.redemption_deadline + interval '3 hours' THEN
+    RETURN QUERY SELECT 'expired'::public.redeem_status, _event.id, _event.title,
+      NULL::TEXT, _event.rarity, NULL::public.card_variant;
+    RETURN;
+  END IF;
+
+  -- Variant odds (sum = 100%): reliquia 3%, holografica 7%, edicao_diamante 12%, comum 78%
+  _roll := random() * 100;
+  _variant := CASE
+    WHEN _roll < 3 THEN 'reliquia'
+    WHEN _roll < 10 THEN 'holografica'
+    WHEN _roll < 22 THEN 'edicao_diamante'
+    ELSE 'comum'
+  END;
+
+  INSERT INTO public.user_cards (user_id, event_id, variant)
+  VALUES (_user_id, _event.id, _variant)
+  ON CONFLICT ON CONSTRAINT user_cards_user_id_event_id_key DO NOTHING;
+
+  -- A concurrent request for the same user and event won the race
+  IF NOT FOUND THEN
+    SELECT uc.variant INTO _existing
+    FROM public.user_cards uc
+    WHERE uc.user_id = _user_id AND uc.event_id = _event.id;
+
+    RETURN QUERY SELECT 'already_redeemed'::public.redeem_status, _event.id, _event.title,
+      _event.card_image_url, _event.rarity, _existing;
+    RETURN;
+  END IF;
+
+  RETURN QUERY SELECT 'success'::public.redeem_status, _event.id, _event.title,
+    _event.card_image_url, _event.rarity, _variant;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.redeem_card(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.redeem_card(TEXT) TO authenticated;
+
+-- 3. Cards can no longer be inserted directly by users
+DROP POLICY IF EXISTS "Users can redeem cards" ON public.user_cards;
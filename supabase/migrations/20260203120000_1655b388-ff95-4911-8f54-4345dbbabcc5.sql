@@ -0,0 +1,143 @@
+-- Configurable variant drop tables.
+-- A drop table belongs either to a season (default for all of its events) or to
+-- a single event (override). Events without either fall back to the global odds.
+
+-- 1. Drop tables
+CREATE TABLE public.variant_drop_tables (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    season_id UUID REFERENCES public.seasons(id) ON DELETE CASCADE UNIQUE,
+    event_id UUID REFERENCES public.events(id) ON DELETE CASCADE UNIQUE,
+    comum NUMERIC(5,2) NOT NULL CHECK (comum >= 0),
+    holografica NUMERIC(5,2) NOT NULL CHECK (holografica >= 0),
+    edicao_diamante NUMERIC(5,2) NOT NULL CHECK (edicao_diamante >= 0),
+    reliquia NUMERIC(5,2) NOT NULL CHECK (reliquia >= 0),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    CONSTRAINT variant_drop_tables_owner_check CHECK ((season_id IS NULL) <> (event_id IS NULL)),
+    CONSTRAINT variant_drop_tables_sum_check CHECK (comum + holografica + edicao_diamante + reliquia = 100)
+);
+
+ALTER TABLE public.variant_drop_tables ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage drop tables" ON public.variant_drop_tables
+    FOR ALL USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_variant_drop_tables_updated_at
+    BEFORE UPDATE ON public.variant_drop_tables
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- 2. Roll a variant using the event override, the season default or the global odds
+CREATE OR REPLACE FUNCTION public.roll_variant(_event_id UUID)
+RETURNS public.card_variant
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _odds RECORD;
+  _roll NUMERIC := random() * 100;
+BEGIN
+  SELECT dt.comum, dt.holografica, dt.edicao_diamante, dt.reliquia INTO _odds
+  FROM public.events e
+  JOIN public.variant_drop_tables dt
+    ON dt.event_id = e.id OR dt.season_id = e.season_id
+  WHERE e.id = _event_id
+  ORDER BY dt.event_id IS NULL
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    SELECT 78::NUMERIC AS comum, 7::NUMERIC AS holografica, 12::NUMERIC AS edicao_diamante, 3::NUMERIC AS reliquia
+    INTO _odds;
+  END IF;
+
+  -- Rarest first, so a 0% variant can never be rolled
+  IF _roll < _odds.reliquia THEN
+    RETURN 'reliquia';
+  ELSIF _roll < _odds.reliquia + _odds.holografica THEN
+    RETURN 'holografica';
+  ELSIF _roll < _odds.reliquia + _odds.holografica + _odds.edicao_diamante THEN
+    RETURN 'edicao_diamante';
+  END IF;
+
+  RETURN 'comum';
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.roll_variant(UUID) FROM PUBLIC, anon, authenticated;
+
+-- 3. Redemption uses the configured drop table
+CREATE OR REPLACE FUNCTION public.redeem_card(_code TEXT)
+RETURNS TABLE (
+  status public.redeem_status,
+  event_id UUID,
+  title TEXT,
+  card_image_url TEXT,
+  rarity public.card_rarity,
+  variant public.card_variant
+)
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _event public.events%ROWTYPE;
+  _existing public.card_variant;
+  _variant public.card_variant;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  SELECT * INTO _event
+  FROM public.events e
+  WHERE e.redemption_code = upper(trim(_code));
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT 'not_found'::public.redeem_status, NULL::UUID, NULL::TEXT, NULL::TEXT,
+      NULL::public.card_rarity, NULL::public.card_variant;
+    RETURN;
+  END IF;
+
+  SELECT uc.variant INTO _existing
+  FROM public.user_cards uc
+  WHERE uc.user_id = _user_id AND uc.event_id = _event.id;
+
+  IF FOUND THEN
+    RETURN QUERY SELECT 'already_redeemed'::public.redeem_status, _event.id, _event.title,
+      _event.card_image_url, _event.rarity, _existing;
+    RETURN;
+  END IF;
+
+  -- Deadlines are saved from a naive datetime-local value, so they are off by
+  -- the America/Sao_Paulo offset; keep the 3 hour grace the client used to apply.
+  IF now() > _event.redemption_deadline + interval '3 hours' THEN
+    RETURN QUERY SELECT 'expired'::public.redeem_status, _event.id, _event.title,
+      NULL::TEXT, _event.rarity, NULL::public.card_variant;
+    RETURN;
+  END IF;
+
+  _variant := public.roll_variant(_event.id);
+
+  INSERT INTO public.user_cards (user_id, event_id, variant)
+  VALUES (_user_id, _event.id, _variant)
+  ON CONFLICT ON CONSTRAINT user_cards_user_id_event_id_key DO NOTHING;
+
+  -- A concurrent request for the same user and event won the race
+  IF NOT FOUND THEN
+    SELECT uc.variant INTO _existing
+    FROM public.user_cards uc
+    WHERE uc.user_id = _user_id AND uc.event_id = _event.id;
+
+    RETURN QUERY SELECT 'already_redeemed'::public.redeem_status, _event.id, _event.title,
+      _event.card_image_url, _event.rarity, _existing;
+    RETURN;
+  END IF;
+
+  RETURN QUERY SELECT 'success'::public.redeem_status, _event.id, _event.title,
+    _event.card_image_url, _event.rarity, _variant;
+END;
+$$;
@@ -0,0 +1,174 @@
+-- Automatic badge awarding.
+-- Badges are evaluated on the server whenever a user gains a card and whenever a
+-- badge is created or edited, so users no longer insert their own user_badges.
+--
+-- Supported badge_type values:
+--   season_collector  every card of season_id, once the season has ended
+--   supreme_collector every card of every season that has ended
+--   total_cards       at least `threshold` cards (within season_id when set)
+--   first_relic       at least one 'reliquia' variant (within season_id when set)
+--   rarity_master     every rarity within a single season (season_id when set)
+
+-- 1. Threshold used by count based badges
+ALTER TABLE public.badges ADD COLUMN threshold INTEGER CHECK (threshold IS NULL OR threshold > 0);
+
+-- 2. Criteria evaluation
+CREATE OR REPLACE FUNCTION public.badge_criteria_met(_user_id UUID, _badge public.badges)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE _badge.badge_type
+    WHEN 'season_collector' THEN EXISTS (
+      SELECT 1
+      FROM public.seasons s
+      WHERE s.id = _badge.season_id
+        AND s.end_date < current_date
+        AND EXISTS (SELECT 1 FROM public.events e WHERE e.season_id = s.id)
+        AND NOT EXISTS (
+          SELECT 1
+          FROM public.events e
+          WHERE e.season_id = s.id
+            AND NOT EXISTS (
+              SELECT 1 FROM public.user_cards uc
+              WHERE uc.user_id = _user_id AND uc.event_id = e.id
+            )
+        )
+    )
+    WHEN 'supreme_collector' THEN EXISTS (
+      SELECT 1
+      FROM public.seasons s
+      WHERE s.end_date < current_date
+        AND EXISTS (SELECT 1 FROM public.events e WHERE e.season_id = s.id)
+    ) AND NOT EXISTS (
+      SELECT 1
+      FROM public.events e
+      JOIN public.seasons s ON s.id = e.season_id
+      WHERE s.end_date < current_date
+        AND NOT EXISTS (
+          SELECT 1 FROM public.user_cards uc
+          WHERE uc.user_id = _user_id AND uc.event_id = e.id
+        )
+    )
+    WHEN 'total_cards' THEN (
+      SELECT COUNT(*)
+      FROM public.user_cards uc
+      JOIN public.events e ON e.id = uc.event_id
+      WHERE uc.user_id = _user_id
+        AND (_badge.season_id IS NULL OR e.season_id = _badge.season_id)
+    ) >= COALESCE(_badge.threshold, 1)
+    WHEN 'first_relic' THEN EXISTS (
+      SELECT 1
+      FROM public.user_cards uc
+      JOIN public.events e ON e.id = uc.event_id
+      WHERE uc.user_id = _user_id
+        AND uc.variant = 'reliquia'
+        AND (_badge.season_id IS NULL OR e.season_id = _badge.season_id)
+    )
+    WHEN 'rarity_master' THEN EXISTS (
+      SELECT 1
+      FROM public.user_cards uc
+      JOIN public.events e ON e.id = uc.event_id
+      WHERE uc.user_id = _user_id
+        AND (_badge.season_id IS NULL OR e.season_id = _badge.season_id)
+      GROUP BY e.season_id
+      HAVING COUNT(DISTINCT e.rarity) = array_length(enum_range(NULL::public.card_rarity), 1)
+    )
+    ELSE false
+  END
+$$;
+
+-- 3. Award every badge a user qualifies for (idempotent)
+CREATE OR REPLACE FUNCTION public.award_badges(_user_id UUID)
+RETURNS SETOF public.user_badges
+LANGUAGE sql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO public.user_badges (user_id, badge_id)
+  SELECT _user_id, b.id
+  FROM public.badges b
+  WHERE public.badge_criteria_met(_user_id, b)
+  ON CONFLICT (user_id, badge_id) DO NOTHING
+  RETURNING *;
+$$;
+
+-- 4. Re-evaluate everyone (for admins, e.g. after a season ends)
+CREATE OR REPLACE FUNCTION public.evaluate_all_badges()
+RETURNS INTEGER
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _awarded INTEGER;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can evaluate badges' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT COUNT(*) INTO _awarded
+  FROM (SELECT DISTINCT user_id FROM public.user_cards) u
+  CROSS JOIN LATERAL public.award_badges(u.user_id);
+
+  RETURN _awarded;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.badge_criteria_met(UUID, public.badges) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.award_badges(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.evaluate_all_badges() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.evaluate_all_badges() TO authenticated;
+
+-- 5. Evaluate after each new card
+CREATE OR REPLACE FUNCTION public.handle_user_card_badges()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.award_badges(NEW.user_id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER award_badges_on_user_card
+    AFTER INSERT ON public.user_cards
+    FOR EACH ROW
+    EXECUTE FUNCTION public.handle_user_card_badges();
+
+-- 6. Evaluate a badge for every collector when it is created or edited
+CREATE OR REPLACE FUNCTION public.handle_badge_changed()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.user_badges (user_id, badge_id)
+  SELECT u.user_id, NEW.id
+  FROM (SELECT DISTINCT user_id FROM public.user_cards) u
+  WHERE public.badge_criteria_met(u.user_id, NEW)
+  ON CONFLICT (user_id, badge_id) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER award_badge_on_badge_changed
+    AFTER INSERT OR UPDATE ON public.badges
+    FOR EACH ROW
+    EXECUTE FUNCTION public.handle_badge_changed();
+
+-- 7. Users can no longer award badges to themselves
+DROP POLICY IF EXISTS "System can award badges" ON public.user_badges;
+
+-- 8. Backfill existing collectors
+SELECT COUNT(*)
+FROM (SELECT DISTINCT user_id FROM public.user_cards) u
+CROSS JOIN LATERAL public.award_badges(u.user_id);
@@ -0,0 +1,10 @@
+-- Admin badge management: manual grant/revoke and listing badge holders.
+
+-- 1. Admins can grant and revoke badges
+CREATE POLICY "Admins can manage user badges" ON public.user_badges
+    FOR ALL USING (public.has_role(auth.uid(), 'admin'))
+    WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- 2. Admins can look up any profile to list holders and pick grantees
+CREATE POLICY "Admins can view all profiles" ON public.profiles
+    FOR SELECT USING (public.has_role(auth.uid(), 'admin'));
@@ -0,0 +1,222 @@
+-- Rotating (TOTP-style) redemption codes.
+-- Events in rotating mode only accept a code derived from a per-event secret and
+-- the current time window (or the previous one, to absorb display lag). The
+-- static redemption_code of those events is no longer accepted.
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- 1. Rotation settings
+ALTER TABLE public.events
+  ADD COLUMN rotating_code BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN rotation_seconds INTEGER NOT NULL DEFAULT 30 CHECK (rotation_seconds BETWEEN 10 AND 600);
+
+-- 2. Per-event secrets, kept out of the events table so only admins can read them
+CREATE TABLE public.event_code_secrets (
+    event_id UUID PRIMARY KEY REFERENCES public.events(id) ON DELETE CASCADE,
+    secret TEXT NOT NULL DEFAULT encode(extensions.gen_random_bytes(20), 'hex'),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+ALTER TABLE public.event_code_secrets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage event code secrets" ON public.event_code_secrets
+    FOR ALL USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE OR REPLACE FUNCTION public.handle_new_event_secret()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.event_code_secrets (event_id) VALUES (NEW.id)
+  ON CONFLICT (event_id) DO NOTHING;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER create_event_code_secret
+    AFTER INSERT ON public.events
+    FOR EACH ROW
+    EXECUTE FUNCTION public.handle_new_event_secret();
+
+INSERT INTO public.event_code_secrets (event_id)
+SELECT id FROM public.events
+ON CONFLICT (event_id) DO NOTHING;
+
+-- 3. Code for a secret and time window, in the same YYY-ZZZ format as static codes
+CREATE OR REPLACE FUNCTION public.rotating_code_at(_secret TEXT, _window BIGINT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT substr(c, 1, 3) || '-' || substr(c, 4, 3)
+  FROM (
+    SELECT string_agg(
+      substr('ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789', get_byte(d.h, i) % 36 + 1, 1),
+      '' ORDER BY i
+    ) AS c
+    FROM (SELECT extensions.hmac(_window::TEXT, _secret, 'sha256') AS h) d,
+         generate_series(0, 5) AS i
+  ) codes
+$$;
+
+CREATE OR REPLACE FUNCTION public.rotation_window(_seconds INTEGER, _at TIMESTAMP WITH TIME ZONE DEFAULT now())
+RETURNS BIGINT
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT floor(extract(epoch FROM _at) / _seconds)::BIGINT
+$$;
+
+REVOKE ALL ON FUNCTION public.rotating_code_at(TEXT, BIGINT) FROM PUBLIC, anon, authenticated;
+
+-- 4. Resolve a typed or scanned code to its event
+CREATE OR REPLACE FUNCTION public.resolve_redemption_code(_code TEXT)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH normalized AS (SELECT upper(trim(_code)) AS code)
+  SELECT id FROM (
+    SELECT e.id
+    FROM public.events e, normalized n
+    WHERE e.redemption_code = n.code
+      AND NOT e.rotating_code
+    UNION ALL
+    SELECT e.id
+    FROM public.events e
+    JOIN public.event_code_secrets s ON s.event_id = e.id
+    CROSS JOIN normalized n
+    WHERE e.rotating_code
+      AND n.code IN (
+        public.rotating_code_at(s.secret, public.rotation_window(e.rotation_seconds)),
+        public.rotating_code_at(s.secret, public.rotation_window(e.rotation_seconds) - 1)
+      )
+  ) matches
+  LIMIT 1
+$$;
+
+REVOKE ALL ON FUNCTION public.resolve_redemption_code(TEXT) FROM PUBLIC, anon, authenticated;
+
+-- 5. Live code for the presenter screen (admins only)
+CREATE OR REPLACE FUNCTION public.get_rotating_code(_event_id UUID)
+RETURNS TABLE (
+  code TEXT,
+  rotation_seconds INTEGER,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  server_time TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _seconds INTEGER;
+  _secret TEXT;
+  _window BIGINT;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can display rotating codes' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT e.rotation_seconds, s.secret INTO _seconds, _secret
+  FROM public.events e
+  JOIN public.event_code_secrets s ON s.event_id = e.id
+  WHERE e.id = _event_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Event not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  _window := public.rotation_window(_seconds);
+
+  RETURN QUERY SELECT
+    public.rotating_code_at(_secret, _window),
+    _seconds,
+    to_timestamp((_window + 1) * _seconds),
+    now();
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_rotating_code(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_rotating_code(UUID) TO authenticated;
+
+-- 6. Redemption resolves codes through resolve_redemption_code()
+CREATE OR REPLACE FUNCTION public.redeem_card(_code TEXT)
+RETURNS TABLE (
+  status public.redeem_status,
+  event_id UUID,
+  title TEXT,
+  card_image_url TEXT,
+  rarity public.card_rarity,
+  variant public.card_variant
+)
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _event public.events%ROWTYPE;
+  _existing public.card_variant;
+  _variant public.card_variant;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  SELECT * INTO _event
+  FROM public.events e
+  WHERE e.id = public.resolve_redemption_code(_code);
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT 'not_found'::public.redeem_status, NULL::UUID, NULL::TEXT, NULL::TEXT,
+      NULL::public.card_rarity, NULL::public.card_variant;
+    RETURN;
+  END IF;
+
+  SELECT uc.variant INTO _existing
+  FROM public.user_cards uc
+  WHERE uc.user_id = _user_id AND uc.event_id = _event.id;
+
+  IF FOUND THEN
+    RETURN QUERY SELECT 'already_redeemed'::public.redeem_status, _event.id, _event.title,
+      _event.card_image_url, _event.rarity, _existing;
+    RETURN;
+  END IF;
+
+  -- Deadlines are saved from a naive datetime-local value, so they are off by
+  -- the America/Sao_Paulo offset; keep the 3 hour grace the client used to apply.
+  IF now() > _event.redemption_deadline + interval '3 hours' THEN
+    RETURN QUERY SELECT 'expired'::public.redeem_status, _event.id, _event.title,
+      NULL::TEXT, _event.rarity, NULL::public.card_variant;
+    RETURN;
+  END IF;
+
+  _variant := public.roll_variant(_event.id);
+
+  INSERT INTO public.user_cards (user_id, event_id, variant)
+  VALUES (_user_id, _event.id, _variant)
+  ON CONFLICT ON CONSTRAINT user_cards_user_id_event_id_key DO NOTHING;
+
+  -- A concurrent request for the same user and event won the race
+  IF NOT FOUND THEN
+    SELECT uc.variant INTO _existing
+    FROM public.user_cards uc
+    WHERE uc.user_id = _user_id AND uc.event_id = _event.id;
+
+    RETURN QUERY SELECT 'already_redeemed'::public.redeem_status, _event.id, _event.title,
+      _event.card_image_url, _event.rarity, _existing;
+    RETURN;
+  END IF;
+
+  RETURN QUERY SELECT 'success'::public.redeem_status, _event.id, _event.title,
+    _event.card_image_url, _event.rarity, _variant;
+END;
+$$;
@@ -0,0 +1,276 @@
+-- Brute-force protection for code redemption.
+-- Failed lookups are recorded per user and per client IP. Too many failures in a
+-- short window lock the subject out, and every new lockout within 24 hours
+-- doubles in length (1, 2, 4, ... minutes, capped at 24 hours).
+
+-- 1. Failed attempts
+CREATE TABLE public.redemption_attempts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    ip TEXT,
+    code TEXT NOT NULL,
+    attempted_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX redemption_attempts_user_idx ON public.redemption_attempts (user_id, attempted_at DESC);
+CREATE INDEX redemption_attempts_ip_idx ON public.redemption_attempts (ip, attempted_at DESC);
+
+-- 2. Lockouts per subject ('user' => user id, 'ip' => client address)
+CREATE TABLE public.redemption_lockouts (
+    subject_type TEXT NOT NULL CHECK (subject_type IN ('user', 'ip')),
+    subject TEXT NOT NULL,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+    lockout_count INTEGER NOT NULL DEFAULT 0,
+    locked_until TIMESTAMP WITH TIME ZONE NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    PRIMARY KEY (subject_type, subject)
+);
+
+ALTER TABLE public.redemption_attempts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.redemption_lockouts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view redemption attempts" ON public.redemption_attempts
+    FOR SELECT USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can manage redemption lockouts" ON public.redemption_lockouts
+    FOR ALL USING (public.has_role(auth.uid(), 'admin'));
+
+-- 3. Client address as forwarded by the API gateway
+CREATE OR REPLACE FUNCTION public.request_ip()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT NULLIF(trim(split_part(
+    COALESCE(current_setting('request.headers', true)::json ->> 'x-forwarded-for', ''),
+    ',', 1
+  )), '')
+$$;
+
+-- 4. Lockout state
+CREATE OR REPLACE FUNCTION public.redemption_locked_until(_user_id UUID, _ip TEXT)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT MAX(l.locked_until)
+  FROM public.redemption_lockouts l
+  WHERE l.locked_until > now()
+    AND ((l.subject_type = 'user' AND l.subject = _user_id::TEXT)
+      OR (l.subject_type = 'ip' AND l.subject = _ip))
+$$;
+
+-- Locks the subject out when it reached _max_failures since the last lockout
+-- (and within 15 minutes). Returns the new locked_until, or NULL.
+CREATE OR REPLACE FUNCTION public.apply_redemption_lockout(
+  _subject_type TEXT,
+  _subject TEXT,
+  _user_id UUID,
+  _max_failures INTEGER
+)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _lockout public.redemption_lockouts%ROWTYPE;
+  _since TIMESTAMP WITH TIME ZONE;
+  _failures INTEGER;
+  _count INTEGER;
+  _until TIMESTAMP WITH TIME ZONE;
+BEGIN
+  IF _subject IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO _lockout
+  FROM public.redemption_lockouts l
+  WHERE l.subject_type = _subject_type AND l.subject = _subject
+  FOR UPDATE;
+
+  _since := GREATEST(now() - interval '15 minutes', COALESCE(_lockout.locked_until, '-infinity'));
+
+  IF _subject_type = 'user' THEN
+    SELECT COUNT(*) INTO _failures
+    FROM public.redemption_attempts a
+    WHERE a.user_id = _user_id AND a.attempted_at > _since;
+  ELSE
+    SELECT COUNT(*) INTO _failures
+    FROM public.redemption_attempts a
+    WHERE a.ip = _subject AND a.attempted_at > _since;
+  END IF;
+
+  IF _failures < _max_failures THEN
+    RETURN NULL;
+  END IF;
+
+  -- Escalation resets after a quiet day
+  _count := CASE
+    WHEN _lockout.updated_at IS NULL OR _lockout.updated_at < now() - interval '24 hours' THEN 1
+    ELSE _lockout.lockout_count + 1
+  END;
+  _until := now() + LEAST(interval '1 minute' * power(2, _count - 1), interval '24 hours');
+
+  INSERT INTO public.redemption_lockouts (subject_type, subject, user_id, lockout_count, locked_until, updated_at)
+  VALUES (_subject_type, _subject, _user_id, _count, _until, now())
+  ON CONFLICT (subject_type, subject) DO UPDATE
+    SET lockout_count = EXCLUDED.lockout_count,
+        locked_until = EXCLUDED.locked_until,
+        user_id = COALESCE(EXCLUDED.user_id, public.redemption_lockouts.user_id),
+        updated_at = now();
+
+  RETURN _until;
+END;
+$$;
+
+-- Records a failed lookup and returns the lockout it triggered, if any.
+-- IPs get a much higher limit since a whole congregation may share the venue Wi-Fi.
+CREATE OR REPLACE FUNCTION public.register_failed_redemption(_user_id UUID, _ip TEXT, _code TEXT)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_until TIMESTAMP WITH TIME ZONE;
+  _ip_until TIMESTAMP WITH TIME ZONE;
+BEGIN
+  INSERT INTO public.redemption_attempts (user_id, ip, code)
+  VALUES (_user_id, _ip, left(_code, 32));
+
+  _user_until := public.apply_redemption_lockout('user', _user_id::TEXT, _user_id, 5);
+  _ip_until := public.apply_redemption_lockout('ip', _ip, NULL, 30);
+
+  RETURN GREATEST(_user_until, _ip_until);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.redemption_locked_until(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.apply_redemption_lockout(TEXT, TEXT, UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.register_failed_redemption(UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- 5. Flagged subjects for the admin dashboard
+CREATE OR REPLACE VIEW public.redemption_flags
+WITH (security_invoker = on) AS
+SELECT
+  l.subject_type,
+  l.subject,
+  l.user_id,
+  p.display_name,
+  p.email,
+  l.lockout_count,
+  l.locked_until,
+  l.updated_at,
+  (
+    SELECT COUNT(*)::INTEGER
+    FROM public.redemption_attempts a
+    WHERE a.attempted_at > now() - interval '24 hours'
+      AND ((l.subject_type = 'user' AND a.user_id = l.user_id)
+        OR (l.subject_type = 'ip' AND a.ip = l.subject))
+  ) AS failures_24h
+FROM public.redemption_lockouts l
+LEFT JOIN public.profiles p ON p.user_id = l.user_id;
+
+GRANT SELECT ON public.redemption_flags TO authenticated;
+
+-- 6. Redemption reports lockouts
+ALTER TYPE public.redeem_status ADD VALUE IF NOT EXISTS 'rate_limited';
+
+DROP FUNCTION IF EXISTS public.redeem_card(TEXT);
+
+CREATE FUNCTION public.redeem_card(_code TEXT)
+RETURNS TABLE (
+  status public.redeem_status,
+  event_id UUID,
+  title TEXT,
+  card_image_url TEXT,
+  rarity public.card_rarity,
+  variant public.card_variant,
+  locked_until TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _ip TEXT := public.request_ip();
+  _locked_until TIMESTAMP WITH TIME ZONE;
+  _event public.events%ROWTYPE;
+  _existing public.card_variant;
+  _variant public.card_variant;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  _locked_until := public.redemption_locked_until(_user_id, _ip);
+
+  IF _locked_until IS NOT NULL THEN
+    RETURN QUERY SELECT 'rate_limited'::public.redeem_status, NULL::UUID, NULL::TEXT, NULL::TEXT,
+      NULL::public.card_rarity, NULL::public.card_variant, _locked_until;
+    RETURN;
+  END IF;
+
+  SELECT * INTO _event
+  FROM public.events e
+  WHERE e.id = public.resolve_redemption_code(_code);
+
+  IF NOT FOUND THEN
+    _locked_until := public.register_failed_redemption(_user_id, _ip, _code);
+
+    RETURN QUERY SELECT
+      (CASE WHEN _locked_until IS NULL THEN 'not_found' ELSE 'rate_limited' END)::public.redeem_status,
+      NULL::UUID, NULL::TEXT, NULL::TEXT,
+      NULL::public.card_rarity, NULL::public.card_variant, _locked_until;
+    RETURN;
+  END IF;
+
+  SELECT uc.variant INTO _existing
+  FROM public.user_cards uc
+  WHERE uc.user_id = _user_id AND uc.event_id = _event.id;
+
+  IF FOUND THEN
+    RETURN QUERY SELECT 'already_redeemed'::public.redeem_status, _event.id, _event.title,
+      _event.card_image_url, _event.rarity, _existing, NULL::TIMESTAMP WITH TIME ZONE;
+    RETURN;
+  END IF;
+
+  -- Deadlines are saved from a naive datetime-local value, so they are off by
+  -- the America/Sao_Paulo offset; keep the 3 hour grace the client used to apply.
+  IF now() > _event.redemption_deadline + interval '3 hours' THEN
+    RETURN QUERY SELECT 'expired'::public.redeem_status, _event.id, _event.title,
+      NULL::TEXT, _event.rarity, NULL::public.card_variant, NULL::TIMESTAMP WITH TIME ZONE;
+    RETURN;
+  END IF;
+
+  _variant := public.roll_variant(_event.id);
+
+  INSERT INTO public.user_cards (user_id, event_id, variant)
+  VALUES (_user_id, _event.id, _variant)
+  ON CONFLICT ON CONSTRAINT user_cards_user_id_event_id_key DO NOTHING;
+
+  -- A concurrent request for the same user and event won the race
+  IF NOT FOUND THEN
+    SELECT uc.variant INTO _existing
+    FROM public.user_cards uc
+    WHERE uc.user_id = _user_id AND uc.event_id = _event.id;
+
+    RETURN QUERY SELECT 'already_redeemed'::public.redeem_status, _event.id, _event.title,
+      _event.card_image_url, _event.rarity, _existing, NULL::TIMESTAMP WITH TIME ZONE;
+    RETURN;
+  END IF;
+
+  RETURN QUERY SELECT 'success'::public.redeem_status, _event.id, _event.title,
+    _event.card_image_url, _event.rarity, _variant, NULL::TIMESTAMP WITH TIME ZONE;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.redeem_card(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.redeem_card(TEXT) TO authenticated;
@@ -0,0 +1,109 @@
+-- Redemption deadlines as true instants.
+-- The admin form used to send a naive datetime-local value, which Postgres read
+-- as UTC, and redemption compensated with a fixed 3 hour grace. Deadlines are now
+-- converted from the organization timezone on the client, so existing rows are
+-- shifted once and the grace is dropped.
+
+-- 1. Organization timezone (keep in sync with ORG_TIMEZONE in src/lib/deadline.ts)
+CREATE OR REPLACE FUNCTION public.org_timezone()
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT 'America/Sao_Paulo'::TEXT
+$$;
+
+-- 2. Reinterpret stored deadlines as org wall-clock time
+UPDATE public.events
+SET redemption_deadline = (redemption_deadline AT TIME ZONE 'UTC') AT TIME ZONE public.org_timezone();
+
+-- 3. Redemption compares against the deadline instant directly
+CREATE OR REPLACE FUNCTION public.redeem_card(_code TEXT)
+RETURNS TABLE (
+  status public.redeem_status,
+  event_id UUID,
+  title TEXT,
+  card_image_url TEXT,
+  rarity public.card_rarity,
+  variant public.card_variant,
+  locked_until TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _ip TEXT := public.request_ip();
+  _locked_until TIMESTAMP WITH TIME ZONE;
+  _event public.events%ROWTYPE;
+  _existing public.card_variant;
+  _variant public.card_variant;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  _locked_until := public.redemption_locked_until(_user_id, _ip);
+
+  IF _locked_until IS NOT NULL THEN
+    RETURN QUERY SELECT 'rate_limited'::public.redeem_status, NULL::UUID, NULL::TEXT, NULL::TEXT,
+      NULL::public.card_rarity, NULL::public.card_variant, _locked_until;
+    RETURN;
+  END IF;
+
+  SELECT * INTO _event
+  FROM public.events e
+  WHERE e.id = public.resolve_redemption_code(_code);
+
+  IF NOT FOUND THEN
+    _locked_until := public.register_failed_redemption(_user_id, _ip, _code);
+
+    RETURN QUERY SELECT
+      (CASE WHEN _locked_until IS NULL THEN 'not_found' ELSE 'rate_limited' END)::public.redeem_status,
+      NULL::UUID, NULL::TEXT, NULL::TEXT,
+      NULL::public.card_rarity, NULL::public.card_variant, _locked_until;
+    RETURN;
+  END IF;
+
+  SELECT uc.variant INTO _existing
+  FROM public.user_cards uc
+  WHERE uc.user_id = _user_id AND uc.event_id = _event.id;
+
+  IF FOUND THEN
+    RETURN QUERY SELECT 'already_redeemed'::public.redeem_status, _event.id, _event.title,
+      _event.card_image_url, _event.rarity, _existing, NULL::TIMESTAMP WITH TIME ZONE;
+    RETURN;
+  END IF;
+
+  IF now() > _event.redemption_deadline THEN
+    RETURN QUERY SELECT 'expired'::public.redeem_status, _event.id, _event.title,
+      NULL::TEXT, _event.rarity, NULL::public.card_variant, NULL::TIMESTAMP WITH TIME ZONE;
+    RETURN;
+  END IF;
+
+  _variant := public.roll_variant(_event.id);
+
+  INSERT INTO public.user_cards (user_id, event_id, variant)
+  VALUES (_user_id, _event.id, _variant)
+  ON CONFLICT ON CONSTRAINT user_cards_user_id_event_id_key DO NOTHING;
+
+  -- A concurrent request for the same user and event won the race
+  IF NOT FOUND THEN
+    SELECT uc.variant INTO _existing
+    FROM public.user_cards uc
+    WHERE uc.user_id = _user_id AND uc.event_id = _event.id;
+
+    RETURN QUERY SELECT 'already_redeemed'::public.redeem_status, _event.id, _event.title,
+      _event.card_image_url, _event.rarity, _existing, NULL::TIMESTAMP WITH TIME ZONE;
+    RETURN;
+  END IF;
+
+  RETURN QUERY SELECT 'success'::public.redeem_status, _event.id, _event.title,
+    _event.card_image_url, _event.rarity, _variant, NULL::TIMESTAMP WITH TIME ZONE;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.redeem_card(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.redeem_card(TEXT) TO authenticated;
@@ -0,0 +1,138 @@
+-- Event lifecycle.
+-- New events start as drafts and stay hidden from members until they are
+-- published, either by hand or automatically once a scheduled publish_at passes.
+-- Archived events stay visible so collections remain complete.
+
+-- 1. Status and publish time
+CREATE TYPE public.event_status AS ENUM ('draft', 'scheduled', 'published', 'archived');
+
+ALTER TABLE public.events
+  ADD COLUMN status public.event_status NOT NULL DEFAULT 'draft',
+  ADD COLUMN publish_at TIMESTAMP WITH TIME ZONE,
+  ADD CONSTRAINT events_publish_at_check CHECK (status <> 'scheduled' OR publish_at IS NOT NULL);
+
+-- Everything created before this migration was already public
+UPDATE public.events SET status = 'published';
+
+-- 2. Visibility rule shared by RLS, redemption and badges
+CREATE OR REPLACE FUNCTION public.event_is_public(_status public.event_status, _publish_at TIMESTAMP WITH TIME ZONE)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT _status IN ('published', 'archived')
+    OR (_status = 'scheduled' AND _publish_at <= now())
+$$;
+
+DROP POLICY IF EXISTS "Events are viewable by authenticated users" ON public.events;
+
+CREATE POLICY "Public events are viewable by authenticated users" ON public.events
+    FOR SELECT TO authenticated USING (public.event_is_public(status, publish_at));
+
+-- 3. Codes of hidden events do not resolve
+CREATE OR REPLACE FUNCTION public.resolve_redemption_code(_code TEXT)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH normalized AS (SELECT upper(trim(_code)) AS code)
+  SELECT id FROM (
+    SELECT e.id
+    FROM public.events e, normalized n
+    WHERE e.redemption_code = n.code
+      AND NOT e.rotating_code
+      AND public.event_is_public(e.status, e.publish_at)
+    UNION ALL
+    SELECT e.id
+    FROM public.events e
+    JOIN public.event_code_secrets s ON s.event_id = e.id
+    CROSS JOIN normalized n
+    WHERE e.rotating_code
+      AND public.event_is_public(e.status, e.publish_at)
+      AND n.code IN (
+        public.rotating_code_at(s.secret, public.rotation_window(e.rotation_seconds)),
+        public.rotating_code_at(s.secret, public.rotation_window(e.rotation_seconds) - 1)
+      )
+  ) matches
+  LIMIT 1
+$$;
+
+REVOKE ALL ON FUNCTION public.resolve_redemption_code(TEXT) FROM PUBLIC, anon, authenticated;
+
+-- 4. Collector badges only require the cards members can actually see
+CREATE OR REPLACE FUNCTION public.badge_criteria_met(_user_id UUID, _badge public.badges)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE _badge.badge_type
+    WHEN 'season_collector' THEN EXISTS (
+      SELECT 1
+      FROM public.seasons s
+      WHERE s.id = _badge.season_id
+        AND s.end_date < current_date
+        AND EXISTS (
+          SELECT 1 FROM public.events e
+          WHERE e.season_id = s.id AND public.event_is_public(e.status, e.publish_at)
+        )
+        AND NOT EXISTS (
+          SELECT 1
+          FROM public.events e
+          WHERE e.season_id = s.id
+            AND public.event_is_public(e.status, e.publish_at)
+            AND NOT EXISTS (
+              SELECT 1 FROM public.user_cards uc
+              WHERE uc.user_id = _user_id AND uc.event_id = e.id
+            )
+        )
+    )
+    WHEN 'supreme_collector' THEN EXISTS (
+      SELECT 1
+      FROM public.seasons s
+      WHERE s.end_date < current_date
+        AND EXISTS (
+          SELECT 1 FROM public.events e
+          WHERE e.season_id = s.id AND public.event_is_public(e.status, e.publish_at)
+        )
+    ) AND NOT EXISTS (
+      SELECT 1
+      FROM public.events e
+      JOIN public.seasons s ON s.id = e.season_id
+      WHERE s.end_date < current_date
+        AND public.event_is_public(e.status, e.publish_at)
+        AND NOT EXISTS (
+          SELECT 1 FROM public.user_cards uc
+          WHERE uc.user_id = _user_id AND uc.event_id = e.id
+        )
+    )
+    WHEN 'total_cards' THEN (
+      SELECT COUNT(*)
+      FROM public.user_cards uc
+      JOIN public.events e ON e.id = uc.event_id
+      WHERE uc.user_id = _user_id
+        AND (_badge.season_id IS NULL OR e.season_id = _badge.season_id)
+    ) >= COALESCE(_badge.threshold, 1)
+    WHEN 'first_relic' THEN EXISTS (
+      SELECT 1
+      FROM public.user_cards uc
+      JOIN public.events e ON e.id = uc.event_id
+      WHERE uc.user_id = _user_id
+        AND uc.variant = 'reliquia'
+        AND (_badge.season_id IS NULL OR e.season_id = _badge.season_id)
+    )
+    WHEN 'rarity_master' THEN EXISTS (
+      SELECT 1
+      FROM public.user_cards uc
+      JOIN public.events e ON e.id = uc.event_id
+      WHERE uc.user_id = _user_id
+        AND (_badge.season_id IS NULL OR e.season_id = _badge.season_id)
+      GROUP BY e.season_id
+      HAVING COUNT(DISTINCT e.rarity) = array_length(enum_range(NULL::public.card_rarity), 1)
+    )
+    ELSE false
+  END
+$$;
@@ -0,0 +1,54 @@
+-- Members read events through events_public only.
+-- The view never exposes redemption codes and only reveals the card artwork for
+-- events the member owns or whose redemption window has closed. The base table
+-- becomes admin-only.
+
+-- 1. Public events view (runs as owner so it can apply its own filtering)
+CREATE OR REPLACE VIEW public.events_public
+WITH (security_barrier = on) AS
+SELECT
+  e.id,
+  e.season_id,
+  e.title,
+  e.theme,
+  e.preacher,
+  e.event_date,
+  e.rarity,
+  e.redemption_opens_at,
+  e.redemption_deadline,
+  CASE
+    WHEN now() > e.redemption_deadline
+      OR EXISTS (
+        SELECT 1 FROM public.user_cards uc
+        WHERE uc.event_id = e.id AND uc.user_id = auth.uid()
+      )
+    THEN e.card_image_url
+  END AS card_image_url,
+  e.created_at,
+  e.updated_at
+FROM public.events e
+WHERE public.event_is_public(e.status, e.publish_at);
+
+REVOKE ALL ON public.events_public FROM PUBLIC, anon;
+GRANT SELECT ON public.events_public TO authenticated;
+
+-- 2. Only admins read the events table itself
+DROP POLICY IF EXISTS "Public events are viewable by authenticated users" ON public.events;
+
+-- 3. Ranking joins the public view instead of the base table
+DROP VIEW IF EXISTS public.ranking_view;
+
+CREATE VIEW public.ranking_view
+WITH (security_invoker = on) AS
+SELECT
+  uc.user_id,
+  p.display_name,
+  p.avatar_url,
+  e.season_id,
+  COUNT(uc.id)::integer as card_count
+FROM public.user_cards uc
+INNER JOIN public.events_public e ON uc.event_id = e.id
+INNER JOIN public.profiles_public p ON uc.user_id = p.user_id
+GROUP BY uc.user_id, p.display_name, p.avatar_url, e.season_id;
+
+GRANT SELECT ON public.ranking_view TO authenticated;
@@ -0,0 +1,77 @@
+-- Weighted ranking points.
+-- Every card is worth the points of its rarity plus the bonus of its variant.
+-- Admins tune both tables; ranking_view exposes the totals and a breakdown.
+
+-- 1. Point tables
+CREATE TABLE public.rarity_points (
+    rarity public.card_rarity PRIMARY KEY,
+    points INTEGER NOT NULL CHECK (points >= 0),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE TABLE public.variant_points (
+    variant public.card_variant PRIMARY KEY,
+    points INTEGER NOT NULL CHECK (points >= 0),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+INSERT INTO public.rarity_points (rarity, points) VALUES
+  ('comum', 1), ('raro', 2), ('epico', 4), ('lendario', 8);
+
+INSERT INTO public.variant_points (variant, points) VALUES
+  ('comum', 0), ('holografica', 1), ('edicao_diamante', 3), ('reliquia', 5);
+
+ALTER TABLE public.rarity_points ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.variant_points ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Rarity points are viewable by authenticated users" ON public.rarity_points
+    FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Admins can manage rarity points" ON public.rarity_points
+    FOR ALL USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Variant points are viewable by authenticated users" ON public.variant_points
+    FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Admins can manage variant points" ON public.variant_points
+    FOR ALL USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_rarity_points_updated_at
+    BEFORE UPDATE ON public.rarity_points
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_variant_points_updated_at
+    BEFORE UPDATE ON public.variant_points
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- 2. Ranking with points and per-rarity / per-variant counts
+DROP VIEW IF EXISTS public.ranking_view;
+
+CREATE VIEW public.ranking_view
+WITH (security_invoker = on) AS
+SELECT
+  uc.user_id,
+  p.display_name,
+  p.avatar_url,
+  e.season_id,
+  COUNT(uc.id)::integer as card_count,
+  (COALESCE(SUM(rp.points), 0) + COALESCE(SUM(vp.points), 0))::integer as points,
+  COALESCE(SUM(rp.points), 0)::integer as rarity_points,
+  COALESCE(SUM(vp.points), 0)::integer as variant_points,
+  COUNT(*) FILTER (WHERE e.rarity = 'comum')::integer as comum_count,
+  COUNT(*) FILTER (WHERE e.rarity = 'raro')::integer as raro_count,
+  COUNT(*) FILTER (WHERE e.rarity = 'epico')::integer as epico_count,
+  COUNT(*) FILTER (WHERE e.rarity = 'lendario')::integer as lendario_count,
+  COUNT(*) FILTER (WHERE uc.variant = 'holografica')::integer as holografica_count,
+  COUNT(*) FILTER (WHERE uc.variant = 'edicao_diamante')::integer as edicao_diamante_count,
+  COUNT(*) FILTER (WHERE uc.variant = 'reliquia')::integer as reliquia_count
+FROM public.user_cards uc
+INNER JOIN public.events_public e ON uc.event_id = e.id
+INNER JOIN public.profiles_public p ON uc.user_id = p.user_id
+LEFT JOIN public.rarity_points rp ON rp.rarity = e.rarity
+LEFT JOIN public.variant_points vp ON vp.variant = uc.variant
+GROUP BY uc.user_id, p.display_name, p.avatar_url, e.season_id;
+
+GRANT SELECT ON public.ranking_view TO authenticated;
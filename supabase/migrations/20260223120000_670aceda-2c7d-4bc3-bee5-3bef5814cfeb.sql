@@ -0,0 +1,103 @@
+-- Server-side ranking with shared placement.
+-- Members with the same score share a competition-style rank (1, 1, 3) so every
+-- client shows the same podium. Within a shared rank the order is deterministic:
+-- whoever reached the score first (earliest last redemption) comes first.
+
+-- 1. Expose when each member last redeemed a card
+DROP VIEW IF EXISTS public.ranking_view;
+
+CREATE VIEW public.ranking_view
+WITH (security_invoker = on) AS
+SELECT
+  uc.user_id,
+  p.display_name,
+  p.avatar_url,
+  e.season_id,
+  COUNT(uc.id)::integer as card_count,
+  (COALESCE(SUM(rp.points), 0) + COALESCE(SUM(vp.points), 0))::integer as points,
+  COALESCE(SUM(rp.points), 0)::integer as rarity_points,
+  COALESCE(SUM(vp.points), 0)::integer as variant_points,
+  COUNT(*) FILTER (WHERE e.rarity = 'comum')::integer as comum_count,
+  COUNT(*) FILTER (WHERE e.rarity = 'raro')::integer as raro_count,
+  COUNT(*) FILTER (WHERE e.rarity = 'epico')::integer as epico_count,
+  COUNT(*) FILTER (WHERE e.rarity = 'lendario')::integer as lendario_count,
+  COUNT(*) FILTER (WHERE uc.variant = 'holografica')::integer as holografica_count,
+  COUNT(*) FILTER (WHERE uc.variant = 'edicao_diamante')::integer as edicao_diamante_count,
+  COUNT(*) FILTER (WHERE uc.variant = 'reliquia')::integer as reliquia_count,
+  MAX(uc.redeemed_at) as last_redeemed_at
+FROM public.user_cards uc
+INNER JOIN public.events_public e ON uc.event_id = e.id
+INNER JOIN public.profiles_public p ON uc.user_id = p.user_id
+LEFT JOIN public.rarity_points rp ON rp.rarity = e.rarity
+LEFT JOIN public.variant_points vp ON vp.variant = uc.variant
+GROUP BY uc.user_id, p.display_name, p.avatar_url, e.season_id;
+
+GRANT SELECT ON public.ranking_view TO authenticated;
+
+-- 2. Ranked leaderboard for one season (or all of them when _season_id is NULL).
+-- _mode 'points' ranks by points then card count, 'count' the other way around.
+CREATE OR REPLACE FUNCTION public.get_ranking(_season_id UUID DEFAULT NULL, _mode TEXT DEFAULT 'points')
+RETURNS TABLE (
+  rank INTEGER,
+  user_id UUID,
+  display_name TEXT,
+  avatar_url TEXT,
+  card_count INTEGER,
+  points INTEGER,
+  rarity_points INTEGER,
+  variant_points INTEGER,
+  comum_count INTEGER,
+  raro_count INTEGER,
+  epico_count INTEGER,
+  lendario_count INTEGER,
+  holografica_count INTEGER,
+  edicao_diamante_count INTEGER,
+  reliquia_count INTEGER,
+  reached_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH totals AS (
+    SELECT
+      r.user_id,
+      MAX(r.display_name) AS display_name,
+      MAX(r.avatar_url) AS avatar_url,
+      SUM(r.card_count)::integer AS card_count,
+      SUM(r.points)::integer AS points,
+      SUM(r.rarity_points)::integer AS rarity_points,
+      SUM(r.variant_points)::integer AS variant_points,
+      SUM(r.comum_count)::integer AS comum_count,
+      SUM(r.raro_count)::integer AS raro_count,
+      SUM(r.epico_count)::integer AS epico_count,
+      SUM(r.lendario_count)::integer AS lendario_count,
+      SUM(r.holografica_count)::integer AS holografica_count,
+      SUM(r.edicao_diamante_count)::integer AS edicao_diamante_count,
+      SUM(r.reliquia_count)::integer AS reliquia_count,
+      MAX(r.last_redeemed_at) AS reached_at
+    FROM public.ranking_view r
+    WHERE _season_id IS NULL OR r.season_id = _season_id
+    GROUP BY r.user_id
+  ),
+  scored AS (
+    SELECT
+      t.*,
+      CASE WHEN _mode = 'count' THEN t.card_count ELSE t.points END AS primary_score,
+      CASE WHEN _mode = 'count' THEN t.points ELSE t.card_count END AS secondary_score
+    FROM totals t
+  )
+  SELECT
+    (RANK() OVER (ORDER BY s.primary_score DESC, s.secondary_score DESC))::integer,
+    s.user_id, s.display_name, s.avatar_url,
+    s.card_count, s.points, s.rarity_points, s.variant_points,
+    s.comum_count, s.raro_count, s.epico_count, s.lendario_count,
+    s.holografica_count, s.edicao_diamante_count, s.reliquia_count,
+    s.reached_at
+  FROM scored s
+  ORDER BY s.primary_score DESC, s.secondary_score DESC, s.reached_at ASC, s.user_id
+$$;
+
+REVOKE ALL ON FUNCTION public.get_ranking(UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_ranking(UUID, TEXT) TO authenticated;
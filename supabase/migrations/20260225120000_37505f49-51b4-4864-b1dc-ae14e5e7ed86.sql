@@ -0,0 +1,115 @@
+-- Paginated leaderboard.
+-- The Ranking page pages through the ranked list instead of downloading it whole,
+-- and asks separately for the caller's own position and the members around it.
+
+-- 1. One page of the ranking plus the total number of ranked members.
+-- Ordering by rank, then reached_at and user_id matches get_ranking().
+CREATE OR REPLACE FUNCTION public.get_leaderboard(
+  _season_id UUID DEFAULT NULL,
+  _mode TEXT DEFAULT 'points',
+  _page INTEGER DEFAULT 0,
+  _page_size INTEGER DEFAULT 25
+)
+RETURNS TABLE (
+  list_position INTEGER,
+  rank INTEGER,
+  user_id UUID,
+  display_name TEXT,
+  avatar_url TEXT,
+  card_count INTEGER,
+  points INTEGER,
+  rarity_points INTEGER,
+  variant_points INTEGER,
+  comum_count INTEGER,
+  raro_count INTEGER,
+  epico_count INTEGER,
+  lendario_count INTEGER,
+  holografica_count INTEGER,
+  edicao_diamante_count INTEGER,
+  reliquia_count INTEGER,
+  reached_at TIMESTAMP WITH TIME ZONE,
+  total_count INTEGER
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH ranked AS (
+    SELECT
+      (ROW_NUMBER() OVER (ORDER BY r.rank, r.reached_at, r.user_id))::integer AS list_position,
+      r.*,
+      (COUNT(*) OVER ())::integer AS total_count
+    FROM public.get_ranking(_season_id, _mode) r
+  )
+  SELECT
+    r.list_position, r.rank, r.user_id, r.display_name, r.avatar_url,
+    r.card_count, r.points, r.rarity_points, r.variant_points,
+    r.comum_count, r.raro_count, r.epico_count, r.lendario_count,
+    r.holografica_count, r.edicao_diamante_count, r.reliquia_count,
+    r.reached_at, r.total_count
+  FROM ranked r
+  ORDER BY r.list_position
+  OFFSET GREATEST(_page, 0) * LEAST(GREATEST(_page_size, 1), 100)
+  LIMIT LEAST(GREATEST(_page_size, 1), 100)
+$$;
+
+REVOKE ALL ON FUNCTION public.get_leaderboard(UUID, TEXT, INTEGER, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_leaderboard(UUID, TEXT, INTEGER, INTEGER) TO authenticated;
+
+-- 2. The caller's row and up to _neighbours members on each side of it.
+-- Returns nothing when the caller has no cards in the selected ranking.
+CREATE OR REPLACE FUNCTION public.get_my_ranking(
+  _season_id UUID DEFAULT NULL,
+  _mode TEXT DEFAULT 'points',
+  _neighbours INTEGER DEFAULT 1
+)
+RETURNS TABLE (
+  list_position INTEGER,
+  rank INTEGER,
+  user_id UUID,
+  display_name TEXT,
+  avatar_url TEXT,
+  card_count INTEGER,
+  points INTEGER,
+  rarity_points INTEGER,
+  variant_points INTEGER,
+  comum_count INTEGER,
+  raro_count INTEGER,
+  epico_count INTEGER,
+  lendario_count INTEGER,
+  holografica_count INTEGER,
+  edicao_diamante_count INTEGER,
+  reliquia_count INTEGER,
+  reached_at TIMESTAMP WITH TIME ZONE,
+  total_count INTEGER
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH ranked AS (
+    SELECT
+      (ROW_NUMBER() OVER (ORDER BY r.rank, r.reached_at, r.user_id))::integer AS list_position,
+      r.*,
+      (COUNT(*) OVER ())::integer AS total_count
+    FROM public.get_ranking(_season_id, _mode) r
+  ),
+  me AS (
+    SELECT r.list_position FROM ranked r WHERE r.user_id = auth.uid()
+  )
+  SELECT
+    r.list_position, r.rank, r.user_id, r.display_name, r.avatar_url,
+    r.card_count, r.points, r.rarity_points, r.variant_points,
+    r.comum_count, r.raro_count, r.epico_count, r.lendario_count,
+    r.holografica_count, r.edicao_diamante_count, r.reliquia_count,
+    r.reached_at, r.total_count
+  FROM ranked r, me
+  WHERE r.list_position BETWEEN me.list_position - LEAST(GREATEST(_neighbours, 0), 10)
+    AND me.list_position + LEAST(GREATEST(_neighbours, 0), 10)
+  ORDER BY r.list_position
+$$;
+
+REVOKE ALL ON FUNCTION public.get_my_ranking(UUID, TEXT, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_my_ranking(UUID, TEXT, INTEGER) TO authenticated;
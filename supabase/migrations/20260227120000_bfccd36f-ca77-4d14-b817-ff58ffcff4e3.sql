@@ -0,0 +1,226 @@
+-- Season final standings.
+-- Closing an ended season freezes its leaderboard into season_standings, so later
+-- changes to points, events or cards no longer move it, and drafts the podium into
+-- season_winners for admins to confirm. Confirmed winners form the Hall of Fame.
+
+-- 1. Closing time
+ALTER TABLE public.seasons ADD COLUMN closed_at TIMESTAMP WITH TIME ZONE;
+
+-- 2. Frozen leaderboard (names are copied so the snapshot never changes)
+CREATE TABLE public.season_standings (
+    season_id UUID REFERENCES public.seasons(id) ON DELETE CASCADE NOT NULL,
+    user_id UUID NOT NULL,
+    rank INTEGER NOT NULL,
+    display_name TEXT,
+    avatar_url TEXT,
+    card_count INTEGER NOT NULL,
+    points INTEGER NOT NULL,
+    rarity_points INTEGER NOT NULL,
+    variant_points INTEGER NOT NULL,
+    comum_count INTEGER NOT NULL,
+    raro_count INTEGER NOT NULL,
+    epico_count INTEGER NOT NULL,
+    lendario_count INTEGER NOT NULL,
+    holografica_count INTEGER NOT NULL,
+    edicao_diamante_count INTEGER NOT NULL,
+    reliquia_count INTEGER NOT NULL,
+    reached_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    PRIMARY KEY (season_id, user_id)
+);
+
+ALTER TABLE public.season_standings ENABLE ROW LEVEL SECURITY;
+
+-- Read-only for everyone; rows are only written by close_season()
+CREATE POLICY "Season standings are viewable by authenticated users" ON public.season_standings
+    FOR SELECT TO authenticated USING (true);
+
+-- 3. Prize winners
+CREATE TABLE public.season_winners (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    season_id UUID REFERENCES public.seasons(id) ON DELETE CASCADE NOT NULL,
+    user_id UUID NOT NULL,
+    place INTEGER NOT NULL CHECK (place >= 1),
+    display_name TEXT,
+    avatar_url TEXT,
+    prize TEXT,
+    confirmed_at TIMESTAMP WITH TIME ZONE,
+    confirmed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    UNIQUE (season_id, user_id)
+);
+
+ALTER TABLE public.season_winners ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Confirmed winners are viewable by authenticated users" ON public.season_winners
+    FOR SELECT TO authenticated USING (confirmed_at IS NOT NULL);
+
+CREATE POLICY "Admins can manage season winners" ON public.season_winners
+    FOR ALL USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_season_winners_updated_at
+    BEFORE UPDATE ON public.season_winners
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- 4. Closed seasons are ranked from their snapshot
+CREATE OR REPLACE FUNCTION public.get_ranking(_season_id UUID DEFAULT NULL, _mode TEXT DEFAULT 'points')
+RETURNS TABLE (
+  rank INTEGER,
+  user_id UUID,
+  display_name TEXT,
+  avatar_url TEXT,
+  card_count INTEGER,
+  points INTEGER,
+  rarity_points INTEGER,
+  variant_points INTEGER,
+  comum_count INTEGER,
+  raro_count INTEGER,
+  epico_count INTEGER,
+  lendario_count INTEGER,
+  holografica_count INTEGER,
+  edicao_diamante_count INTEGER,
+  reliquia_count INTEGER,
+  reached_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH closed AS (
+    SELECT EXISTS (
+      SELECT 1 FROM public.seasons s WHERE s.id = _season_id AND s.closed_at IS NOT NULL
+    ) AS is_closed
+  ),
+  totals AS (
+    SELECT
+      r.user_id,
+      MAX(r.display_name) AS display_name,
+      MAX(r.avatar_url) AS avatar_url,
+      SUM(r.card_count)::integer AS card_count,
+      SUM(r.points)::integer AS points,
+      SUM(r.rarity_points)::integer AS rarity_points,
+      SUM(r.variant_points)::integer AS variant_points,
+      SUM(r.comum_count)::integer AS comum_count,
+      SUM(r.raro_count)::integer AS raro_count,
+      SUM(r.epico_count)::integer AS epico_count,
+      SUM(r.lendario_count)::integer AS lendario_count,
+      SUM(r.holografica_count)::integer AS holografica_count,
+      SUM(r.edicao_diamante_count)::integer AS edicao_diamante_count,
+      SUM(r.reliquia_count)::integer AS reliquia_count,
+      MAX(r.last_redeemed_at) AS reached_at
+    FROM public.ranking_view r, closed c
+    WHERE NOT c.is_closed
+      AND (_season_id IS NULL OR r.season_id = _season_id)
+    GROUP BY r.user_id
+    UNION ALL
+    SELECT
+      ss.user_id, ss.display_name, ss.avatar_url,
+      ss.card_count, ss.points, ss.rarity_points, ss.variant_points,
+      ss.comum_count, ss.raro_count, ss.epico_count, ss.lendario_count,
+      ss.holografica_count, ss.edicao_diamante_count, ss.reliquia_count,
+      ss.reached_at
+    FROM public.season_standings ss, closed c
+    WHERE c.is_closed AND ss.season_id = _season_id
+  ),
+  scored AS (
+    SELECT
+      t.*,
+      CASE WHEN _mode = 'count' THEN t.card_count ELSE t.points END AS primary_score,
+      CASE WHEN _mode = 'count' THEN t.points ELSE t.card_count END AS secondary_score
+    FROM totals t
+  )
+  SELECT
+    (RANK() OVER (ORDER BY s.primary_score DESC, s.secondary_score DESC))::integer,
+    s.user_id, s.display_name, s.avatar_url,
+    s.card_count, s.points, s.rarity_points, s.variant_points,
+    s.comum_count, s.raro_count, s.epico_count, s.lendario_count,
+    s.holografica_count, s.edicao_diamante_count, s.reliquia_count,
+    s.reached_at
+  FROM scored s
+  ORDER BY s.primary_score DESC, s.secondary_score DESC, s.reached_at ASC, s.user_id
+$$;
+
+-- 5. Freeze an ended season (admins only). Returns the number of ranked members.
+CREATE OR REPLACE FUNCTION public.close_season(_season_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _season public.seasons%ROWTYPE;
+  _ranked INTEGER;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can close seasons' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO _season FROM public.seasons WHERE id = _season_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Season not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _season.closed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Season is already closed' USING ERRCODE = '55000';
+  END IF;
+
+  IF _season.end_date >= (now() AT TIME ZONE public.org_timezone())::date THEN
+    RAISE EXCEPTION 'Season has not ended yet' USING ERRCODE = '55000';
+  END IF;
+
+  -- Ranked by points, the default leaderboard
+  INSERT INTO public.season_standings (
+    season_id, user_id, rank, display_name, avatar_url,
+    card_count, points, rarity_points, variant_points,
+    comum_count, raro_count, epico_count, lendario_count,
+    holografica_count, edicao_diamante_count, reliquia_count, reached_at
+  )
+  SELECT
+    _season_id, r.user_id, r.rank, r.display_name, r.avatar_url,
+    r.card_count, r.points, r.rarity_points, r.variant_points,
+    r.comum_count, r.raro_count, r.epico_count, r.lendario_count,
+    r.holografica_count, r.edicao_diamante_count, r.reliquia_count, r.reached_at
+  FROM public.get_ranking(_season_id, 'points') r;
+
+  GET DIAGNOSTICS _ranked = ROW_COUNT;
+
+  -- Draft the podium; admins confirm (or adjust) it afterwards
+  INSERT INTO public.season_winners (season_id, user_id, place, display_name, avatar_url)
+  SELECT ss.season_id, ss.user_id, ss.rank, ss.display_name, ss.avatar_url
+  FROM public.season_standings ss
+  WHERE ss.season_id = _season_id AND ss.rank <= 3;
+
+  UPDATE public.seasons SET closed_at = now() WHERE id = _season_id;
+
+  RETURN _ranked;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.close_season(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.close_season(UUID) TO authenticated;
+
+-- 6. Hall of Fame: confirmed winners of closed seasons
+CREATE OR REPLACE VIEW public.hall_of_fame
+WITH (security_invoker = on) AS
+SELECT
+  w.season_id,
+  s.name AS season_name,
+  s.end_date,
+  w.place,
+  w.user_id,
+  w.display_name,
+  w.avatar_url,
+  w.prize,
+  ss.points,
+  ss.card_count
+FROM public.season_winners w
+JOIN public.seasons s ON s.id = w.season_id
+LEFT JOIN public.season_standings ss ON ss.season_id = w.season_id AND ss.user_id = w.user_id
+WHERE s.closed_at IS NOT NULL AND w.confirmed_at IS NOT NULL;
+
+GRANT SELECT ON public.hall_of_fame TO authenticated;
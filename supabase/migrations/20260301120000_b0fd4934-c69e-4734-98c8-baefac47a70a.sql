@@ -0,0 +1,47 @@
+-- Live redemption broadcasts.
+-- Members can only read their own user_cards rows, so Postgres changes on that
+-- table never reach the leaderboard. Every redemption is instead broadcast on
+-- the public "card-redemptions" Realtime topic. The payload only carries what
+-- the ranking already shows publicly.
+
+-- 1. Broadcast after each redemption
+CREATE OR REPLACE FUNCTION public.broadcast_card_redeemed()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _event public.events%ROWTYPE;
+BEGIN
+  SELECT * INTO _event FROM public.events WHERE id = NEW.event_id;
+
+  -- A Realtime outage must never fail the redemption itself
+  BEGIN
+    PERFORM realtime.send(
+      jsonb_build_object(
+        'event_id', NEW.event_id,
+        'season_id', _event.season_id,
+        'user_id', NEW.user_id,
+        'rarity', _event.rarity,
+        'variant', NEW.variant,
+        'redeemed_at', NEW.redeemed_at
+      ),
+      'card_redeemed',
+      'card-redemptions',
+      false
+    );
+  EXCEPTION WHEN OTHERS THEN
+    RAISE WARNING 'Could not broadcast redemption %: %', NEW.id, SQLERRM;
+  END;
+
+  RETURN NEW;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.broadcast_card_redeemed() FROM PUBLIC, anon, authenticated;
+
+CREATE TRIGGER broadcast_card_redeemed_on_user_card
+    AFTER INSERT ON public.user_cards
+    FOR EACH ROW
+    EXECUTE FUNCTION public.broadcast_card_redeemed();
@@ -0,0 +1,341 @@
+-- Trading between collectors.
+-- A trade offers some of the proposer's cards for some of the recipient's. The
+-- recipient accepts or declines it and the proposer may cancel it while it is
+-- pending. Ownership only moves inside accept_trade(), which checks the trade
+-- again first. Admins can switch trading off per season.
+
+-- 1. Per-season switch
+ALTER TABLE public.seasons ADD COLUMN trading_enabled BOOLEAN NOT NULL DEFAULT true;
+
+-- 2. Trades and their cards
+CREATE TYPE public.trade_status AS ENUM ('pending', 'accepted', 'declined', 'cancelled');
+
+CREATE TABLE public.trades (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    proposer_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    recipient_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    status public.trade_status NOT NULL DEFAULT 'pending',
+    message TEXT,
+    responded_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    CONSTRAINT trades_distinct_parties_check CHECK (proposer_id <> recipient_id)
+);
+
+-- The card's event and variant are copied so a trade still reads correctly after the card moves
+CREATE TABLE public.trade_items (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    trade_id UUID REFERENCES public.trades(id) ON DELETE CASCADE NOT NULL,
+    user_card_id UUID REFERENCES public.user_cards(id) ON DELETE SET NULL,
+    owner_id UUID NOT NULL,
+    event_id UUID REFERENCES public.events(id) ON DELETE CASCADE NOT NULL,
+    variant public.card_variant NOT NULL,
+    UNIQUE (trade_id, user_card_id)
+);
+
+CREATE INDEX idx_trades_proposer ON public.trades (proposer_id, status);
+CREATE INDEX idx_trades_recipient ON public.trades (recipient_id, status);
+CREATE INDEX idx_trade_items_user_card ON public.trade_items (user_card_id);
+
+ALTER TABLE public.trades ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.trade_items ENABLE ROW LEVEL SECURITY;
+
+-- Read-only for the two parties; every change goes through the functions below
+CREATE POLICY "Trade parties can view their trades" ON public.trades
+    FOR SELECT TO authenticated
+    USING (auth.uid() IN (proposer_id, recipient_id) OR public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Trade parties can view trade items" ON public.trade_items
+    FOR SELECT TO authenticated
+    USING (EXISTS (
+      SELECT 1 FROM public.trades t
+      WHERE t.id = trade_id
+        AND (auth.uid() IN (t.proposer_id, t.recipient_id) OR public.has_role(auth.uid(), 'admin'))
+    ));
+
+CREATE TRIGGER update_trades_updated_at
+    BEFORE UPDATE ON public.trades
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- 3. Whether cards of an event may change hands
+CREATE OR REPLACE FUNCTION public.event_tradeable(_event_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.events e
+    LEFT JOIN public.seasons s ON s.id = e.season_id
+    WHERE e.id = _event_id
+      AND public.event_is_public(e.status, e.publish_at)
+      AND COALESCE(s.trading_enabled, true)
+  )
+$$;
+
+-- 4. Raises unless the trade could be carried out right now
+CREATE OR REPLACE FUNCTION public.assert_trade_valid(_trade_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _trade public.trades%ROWTYPE;
+BEGIN
+  SELECT * INTO _trade FROM public.trades WHERE id = _trade_id;
+
+  -- Every card is still held, unchanged, by whoever put it in the trade
+  IF EXISTS (
+    SELECT 1
+    FROM public.trade_items ti
+    LEFT JOIN public.user_cards uc ON uc.id = ti.user_card_id
+    WHERE ti.trade_id = _trade_id
+      AND (uc.id IS NULL OR uc.user_id <> ti.owner_id OR uc.variant <> ti.variant)
+  ) THEN
+    RAISE EXCEPTION 'A card in this trade is no longer owned by its holder' USING ERRCODE = '55000';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.trade_items ti
+    WHERE ti.trade_id = _trade_id AND NOT public.event_tradeable(ti.event_id)
+  ) THEN
+    RAISE EXCEPTION 'Trading is disabled for this season' USING ERRCODE = '55000';
+  END IF;
+
+  -- Nobody may end up with two cards for the same event
+  IF EXISTS (
+    SELECT 1
+    FROM public.trade_items ti
+    JOIN public.user_cards uc
+      ON uc.event_id = ti.event_id
+     AND uc.user_id = CASE WHEN ti.owner_id = _trade.proposer_id THEN _trade.recipient_id ELSE _trade.proposer_id END
+    WHERE ti.trade_id = _trade_id
+      AND NOT EXISTS (
+        SELECT 1 FROM public.trade_items given
+        WHERE given.trade_id = _trade_id AND given.user_card_id = uc.id
+      )
+  ) THEN
+    RAISE EXCEPTION 'The trade would leave a collector with two cards of the same event' USING ERRCODE = '23505';
+  END IF;
+END;
+$$;
+
+-- 5. Cards of a collector that can be offered or asked for
+CREATE OR REPLACE FUNCTION public.get_tradeable_cards(_user_id UUID)
+RETURNS TABLE (
+  user_card_id UUID,
+  event_id UUID,
+  season_id UUID,
+  title TEXT,
+  rarity public.card_rarity,
+  variant public.card_variant,
+  card_image_url TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT uc.id, uc.event_id, e.season_id, e.title, e.rarity, uc.variant, e.card_image_url
+  FROM public.user_cards uc
+  JOIN public.events_public e ON e.id = uc.event_id
+  WHERE auth.uid() IS NOT NULL
+    AND uc.user_id = _user_id
+    AND public.event_tradeable(uc.event_id)
+  ORDER BY e.event_date DESC, e.title
+$$;
+
+-- 6. Propose a trade; returns its id
+CREATE OR REPLACE FUNCTION public.propose_trade(
+  _recipient_id UUID,
+  _offered_card_ids UUID[],
+  _requested_card_ids UUID[],
+  _message TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _trade_id UUID;
+  _added INTEGER;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  IF _recipient_id IS NULL OR _recipient_id = _user_id THEN
+    RAISE EXCEPTION 'Choose another collector to trade with' USING ERRCODE = '22023';
+  END IF;
+
+  _offered_card_ids := ARRAY(SELECT DISTINCT unnest(_offered_card_ids));
+  _requested_card_ids := ARRAY(SELECT DISTINCT unnest(_requested_card_ids));
+
+  IF cardinality(_offered_card_ids) = 0 OR cardinality(_requested_card_ids) = 0 THEN
+    RAISE EXCEPTION 'A trade needs at least one card on each side' USING ERRCODE = '22023';
+  END IF;
+
+  IF cardinality(_offered_card_ids) > 10 OR cardinality(_requested_card_ids) > 10 THEN
+    RAISE EXCEPTION 'A trade can hold at most 10 cards on each side' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.trades (proposer_id, recipient_id, message)
+  VALUES (_user_id, _recipient_id, NULLIF(btrim(_message), ''))
+  RETURNING id INTO _trade_id;
+
+  INSERT INTO public.trade_items (trade_id, user_card_id, owner_id, event_id, variant)
+  SELECT _trade_id, uc.id, uc.user_id, uc.event_id, uc.variant
+  FROM public.user_cards uc
+  WHERE uc.id = ANY(_offered_card_ids) AND uc.user_id = _user_id;
+
+  GET DIAGNOSTICS _added = ROW_COUNT;
+  IF _added <> cardinality(_offered_card_ids) THEN
+    RAISE EXCEPTION 'You can only offer cards you own' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO public.trade_items (trade_id, user_card_id, owner_id, event_id, variant)
+  SELECT _trade_id, uc.id, uc.user_id, uc.event_id, uc.variant
+  FROM public.user_cards uc
+  WHERE uc.id = ANY(_requested_card_ids) AND uc.user_id = _recipient_id;
+
+  GET DIAGNOSTICS _added = ROW_COUNT;
+  IF _added <> cardinality(_requested_card_ids) THEN
+    RAISE EXCEPTION 'You can only ask for cards the other collector owns' USING ERRCODE = '42501';
+  END IF;
+
+  PERFORM public.assert_trade_valid(_trade_id);
+
+  RETURN _trade_id;
+END;
+$$;
+
+-- 7. Accept a pending trade and swap the cards atomically
+CREATE OR REPLACE FUNCTION public.accept_trade(_trade_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _trade public.trades%ROWTYPE;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  SELECT * INTO _trade FROM public.trades WHERE id = _trade_id FOR UPDATE;
+
+  IF NOT FOUND OR _trade.recipient_id <> _user_id THEN
+    RAISE EXCEPTION 'Trade not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _trade.status <> 'pending' THEN
+    RAISE EXCEPTION 'Trade is no longer pending' USING ERRCODE = '55000';
+  END IF;
+
+  -- Hold both sides' cards so a concurrent trade cannot move them mid-swap
+  PERFORM 1 FROM public.user_cards uc
+  WHERE uc.user_id IN (_trade.proposer_id, _trade.recipient_id)
+  FOR UPDATE;
+
+  PERFORM public.assert_trade_valid(_trade_id);
+
+  -- Cards for an event both sides hand over only swap variants: moving them
+  -- one by one would briefly give a collector two cards for that event.
+  UPDATE public.user_cards uc
+  SET variant = other.variant
+  FROM public.trade_items mine
+  JOIN public.trade_items other
+    ON other.trade_id = mine.trade_id
+   AND other.event_id = mine.event_id
+   AND other.owner_id <> mine.owner_id
+  WHERE mine.trade_id = _trade_id AND uc.id = mine.user_card_id;
+
+  UPDATE public.user_cards uc
+  SET user_id = CASE WHEN ti.owner_id = _trade.proposer_id THEN _trade.recipient_id ELSE _trade.proposer_id END
+  FROM public.trade_items ti
+  WHERE ti.trade_id = _trade_id
+    AND uc.id = ti.user_card_id
+    AND NOT EXISTS (
+      SELECT 1 FROM public.trade_items other
+      WHERE other.trade_id = ti.trade_id AND other.event_id = ti.event_id AND other.owner_id <> ti.owner_id
+    );
+
+  UPDATE public.trades SET status = 'accepted', responded_at = now() WHERE id = _trade_id;
+
+  -- Other pending trades over the same cards can no longer go through
+  UPDATE public.trades t
+  SET status = 'cancelled', responded_at = now()
+  WHERE t.status = 'pending'
+    AND t.id <> _trade_id
+    AND EXISTS (
+      SELECT 1
+      FROM public.trade_items ti
+      JOIN public.trade_items moved ON moved.user_card_id = ti.user_card_id AND moved.trade_id = _trade_id
+      WHERE ti.trade_id = t.id
+    );
+
+  PERFORM public.award_badges(_trade.proposer_id);
+  PERFORM public.award_badges(_trade.recipient_id);
+END;
+$$;
+
+-- 8. Decline (recipient) or cancel (proposer) a pending trade
+CREATE OR REPLACE FUNCTION public.decline_trade(_trade_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.trades
+  SET status = 'declined', responded_at = now()
+  WHERE id = _trade_id AND recipient_id = auth.uid() AND status = 'pending';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Trade not found' USING ERRCODE = 'P0002';
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.cancel_trade(_trade_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.trades
+  SET status = 'cancelled', responded_at = now()
+  WHERE id = _trade_id AND proposer_id = auth.uid() AND status = 'pending';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Trade not found' USING ERRCODE = 'P0002';
+  END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.event_tradeable(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.assert_trade_valid(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.get_tradeable_cards(UUID) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.propose_trade(UUID, UUID[], UUID[], TEXT) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.accept_trade(UUID) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.decline_trade(UUID) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.cancel_trade(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_tradeable_cards(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.propose_trade(UUID, UUID[], UUID[], TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.accept_trade(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.decline_trade(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.cancel_trade(UUID) TO authenticated;
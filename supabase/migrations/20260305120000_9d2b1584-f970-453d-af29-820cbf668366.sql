@@ -0,0 +1,278 @@
+-- Extra copies and variant upgrades.
+-- Events may grant extra rolls (e.g. bonus stations): redeeming an owned card
+-- again while the window is open rolls another copy. user_cards keeps one row
+-- per member and event holding the best variant owned, so the ranking, badges
+-- and trades are unchanged. The other copies live in card_copies and can be
+-- fused, several at a time, into a new roll.
+
+-- 1. Extra rolls per event
+ALTER TABLE public.events
+  ADD COLUMN extra_rolls INTEGER NOT NULL DEFAULT 0,
+  ADD CONSTRAINT events_extra_rolls_check CHECK (extra_rolls BETWEEN 0 AND 10);
+
+ALTER TYPE public.redeem_status ADD VALUE IF NOT EXISTS 'extra_copy';
+
+-- 2. Copies besides the one in user_cards. Fused copies are kept, marked as
+--    consumed, so they still count towards the event's extra rolls.
+CREATE TABLE public.card_copies (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    event_id UUID REFERENCES public.events(id) ON DELETE CASCADE NOT NULL,
+    variant public.card_variant NOT NULL,
+    source TEXT NOT NULL CHECK (source IN ('redeem', 'fusion')),
+    obtained_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    consumed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX idx_card_copies_user_event ON public.card_copies (user_id, event_id);
+
+ALTER TABLE public.card_copies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own card copies" ON public.card_copies
+    FOR SELECT TO authenticated USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all card copies" ON public.card_copies
+    FOR SELECT USING (public.has_role(auth.uid(), 'admin'));
+
+-- 3. Whether a variant beats another: more ranking points first, then rarer
+CREATE OR REPLACE FUNCTION public.variant_outranks(_candidate public.card_variant, _current public.card_variant)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH ranked AS (
+    SELECT
+      v.variant,
+      COALESCE(vp.points, 0) AS points,
+      CASE v.variant
+        WHEN 'reliquia' THEN 3
+        WHEN 'holografica' THEN 2
+        WHEN 'edicao_diamante' THEN 1
+        ELSE 0
+      END AS rarity
+    FROM unnest(ARRAY[_candidate, _current]) AS v(variant)
+    LEFT JOIN public.variant_points vp ON vp.variant = v.variant
+  )
+  SELECT (c.points, c.rarity) > (o.points, o.rarity)
+  FROM ranked c, ranked o
+  WHERE c.variant = _candidate AND o.variant = _current
+$$;
+
+-- 4. Store a newly rolled copy; a better variant replaces the one in user_cards
+--    and the replaced variant becomes the copy. The caller holds the user_cards row.
+CREATE OR REPLACE FUNCTION public.grant_card_copy(
+  _user_id UUID,
+  _event_id UUID,
+  _variant public.card_variant,
+  _source TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _current public.card_variant;
+BEGIN
+  SELECT uc.variant INTO _current
+  FROM public.user_cards uc
+  WHERE uc.user_id = _user_id AND uc.event_id = _event_id;
+
+  IF public.variant_outranks(_variant, _current) THEN
+    UPDATE public.user_cards SET variant = _variant
+    WHERE user_id = _user_id AND event_id = _event_id;
+
+    INSERT INTO public.card_copies (user_id, event_id, variant, source)
+    VALUES (_user_id, _event_id, _current, _source);
+
+    RETURN true;
+  END IF;
+
+  INSERT INTO public.card_copies (user_id, event_id, variant, source)
+  VALUES (_user_id, _event_id, _variant, _source);
+
+  RETURN false;
+END;
+$$;
+
+-- 5. Redemption hands out extra copies on events that grant them
+CREATE OR REPLACE FUNCTION public.redeem_card(_code TEXT)
+RETURNS TABLE (
+  status public.redeem_status,
+  event_id UUID,
+  title TEXT,
+  card_image_url TEXT,
+  rarity public.card_rarity,
+  variant public.card_variant,
+  locked_until TIMESTAMP WITH TIME ZONE,
+  opens_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _ip TEXT := public.request_ip();
+  _locked_until TIMESTAMP WITH TIME ZONE;
+  _event public.events%ROWTYPE;
+  _existing public.card_variant;
+  _variant public.card_variant;
+  _rolls_used INTEGER;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  _locked_until := public.redemption_locked_until(_user_id, _ip);
+
+  IF _locked_until IS NOT NULL THEN
+    RETURN QUERY SELECT 'rate_limited'::public.redeem_status, NULL::UUID, NULL::TEXT, NULL::TEXT,
+      NULL::public.card_rarity, NULL::public.card_variant, _locked_until, NULL::TIMESTAMP WITH TIME ZONE;
+    RETURN;
+  END IF;
+
+  SELECT * INTO _event
+  FROM public.events e
+  WHERE e.id = public.resolve_redemption_code(_code);
+
+  IF NOT FOUND THEN
+    _locked_until := public.register_failed_redemption(_user_id, _ip, _code);
+
+    RETURN QUERY SELECT
+      (CASE WHEN _locked_until IS NULL THEN 'not_found' ELSE 'rate_limited' END)::public.redeem_status,
+      NULL::UUID, NULL::TEXT, NULL::TEXT,
+      NULL::public.card_rarity, NULL::public.card_variant, _locked_until, NULL::TIMESTAMP WITH TIME ZONE;
+    RETURN;
+  END IF;
+
+  -- Locked so concurrent requests cannot spend the same extra roll twice
+  SELECT uc.variant INTO _existing
+  FROM public.user_cards uc
+  WHERE uc.user_id = _user_id AND uc.event_id = _event.id
+  FOR UPDATE;
+
+  IF FOUND THEN
+    SELECT COUNT(*) INTO _rolls_used
+    FROM public.card_copies cc
+    WHERE cc.user_id = _user_id AND cc.event_id = _event.id AND cc.source = 'redeem';
+
+    IF _rolls_used < _event.extra_rolls
+      AND (_event.redemption_opens_at IS NULL OR now() >= _event.redemption_opens_at)
+      AND now() <= _event.redemption_deadline
+    THEN
+      _variant := public.roll_variant(_event.id);
+      PERFORM public.grant_card_copy(_user_id, _event.id, _variant, 'redeem');
+
+      RETURN QUERY SELECT 'extra_copy'::public.redeem_status, _event.id, _event.title,
+        _event.card_image_url, _event.rarity, _variant, NULL::TIMESTAMP WITH TIME ZONE,
+        NULL::TIMESTAMP WITH TIME ZONE;
+      RETURN;
+    END IF;
+
+    RETURN QUERY SELECT 'already_redeemed'::public.redeem_status, _event.id, _event.title,
+      _event.card_image_url, _event.rarity, _existing, NULL::TIMESTAMP WITH TIME ZONE,
+      NULL::TIMESTAMP WITH TIME ZONE;
+    RETURN;
+  END IF;
+
+  -- A valid code before the window opens is not a failed attempt
+  IF _event.redemption_opens_at IS NOT NULL AND now() < _event.redemption_opens_at THEN
+    RETURN QUERY SELECT 'not_open'::public.redeem_status, _event.id, _event.title,
+      NULL::TEXT, _event.rarity, NULL::public.card_variant, NULL::TIMESTAMP WITH TIME ZONE,
+      _event.redemption_opens_at;
+    RETURN;
+  END IF;
+
+  IF now() > _event.redemption_deadline THEN
+    RETURN QUERY SELECT 'expired'::public.redeem_status, _event.id, _event.title,
+      NULL::TEXT, _event.rarity, NULL::public.card_variant, NULL::TIMESTAMP WITH TIME ZONE,
+      NULL::TIMESTAMP WITH TIME ZONE;
+    RETURN;
+  END IF;
+
+  _variant := public.roll_variant(_event.id);
+
+  INSERT INTO public.user_cards (user_id, event_id, variant)
+  VALUES (_user_id, _event.id, _variant)
+  ON CONFLICT ON CONSTRAINT user_cards_user_id_event_id_key DO NOTHING;
+
+  -- A concurrent request for the same user and event won the race
+  IF NOT FOUND THEN
+    SELECT uc.variant INTO _existing
+    FROM public.user_cards uc
+    WHERE uc.user_id = _user_id AND uc.event_id = _event.id;
+
+    RETURN QUERY SELECT 'already_redeemed'::public.redeem_status, _event.id, _event.title,
+      _event.card_image_url, _event.rarity, _existing, NULL::TIMESTAMP WITH TIME ZONE,
+      NULL::TIMESTAMP WITH TIME ZONE;
+    RETURN;
+  END IF;
+
+  RETURN QUERY SELECT 'success'::public.redeem_status, _event.id, _event.title,
+    _event.card_image_url, _event.rarity, _variant, NULL::TIMESTAMP WITH TIME ZONE,
+    NULL::TIMESTAMP WITH TIME ZONE;
+END;
+$$;
+
+-- 6. Fuse three spare copies into a new roll
+CREATE OR REPLACE FUNCTION public.fuse_card_copies(_event_id UUID)
+RETURNS TABLE (
+  variant public.card_variant,
+  upgraded BOOLEAN
+)
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _copies_per_fusion CONSTANT INTEGER := 3;
+  _consumed INTEGER;
+  _variant public.card_variant;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  PERFORM 1 FROM public.user_cards uc
+  WHERE uc.user_id = _user_id AND uc.event_id = _event_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'You need to own the card to fuse its copies' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.card_copies
+  SET consumed_at = now()
+  WHERE id IN (
+    SELECT cc.id
+    FROM public.card_copies cc
+    WHERE cc.user_id = _user_id AND cc.event_id = _event_id AND cc.consumed_at IS NULL
+    ORDER BY cc.obtained_at
+    LIMIT _copies_per_fusion
+    FOR UPDATE
+  );
+
+  GET DIAGNOSTICS _consumed = ROW_COUNT;
+  IF _consumed < _copies_per_fusion THEN
+    RAISE EXCEPTION 'Not enough copies to fuse' USING ERRCODE = '55000';
+  END IF;
+
+  _variant := public.roll_variant(_event_id);
+
+  RETURN QUERY SELECT _variant, public.grant_card_copy(_user_id, _event_id, _variant, 'fusion');
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.variant_outranks(public.card_variant, public.card_variant) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.grant_card_copy(UUID, UUID, public.card_variant, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.redeem_card(TEXT) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.fuse_card_copies(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.redeem_card(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.fuse_card_copies(UUID) TO authenticated;
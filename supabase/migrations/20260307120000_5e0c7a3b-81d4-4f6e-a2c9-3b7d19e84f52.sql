@@ -0,0 +1,226 @@
+-- Card gifting through one-time claim links.
+-- A collector creates a link for one of their cards and shares it (or its QR
+-- code). Whoever opens it first while it is valid receives the card; the
+-- sender keeps it until then. Gifts follow the per-season trading switch.
+
+-- 1. Gift links
+-- The card's event and variant are copied so a gift still reads correctly after the card moves
+CREATE TABLE public.card_gifts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    token TEXT NOT NULL UNIQUE DEFAULT encode(extensions.gen_random_bytes(16), 'hex'),
+    sender_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    user_card_id UUID REFERENCES public.user_cards(id) ON DELETE SET NULL,
+    event_id UUID REFERENCES public.events(id) ON DELETE CASCADE NOT NULL,
+    variant public.card_variant NOT NULL,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    recipient_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    claimed_at TIMESTAMP WITH TIME ZONE,
+    cancelled_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX idx_card_gifts_sender ON public.card_gifts (sender_id, created_at DESC);
+CREATE INDEX idx_card_gifts_recipient ON public.card_gifts (recipient_id, created_at DESC);
+CREATE INDEX idx_card_gifts_user_card ON public.card_gifts (user_card_id);
+
+ALTER TABLE public.card_gifts ENABLE ROW LEVEL SECURITY;
+
+-- Read-only for sender and recipient; the token is only looked up through get_card_gift()
+CREATE POLICY "Gift parties can view their gifts" ON public.card_gifts
+    FOR SELECT TO authenticated
+    USING (auth.uid() IN (sender_id, recipient_id) OR public.has_role(auth.uid(), 'admin'));
+
+-- 2. Create a link for one of the caller's cards
+CREATE OR REPLACE FUNCTION public.create_card_gift(_event_id UUID)
+RETURNS TABLE (id UUID, token TEXT, expires_at TIMESTAMP WITH TIME ZONE)
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _card public.user_cards%ROWTYPE;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  SELECT * INTO _card
+  FROM public.user_cards uc
+  WHERE uc.user_id = _user_id AND uc.event_id = _event_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'You can only gift cards you own' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT public.event_tradeable(_event_id) THEN
+    RAISE EXCEPTION 'Trading is disabled for this season' USING ERRCODE = '55000';
+  END IF;
+
+  -- One live link per card: a new one replaces any still open
+  UPDATE public.card_gifts g
+  SET cancelled_at = now()
+  WHERE g.user_card_id = _card.id
+    AND g.claimed_at IS NULL
+    AND g.cancelled_at IS NULL
+    AND g.expires_at > now();
+
+  RETURN QUERY
+  INSERT INTO public.card_gifts (sender_id, user_card_id, event_id, variant, expires_at)
+  VALUES (_user_id, _card.id, _card.event_id, _card.variant, now() + INTERVAL '48 hours')
+  RETURNING card_gifts.id, card_gifts.token, card_gifts.expires_at;
+END;
+$$;
+
+-- 3. Preview a gift before claiming it
+CREATE OR REPLACE FUNCTION public.get_card_gift(_token TEXT)
+RETURNS TABLE (
+  id UUID,
+  sender_id UUID,
+  sender_name TEXT,
+  event_id UUID,
+  title TEXT,
+  rarity public.card_rarity,
+  variant public.card_variant,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  recipient_id UUID,
+  claimed_at TIMESTAMP WITH TIME ZONE,
+  cancelled_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT g.id, g.sender_id, p.display_name, g.event_id, e.title, e.rarity, g.variant,
+         g.expires_at, g.recipient_id, g.claimed_at, g.cancelled_at
+  FROM public.card_gifts g
+  JOIN public.events e ON e.id = g.event_id
+  LEFT JOIN public.profiles_public p ON p.user_id = g.sender_id
+  WHERE auth.uid() IS NOT NULL AND g.token = _token
+$$;
+
+-- 4. Claim a gift and move the card to the caller
+CREATE OR REPLACE FUNCTION public.claim_card_gift(_token TEXT)
+RETURNS TABLE (
+  event_id UUID,
+  title TEXT,
+  card_image_url TEXT,
+  rarity public.card_rarity,
+  variant public.card_variant
+)
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _gift public.card_gifts%ROWTYPE;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  SELECT * INTO _gift FROM public.card_gifts g WHERE g.token = _token FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Gift not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _gift.claimed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This gift was already claimed' USING ERRCODE = '55000';
+  END IF;
+
+  IF _gift.cancelled_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This gift was cancelled' USING ERRCODE = '55000';
+  END IF;
+
+  IF _gift.expires_at <= now() THEN
+    RAISE EXCEPTION 'This gift link has expired' USING ERRCODE = '55000';
+  END IF;
+
+  IF _gift.sender_id = _user_id THEN
+    RAISE EXCEPTION 'You cannot claim your own gift' USING ERRCODE = '22023';
+  END IF;
+
+  -- Hold both collectors' cards for the event so a trade cannot move them meanwhile
+  PERFORM 1 FROM public.user_cards uc
+  WHERE uc.event_id = _gift.event_id AND uc.user_id IN (_gift.sender_id, _user_id)
+  FOR UPDATE;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.user_cards uc
+    WHERE uc.id = _gift.user_card_id AND uc.user_id = _gift.sender_id AND uc.variant = _gift.variant
+  ) THEN
+    RAISE EXCEPTION 'The gifted card is no longer available' USING ERRCODE = '55000';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.user_cards uc
+    WHERE uc.event_id = _gift.event_id AND uc.user_id = _user_id
+  ) THEN
+    RAISE EXCEPTION 'You already have this card' USING ERRCODE = '23505';
+  END IF;
+
+  IF NOT public.event_tradeable(_gift.event_id) THEN
+    RAISE EXCEPTION 'Trading is disabled for this season' USING ERRCODE = '55000';
+  END IF;
+
+  UPDATE public.user_cards SET user_id = _user_id WHERE id = _gift.user_card_id;
+
+  UPDATE public.card_gifts
+  SET recipient_id = _user_id, claimed_at = now()
+  WHERE id = _gift.id;
+
+  -- Pending trades over the card can no longer go through
+  UPDATE public.trades t
+  SET status = 'cancelled', responded_at = now()
+  WHERE t.status = 'pending'
+    AND EXISTS (
+      SELECT 1 FROM public.trade_items ti
+      WHERE ti.trade_id = t.id AND ti.user_card_id = _gift.user_card_id
+    );
+
+  PERFORM public.award_badges(_gift.sender_id);
+  PERFORM public.award_badges(_user_id);
+
+  RETURN QUERY
+  SELECT e.id, e.title, e.card_image_url, e.rarity, _gift.variant
+  FROM public.events e
+  WHERE e.id = _gift.event_id;
+END;
+$$;
+
+-- 5. Withdraw an open link
+CREATE OR REPLACE FUNCTION public.cancel_card_gift(_gift_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.card_gifts
+  SET cancelled_at = now()
+  WHERE id = _gift_id
+    AND sender_id = auth.uid()
+    AND claimed_at IS NULL
+    AND cancelled_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Gift not found' USING ERRCODE = 'P0002';
+  END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.create_card_gift(UUID) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.get_card_gift(TEXT) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.claim_card_gift(TEXT) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.cancel_card_gift(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.create_card_gift(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_card_gift(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_card_gift(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.cancel_card_gift(UUID) TO authenticated;
@@ -0,0 +1,56 @@
+-- Wishlists.
+-- Collectors star cards they missed. The lists are visible to every member so
+-- others know what to offer in a trade or gift, and a card leaves its owner's
+-- list as soon as they get it, however it arrives.
+
+-- 1. Wishlist entries
+CREATE TABLE public.wishlist_items (
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    event_id UUID REFERENCES public.events(id) ON DELETE CASCADE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    PRIMARY KEY (user_id, event_id)
+);
+
+CREATE INDEX idx_wishlist_items_event ON public.wishlist_items (event_id);
+
+ALTER TABLE public.wishlist_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Wishlists are viewable by members" ON public.wishlist_items
+    FOR SELECT TO authenticated
+    USING (true);
+
+CREATE POLICY "Users can add missing cards to their wishlist" ON public.wishlist_items
+    FOR INSERT TO authenticated
+    WITH CHECK (
+      auth.uid() = user_id
+      AND EXISTS (SELECT 1 FROM public.events_public e WHERE e.id = event_id)
+      AND NOT EXISTS (
+        SELECT 1 FROM public.user_cards uc
+        WHERE uc.user_id = auth.uid() AND uc.event_id = wishlist_items.event_id
+      )
+    );
+
+CREATE POLICY "Users can remove cards from their wishlist" ON public.wishlist_items
+    FOR DELETE TO authenticated
+    USING (auth.uid() = user_id);
+
+-- 2. Drop a wish once the card is in the collection (redeemed, traded or gifted)
+CREATE OR REPLACE FUNCTION public.clear_fulfilled_wish()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.wishlist_items
+  WHERE user_id = NEW.user_id AND event_id = NEW.event_id;
+  RETURN NEW;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.clear_fulfilled_wish() FROM PUBLIC, anon, authenticated;
+
+CREATE TRIGGER clear_fulfilled_wish_on_card
+    AFTER INSERT OR UPDATE OF user_id ON public.user_cards
+    FOR EACH ROW
+    EXECUTE FUNCTION public.clear_fulfilled_wish();
@@ -0,0 +1,37 @@
+-- Event templates for recurring services.
+-- A template holds what a weekly service has in common. The admin "generate
+-- series" tool turns it into ordinary events, one per matching weekday, so
+-- each stays editable on its own and later template changes do not touch them.
+
+-- 1. Templates
+CREATE TABLE public.event_templates (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL,
+    title TEXT NOT NULL,
+    theme TEXT,
+    preacher TEXT,
+    rarity public.card_rarity NOT NULL DEFAULT 'comum',
+    card_image_url TEXT NOT NULL,
+    deadline_days INTEGER NOT NULL DEFAULT 2,
+    deadline_time TIME NOT NULL DEFAULT '23:59',
+    rotating_code BOOLEAN NOT NULL DEFAULT false,
+    rotation_seconds INTEGER NOT NULL DEFAULT 30,
+    extra_rolls INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    CONSTRAINT event_templates_deadline_days_check CHECK (deadline_days BETWEEN 0 AND 30),
+    CONSTRAINT event_templates_rotation_seconds_check CHECK (rotation_seconds BETWEEN 10 AND 600),
+    CONSTRAINT event_templates_extra_rolls_check CHECK (extra_rolls BETWEEN 0 AND 10)
+);
+
+ALTER TABLE public.event_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage event templates" ON public.event_templates
+    FOR ALL TO authenticated
+    USING (public.has_role(auth.uid(), 'admin'))
+    WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_event_templates_updated_at
+    BEFORE UPDATE ON public.event_templates
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
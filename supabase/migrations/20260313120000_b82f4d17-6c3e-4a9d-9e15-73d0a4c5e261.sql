@@ -0,0 +1,299 @@
+-- Per-attendee single-use codes.
+-- Small events (e.g. retreats) can hand each attendee their own code instead of
+-- sharing one. Such events only accept codes from event_attendee_codes; each
+-- code is burned by the redemption that uses it and records who redeemed it.
+-- Shared and rotating codes work as before.
+
+-- 1. Code mode
+ALTER TABLE public.events
+  ADD COLUMN single_use_codes BOOLEAN NOT NULL DEFAULT false,
+  ADD CONSTRAINT events_code_mode_check CHECK (NOT (rotating_code AND single_use_codes));
+
+ALTER TYPE public.redeem_status ADD VALUE IF NOT EXISTS 'code_used';
+
+-- 2. Attendee codes, in the same YYY-ZZZ format as shared codes
+CREATE TABLE public.event_attendee_codes (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    event_id UUID REFERENCES public.events(id) ON DELETE CASCADE NOT NULL,
+    code TEXT NOT NULL UNIQUE,
+    redeemed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    redeemed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX idx_event_attendee_codes_event ON public.event_attendee_codes (event_id, created_at);
+
+ALTER TABLE public.event_attendee_codes ENABLE ROW LEVEL SECURITY;
+
+-- Codes are created through generate_event_codes(); burned ones stay as the redemption record
+CREATE POLICY "Admins can view attendee codes" ON public.event_attendee_codes
+    FOR SELECT USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete unused attendee codes" ON public.event_attendee_codes
+    FOR DELETE USING (public.has_role(auth.uid(), 'admin') AND redeemed_at IS NULL);
+
+-- 3. Random code, drawn from the same alphabet as rotating codes
+CREATE OR REPLACE FUNCTION public.random_redemption_code()
+RETURNS TEXT
+LANGUAGE sql
+VOLATILE
+SET search_path = public
+AS $$
+  SELECT substr(c, 1, 3) || '-' || substr(c, 4, 3)
+  FROM (
+    SELECT string_agg(
+      substr('ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789', get_byte(r.b, i) % 36 + 1, 1),
+      '' ORDER BY i
+    ) AS c
+    FROM (SELECT extensions.gen_random_bytes(6) AS b) r,
+         generate_series(0, 5) AS i
+  ) codes
+$$;
+
+REVOKE ALL ON FUNCTION public.random_redemption_code() FROM PUBLIC, anon, authenticated;
+
+-- 4. Add codes to an event (admins only). Codes never collide with a shared code.
+CREATE OR REPLACE FUNCTION public.generate_event_codes(_event_id UUID, _count INTEGER)
+RETURNS INTEGER
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _created INTEGER := 0;
+  _code TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can generate codes' USING ERRCODE = '42501';
+  END IF;
+
+  IF _count IS NULL OR _count NOT BETWEEN 1 AND 500 THEN
+    RAISE EXCEPTION 'Codes must be generated in batches of 1 to 500' USING ERRCODE = '22023';
+  END IF;
+
+  PERFORM 1 FROM public.events e WHERE e.id = _event_id AND e.single_use_codes;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Event does not use single-use codes' USING ERRCODE = 'P0002';
+  END IF;
+
+  WHILE _created < _count LOOP
+    _code := public.random_redemption_code();
+    CONTINUE WHEN EXISTS (SELECT 1 FROM public.events e WHERE e.redemption_code = _code);
+
+    INSERT INTO public.event_attendee_codes (event_id, code)
+    VALUES (_event_id, _code)
+    ON CONFLICT (code) DO NOTHING;
+
+    IF FOUND THEN
+      _created := _created + 1;
+    END IF;
+  END LOOP;
+
+  RETURN _created;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.generate_event_codes(UUID, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.generate_event_codes(UUID, INTEGER) TO authenticated;
+
+-- 5. Single-use events resolve attendee codes, burned or not, instead of their shared code
+CREATE OR REPLACE FUNCTION public.resolve_redemption_code(_code TEXT)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH normalized AS (SELECT upper(trim(_code)) AS code)
+  SELECT id FROM (
+    SELECT e.id
+    FROM public.events e, normalized n
+    WHERE e.redemption_code = n.code
+      AND NOT e.rotating_code
+      AND NOT e.single_use_codes
+      AND public.event_is_public(e.status, e.publish_at)
+    UNION ALL
+    SELECT e.id
+    FROM public.events e
+    JOIN public.event_code_secrets s ON s.event_id = e.id
+    CROSS JOIN normalized n
+    WHERE e.rotating_code
+      AND public.event_is_public(e.status, e.publish_at)
+      AND n.code IN (
+        public.rotating_code_at(s.secret, public.rotation_window(e.rotation_seconds)),
+        public.rotating_code_at(s.secret, public.rotation_window(e.rotation_seconds) - 1)
+      )
+    UNION ALL
+    SELECT e.id
+    FROM public.events e
+    JOIN public.event_attendee_codes c ON c.event_id = e.id
+    CROSS JOIN normalized n
+    WHERE e.single_use_codes
+      AND c.code = n.code
+      AND public.event_is_public(e.status, e.publish_at)
+  ) matches
+  LIMIT 1
+$$;
+
+REVOKE ALL ON FUNCTION public.resolve_redemption_code(TEXT) FROM PUBLIC, anon, authenticated;
+
+-- 6. Redemption burns attendee codes. A burned code reports code_used, unless its
+--    holder already owns the card; codes are not burned when nothing is granted.
+CREATE OR REPLACE FUNCTION public.redeem_card(_code TEXT)
+RETURNS TABLE (
+  status public.redeem_status,
+  event_id UUID,
+  title TEXT,
+  card_image_url TEXT,
+  rarity public.card_rarity,
+  variant public.card_variant,
+  locked_until TIMESTAMP WITH TIME ZONE,
+  opens_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _ip TEXT := public.request_ip();
+  _locked_until TIMESTAMP WITH TIME ZONE;
+  _event public.events%ROWTYPE;
+  _existing public.card_variant;
+  _variant public.card_variant;
+  _rolls_used INTEGER;
+  _attendee_code_id UUID;
+  _code_used BOOLEAN := false;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  _locked_until := public.redemption_locked_until(_user_id, _ip);
+
+  IF _locked_until IS NOT NULL THEN
+    RETURN QUERY SELECT 'rate_limited'::public.redeem_status, NULL::UUID, NULL::TEXT, NULL::TEXT,
+      NULL::public.card_rarity, NULL::public.card_variant, _locked_until, NULL::TIMESTAMP WITH TIME ZONE;
+    RETURN;
+  END IF;
+
+  SELECT * INTO _event
+  FROM public.events e
+  WHERE e.id = public.resolve_redemption_code(_code);
+
+  IF NOT FOUND THEN
+    _locked_until := public.register_failed_redemption(_user_id, _ip, _code);
+
+    RETURN QUERY SELECT
+      (CASE WHEN _locked_until IS NULL THEN 'not_found' ELSE 'rate_limited' END)::public.redeem_status,
+      NULL::UUID, NULL::TEXT, NULL::TEXT,
+      NULL::public.card_rarity, NULL::public.card_variant, _locked_until, NULL::TIMESTAMP WITH TIME ZONE;
+    RETURN;
+  END IF;
+
+  -- Locked first so two attendees typing the same code cannot both spend it
+  IF _event.single_use_codes THEN
+    SELECT c.id, c.redeemed_at IS NOT NULL INTO _attendee_code_id, _code_used
+    FROM public.event_attendee_codes c
+    WHERE c.event_id = _event.id AND c.code = upper(trim(_code))
+    FOR UPDATE;
+
+    -- Deleted by an admin since it was resolved
+    IF NOT FOUND THEN
+      _code_used := true;
+    END IF;
+  END IF;
+
+  -- Locked so concurrent requests cannot spend the same extra roll twice
+  SELECT uc.variant INTO _existing
+  FROM public.user_cards uc
+  WHERE uc.user_id = _user_id AND uc.event_id = _event.id
+  FOR UPDATE;
+
+  IF FOUND THEN
+    SELECT COUNT(*) INTO _rolls_used
+    FROM public.card_copies cc
+    WHERE cc.user_id = _user_id AND cc.event_id = _event.id AND cc.source = 'redeem';
+
+    IF _rolls_used < _event.extra_rolls
+      AND NOT _code_used
+      AND (_event.redemption_opens_at IS NULL OR now() >= _event.redemption_opens_at)
+      AND now() <= _event.redemption_deadline
+    THEN
+      _variant := public.roll_variant(_event.id);
+      PERFORM public.grant_card_copy(_user_id, _event.id, _variant, 'redeem');
+
+      UPDATE public.event_attendee_codes
+      SET redeemed_by = _user_id, redeemed_at = now()
+      WHERE id = _attendee_code_id;
+
+      RETURN QUERY SELECT 'extra_copy'::public.redeem_status, _event.id, _event.title,
+        _event.card_image_url, _event.rarity, _variant, NULL::TIMESTAMP WITH TIME ZONE,
+        NULL::TIMESTAMP WITH TIME ZONE;
+      RETURN;
+    END IF;
+
+    RETURN QUERY SELECT 'already_redeemed'::public.redeem_status, _event.id, _event.title,
+      _event.card_image_url, _event.rarity, _existing, NULL::TIMESTAMP WITH TIME ZONE,
+      NULL::TIMESTAMP WITH TIME ZONE;
+    RETURN;
+  END IF;
+
+  -- A valid code before the window opens is not a failed attempt
+  IF _event.redemption_opens_at IS NOT NULL AND now() < _event.redemption_opens_at THEN
+    RETURN QUERY SELECT 'not_open'::public.redeem_status, _event.id, _event.title,
+      NULL::TEXT, _event.rarity, NULL::public.card_variant, NULL::TIMESTAMP WITH TIME ZONE,
+      _event.redemption_opens_at;
+    RETURN;
+  END IF;
+
+  IF now() > _event.redemption_deadline THEN
+    RETURN QUERY SELECT 'expired'::public.redeem_status, _event.id, _event.title,
+      NULL::TEXT, _event.rarity, NULL::public.card_variant, NULL::TIMESTAMP WITH TIME ZONE,
+      NULL::TIMESTAMP WITH TIME ZONE;
+    RETURN;
+  END IF;
+
+  IF _code_used THEN
+    RETURN QUERY SELECT 'code_used'::public.redeem_status, _event.id, _event.title,
+      NULL::TEXT, _event.rarity, NULL::public.card_variant, NULL::TIMESTAMP WITH TIME ZONE,
+      NULL::TIMESTAMP WITH TIME ZONE;
+    RETURN;
+  END IF;
+
+  _variant := public.roll_variant(_event.id);
+
+  INSERT INTO public.user_cards (user_id, event_id, variant)
+  VALUES (_user_id, _event.id, _variant)
+  ON CONFLICT ON CONSTRAINT user_cards_user_id_event_id_key DO NOTHING;
+
+  -- A concurrent request for the same user and event won the race
+  IF NOT FOUND THEN
+    SELECT uc.variant INTO _existing
+    FROM public.user_cards uc
+    WHERE uc.user_id = _user_id AND uc.event_id = _event.id;
+
+    RETURN QUERY SELECT 'already_redeemed'::public.redeem_status, _event.id, _event.title,
+      _event.card_image_url, _event.rarity, _existing, NULL::TIMESTAMP WITH TIME ZONE,
+      NULL::TIMESTAMP WITH TIME ZONE;
+    RETURN;
+  END IF;
+
+  UPDATE public.event_attendee_codes
+  SET redeemed_by = _user_id, redeemed_at = now()
+  WHERE id = _attendee_code_id;
+
+  RETURN QUERY SELECT 'success'::public.redeem_status, _event.id, _event.title,
+    _event.card_image_url, _event.rarity, _variant, NULL::TIMESTAMP WITH TIME ZONE,
+    NULL::TIMESTAMP WITH TIME ZONE;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.redeem_card(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.redeem_card(TEXT) TO authenticated;
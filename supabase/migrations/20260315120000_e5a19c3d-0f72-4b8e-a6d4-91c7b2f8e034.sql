@@ -0,0 +1,349 @@
+-- Redemption code regeneration and revocation.
+-- When a shared code leaks, admins can replace it with a new one or revoke it
+-- until a new one is issued, instead of deleting the event. Every code that stops
+-- working is kept in event_code_history, so members typing it are told it was
+-- replaced rather than that it does not exist.
+
+-- 1. Revocation and history
+ALTER TABLE public.events
+  ADD COLUMN code_revoked_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TYPE public.redeem_status ADD VALUE IF NOT EXISTS 'code_replaced';
+
+CREATE TABLE public.event_code_history (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    event_id UUID REFERENCES public.events(id) ON DELETE CASCADE NOT NULL,
+    code TEXT NOT NULL,
+    reason TEXT NOT NULL CHECK (reason IN ('regenerated', 'revoked')),
+    replaced_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    replaced_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX idx_event_code_history_event ON public.event_code_history (event_id, replaced_at DESC);
+CREATE INDEX idx_event_code_history_code ON public.event_code_history (code);
+
+ALTER TABLE public.event_code_history ENABLE ROW LEVEL SECURITY;
+
+-- Written only by regenerate_redemption_code() and revoke_redemption_code()
+CREATE POLICY "Admins can view code history" ON public.event_code_history
+    FOR SELECT USING (public.has_role(auth.uid(), 'admin'));
+
+-- 2. Issue a new shared code. A new code never reuses a replaced or attendee
+--    code; a clash with another event's code is retried against the UNIQUE constraint.
+CREATE OR REPLACE FUNCTION public.regenerate_redemption_code(_event_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _max_attempts CONSTANT INTEGER := 10;
+  _event public.events%ROWTYPE;
+  _code TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can change redemption codes' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO _event FROM public.events e WHERE e.id = _event_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Event not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _event.rotating_code OR _event.single_use_codes THEN
+    RAISE EXCEPTION 'Event does not use a shared code' USING ERRCODE = '55000';
+  END IF;
+
+  -- A revoked code is already in the history
+  IF _event.code_revoked_at IS NULL THEN
+    INSERT INTO public.event_code_history (event_id, code, reason, replaced_by)
+    VALUES (_event.id, _event.redemption_code, 'regenerated', auth.uid());
+  END IF;
+
+  FOR _attempt IN 1.._max_attempts LOOP
+    _code := public.random_redemption_code();
+
+    CONTINUE WHEN EXISTS (SELECT 1 FROM public.event_code_history h WHERE h.code = _code)
+      OR EXISTS (SELECT 1 FROM public.event_attendee_codes c WHERE c.code = _code);
+
+    BEGIN
+      UPDATE public.events
+      SET redemption_code = _code, qr_code_data = _code, code_revoked_at = NULL
+      WHERE id = _event.id;
+
+      RETURN _code;
+    EXCEPTION WHEN unique_violation THEN
+      -- Another event holds this code; draw again
+      NULL;
+    END;
+  END LOOP;
+
+  RAISE EXCEPTION 'Could not find a free code, try again' USING ERRCODE = '55000';
+END;
+$$;
+
+-- 3. Stop accepting the shared code until a new one is issued
+CREATE OR REPLACE FUNCTION public.revoke_redemption_code(_event_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _event public.events%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can change redemption codes' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO _event FROM public.events e WHERE e.id = _event_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Event not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _event.rotating_code OR _event.single_use_codes THEN
+    RAISE EXCEPTION 'Event does not use a shared code' USING ERRCODE = '55000';
+  END IF;
+
+  IF _event.code_revoked_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Code is already revoked' USING ERRCODE = '55000';
+  END IF;
+
+  UPDATE public.events SET code_revoked_at = now() WHERE id = _event.id;
+
+  INSERT INTO public.event_code_history (event_id, code, reason, replaced_by)
+  VALUES (_event.id, _event.redemption_code, 'revoked', auth.uid());
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.regenerate_redemption_code(UUID) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.revoke_redemption_code(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.regenerate_redemption_code(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.revoke_redemption_code(UUID) TO authenticated;
+
+-- 4. Revoked shared codes no longer resolve
+CREATE OR REPLACE FUNCTION public.resolve_redemption_code(_code TEXT)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH normalized AS (SELECT upper(trim(_code)) AS code)
+  SELECT id FROM (
+    SELECT e.id
+    FROM public.events e, normalized n
+    WHERE e.redemption_code = n.code
+      AND NOT e.rotating_code
+      AND NOT e.single_use_codes
+      AND e.code_revoked_at IS NULL
+      AND public.event_is_public(e.status, e.publish_at)
+    UNION ALL
+    SELECT e.id
+    FROM public.events e
+    JOIN public.event_code_secrets s ON s.event_id = e.id
+    CROSS JOIN normalized n
+    WHERE e.rotating_code
+      AND public.event_is_public(e.status, e.publish_at)
+      AND n.code IN (
+        public.rotating_code_at(s.secret, public.rotation_window(e.rotation_seconds)),
+        public.rotating_code_at(s.secret, public.rotation_window(e.rotation_seconds) - 1)
+      )
+    UNION ALL
+    SELECT e.id
+    FROM public.events e
+    JOIN public.event_attendee_codes c ON c.event_id = e.id
+    CROSS JOIN normalized n
+    WHERE e.single_use_codes
+      AND c.code = n.code
+      AND public.event_is_public(e.status, e.publish_at)
+  ) matches
+  LIMIT 1
+$$;
+
+REVOKE ALL ON FUNCTION public.resolve_redemption_code(TEXT) FROM PUBLIC, anon, authenticated;
+
+-- 5. Replaced and revoked codes report code_replaced instead of not_found
+CREATE OR REPLACE FUNCTION public.redeem_card(_code TEXT)
+RETURNS TABLE (
+  status public.redeem_status,
+  event_id UUID,
+  title TEXT,
+  card_image_url TEXT,
+  rarity public.card_rarity,
+  variant public.card_variant,
+  locked_until TIMESTAMP WITH TIME ZONE,
+  opens_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _ip TEXT := public.request_ip();
+  _locked_until TIMESTAMP WITH TIME ZONE;
+  _event public.events%ROWTYPE;
+  _existing public.card_variant;
+  _variant public.card_variant;
+  _rolls_used INTEGER;
+  _attendee_code_id UUID;
+  _code_used BOOLEAN := false;
+  _replaced_event_id UUID;
+  _replaced_title TEXT;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  _locked_until := public.redemption_locked_until(_user_id, _ip);
+
+  IF _locked_until IS NOT NULL THEN
+    RETURN QUERY SELECT 'rate_limited'::public.redeem_status, NULL::UUID, NULL::TEXT, NULL::TEXT,
+      NULL::public.card_rarity, NULL::public.card_variant, _locked_until, NULL::TIMESTAMP WITH TIME ZONE;
+    RETURN;
+  END IF;
+
+  SELECT * INTO _event
+  FROM public.events e
+  WHERE e.id = public.resolve_redemption_code(_code);
+
+  IF NOT FOUND THEN
+    -- A replaced or revoked code is not a guess, so it does not count towards the lockout
+    SELECT e.id, e.title INTO _replaced_event_id, _replaced_title
+    FROM public.event_code_history h
+    JOIN public.events e ON e.id = h.event_id
+    WHERE h.code = upper(trim(_code))
+      AND public.event_is_public(e.status, e.publish_at)
+    ORDER BY h.replaced_at DESC
+    LIMIT 1;
+
+    IF FOUND THEN
+      RETURN QUERY SELECT 'code_replaced'::public.redeem_status, _replaced_event_id, _replaced_title,
+        NULL::TEXT, NULL::public.card_rarity, NULL::public.card_variant, NULL::TIMESTAMP WITH TIME ZONE,
+        NULL::TIMESTAMP WITH TIME ZONE;
+      RETURN;
+    END IF;
+
+    _locked_until := public.register_failed_redemption(_user_id, _ip, _code);
+
+    RETURN QUERY SELECT
+      (CASE WHEN _locked_until IS NULL THEN 'not_found' ELSE 'rate_limited' END)::public.redeem_status,
+      NULL::UUID, NULL::TEXT, NULL::TEXT,
+      NULL::public.card_rarity, NULL::public.card_variant, _locked_until, NULL::TIMESTAMP WITH TIME ZONE;
+    RETURN;
+  END IF;
+
+  -- Locked first so two attendees typing the same code cannot both spend it
+  IF _event.single_use_codes THEN
+    SELECT c.id, c.redeemed_at IS NOT NULL INTO _attendee_code_id, _code_used
+    FROM public.event_attendee_codes c
+    WHERE c.event_id = _event.id AND c.code = upper(trim(_code))
+    FOR UPDATE;
+
+    -- Deleted by an admin since it was resolved
+    IF NOT FOUND THEN
+      _code_used := true;
+    END IF;
+  END IF;
+
+  -- Locked so concurrent requests cannot spend the same extra roll twice
+  SELECT uc.variant INTO _existing
+  FROM public.user_cards uc
+  WHERE uc.user_id = _user_id AND uc.event_id = _event.id
+  FOR UPDATE;
+
+  IF FOUND THEN
+    SELECT COUNT(*) INTO _rolls_used
+    FROM public.card_copies cc
+    WHERE cc.user_id = _user_id AND cc.event_id = _event.id AND cc.source = 'redeem';
+
+    IF _rolls_used < _event.extra_rolls
+      AND NOT _code_used
+      AND (_event.redemption_opens_at IS NULL OR now() >= _event.redemption_opens_at)
+      AND now() <= _event.redemption_deadline
+    THEN
+      _variant := public.roll_variant(_event.id);
+      PERFORM public.grant_card_copy(_user_id, _event.id, _variant, 'redeem');
+
+      UPDATE public.event_attendee_codes
+      SET redeemed_by = _user_id, redeemed_at = now()
+      WHERE id = _attendee_code_id;
+
+      RETURN QUERY SELECT 'extra_copy'::public.redeem_status, _event.id, _event.title,
+        _event.card_image_url, _event.rarity, _variant, NULL::TIMESTAMP WITH TIME ZONE,
+        NULL::TIMESTAMP WITH TIME ZONE;
+      RETURN;
+    END IF;
+
+    RETURN QUERY SELECT 'already_redeemed'::public.redeem_status, _event.id, _event.title,
+      _event.card_image_url, _event.rarity, _existing, NULL::TIMESTAMP WITH TIME ZONE,
+      NULL::TIMESTAMP WITH TIME ZONE;
+    RETURN;
+  END IF;
+
+  -- A valid code before the window opens is not a failed attempt
+  IF _event.redemption_opens_at IS NOT NULL AND now() < _event.redemption_opens_at THEN
+    RETURN QUERY SELECT 'not_open'::public.redeem_status, _event.id, _event.title,
+      NULL::TEXT, _event.rarity, NULL::public.card_variant, NULL::TIMESTAMP WITH TIME ZONE,
+      _event.redemption_opens_at;
+    RETURN;
+  END IF;
+
+  IF now() > _event.redemption_deadline THEN
+    RETURN QUERY SELECT 'expired'::public.redeem_status, _event.id, _event.title,
+      NULL::TEXT, _event.rarity, NULL::public.card_variant, NULL::TIMESTAMP WITH TIME ZONE,
+      NULL::TIMESTAMP WITH TIME ZONE;
+    RETURN;
+  END IF;
+
+  IF _code_used THEN
+    RETURN QUERY SELECT 'code_used'::public.redeem_status, _event.id, _event.title,
+      NULL::TEXT, _event.rarity, NULL::public.card_variant, NULL::TIMESTAMP WITH TIME ZONE,
+      NULL::TIMESTAMP WITH TIME ZONE;
+    RETURN;
+  END IF;
+
+  _variant := public.roll_variant(_event.id);
+
+  INSERT INTO public.user_cards (user_id, event_id, variant)
+  VALUES (_user_id, _event.id, _variant)
+  ON CONFLICT ON CONSTRAINT user_cards_user_id_event_id_key DO NOTHING;
+
+  -- A concurrent request for the same user and event won the race
+  IF NOT FOUND THEN
+    SELECT uc.variant INTO _existing
+    FROM public.user_cards uc
+    WHERE uc.user_id = _user_id AND uc.event_id = _event.id;
+
+    RETURN QUERY SELECT 'already_redeemed'::public.redeem_status, _event.id, _event.title,
+      _event.card_image_url, _event.rarity, _existing, NULL::TIMESTAMP WITH TIME ZONE,
+      NULL::TIMESTAMP WITH TIME ZONE;
+    RETURN;
+  END IF;
+
+  UPDATE public.event_attendee_codes
+  SET redeemed_by = _user_id, redeemed_at = now()
+  WHERE id = _attendee_code_id;
+
+  RETURN QUERY SELECT 'success'::public.redeem_status, _event.id, _event.title,
+    _event.card_image_url, _event.rarity, _variant, NULL::TIMESTAMP WITH TIME ZONE,
+    NULL::TIMESTAMP WITH TIME ZONE;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.redeem_card(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.redeem_card(TEXT) TO authenticated;
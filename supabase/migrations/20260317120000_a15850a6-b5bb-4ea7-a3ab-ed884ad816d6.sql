@@ -0,0 +1,15 @@
+-- Client addresses for redemption lockouts come from the rightmost
+-- X-Forwarded-For entry. Entries to its left are sent by the client and can be
+-- set to anything, which let a caller rotate its address to dodge IP lockouts;
+-- the last one is appended by the API gateway itself.
+
+CREATE OR REPLACE FUNCTION public.request_ip()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT NULLIF(trim(regexp_replace(
+    COALESCE(current_setting('request.headers', true)::json ->> 'x-forwarded-for', ''),
+    '^.*,', ''
+  )), '')
+$$;
@@ -0,0 +1,13 @@
+-- Closed seasons can no longer be deleted: their final standings and winners
+-- used to cascade away with the season, erasing the Hall of Fame. The admin
+-- screen only offers deletion for seasons that are still open.
+
+ALTER TABLE public.season_standings
+    DROP CONSTRAINT season_standings_season_id_fkey,
+    ADD CONSTRAINT season_standings_season_id_fkey
+        FOREIGN KEY (season_id) REFERENCES public.seasons(id) ON DELETE RESTRICT;
+
+ALTER TABLE public.season_winners
+    DROP CONSTRAINT season_winners_season_id_fkey,
+    ADD CONSTRAINT season_winners_season_id_fkey
+        FOREIGN KEY (season_id) REFERENCES public.seasons(id) ON DELETE RESTRICT;
@@ -0,0 +1,19 @@
+-- Only missed cards can be wished for. The wishlist INSERT policy checked that
+-- the event was public and the card not owned, but not that redemption had
+-- closed, so a card still open for redemption could be added to the list.
+
+DROP POLICY "Users can add missing cards to their wishlist" ON public.wishlist_items;
+
+CREATE POLICY "Users can add missing cards to their wishlist" ON public.wishlist_items
+    FOR INSERT TO authenticated
+    WITH CHECK (
+      auth.uid() = user_id
+      AND EXISTS (
+        SELECT 1 FROM public.events_public e
+        WHERE e.id = event_id AND e.redemption_deadline < now()
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM public.user_cards uc
+        WHERE uc.user_id = auth.uid() AND uc.event_id = wishlist_items.event_id
+      )
+    );
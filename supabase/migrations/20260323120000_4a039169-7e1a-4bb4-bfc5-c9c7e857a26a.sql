@@ -0,0 +1,44 @@
+-- Redemption broadcasts move to a private Realtime topic.
+-- The "card-redemptions" payload names the collector and the event, and public
+-- topics can be joined by anyone holding the anon key. Only signed-in members
+-- may now receive it, which is everyone who can open the ranking or the feed.
+
+-- 1. Send on the private topic
+CREATE OR REPLACE FUNCTION public.broadcast_card_redeemed()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _event public.events%ROWTYPE;
+BEGIN
+  SELECT * INTO _event FROM public.events WHERE id = NEW.event_id;
+
+  -- A Realtime outage must never fail the redemption itself
+  BEGIN
+    PERFORM realtime.send(
+      jsonb_build_object(
+        'event_id', NEW.event_id,
+        'season_id', _event.season_id,
+        'user_id', NEW.user_id,
+        'rarity', _event.rarity,
+        'variant', NEW.variant,
+        'redeemed_at', NEW.redeemed_at
+      ),
+      'card_redeemed',
+      'card-redemptions',
+      true
+    );
+  EXCEPTION WHEN OTHERS THEN
+    RAISE WARNING 'Could not broadcast redemption %: %', NEW.id, SQLERRM;
+  END;
+
+  RETURN NEW;
+END;
+$$;
+
+-- 2. Members may listen
+CREATE POLICY "Members can receive card redemptions" ON realtime.messages
+    FOR SELECT TO authenticated
+    USING (realtime.topic() = 'card-redemptions' AND extension = 'broadcast');
@@ -0,0 +1,241 @@
+-- Redemption ledger.
+-- redeem_card() only looked at the cards a member holds, so a collector could
+-- gift their card away and redeem the same event again while its window was
+-- open, minting a duplicate. Every redemption is now recorded in a ledger that
+-- gifts and trades never touch, and redeem_card() refuses members found in it.
+
+-- 1. Who redeemed each event (one row per member and event, kept after transfers)
+CREATE TABLE public.card_redemptions (
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    event_id UUID REFERENCES public.events(id) ON DELETE CASCADE NOT NULL,
+    redeemed_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    PRIMARY KEY (user_id, event_id)
+);
+
+ALTER TABLE public.card_redemptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view card redemptions" ON public.card_redemptions
+    FOR SELECT USING (public.has_role(auth.uid(), 'admin'));
+
+-- 2. Record every new card; transfers update user_cards and are not recorded
+CREATE OR REPLACE FUNCTION public.record_card_redemption()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.card_redemptions (user_id, event_id, redeemed_at)
+  VALUES (NEW.user_id, NEW.event_id, NEW.redeemed_at)
+  ON CONFLICT (user_id, event_id) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.record_card_redemption() FROM PUBLIC, anon, authenticated;
+
+CREATE TRIGGER record_card_redemption_on_user_card
+    AFTER INSERT ON public.user_cards
+    FOR EACH ROW
+    EXECUTE FUNCTION public.record_card_redemption();
+
+-- 3. Backfill from the cards held today and from the senders of claimed gifts.
+-- A sender may have received the card rather than redeemed it; either way they
+-- already held a card for that event.
+INSERT INTO public.card_redemptions (user_id, event_id, redeemed_at)
+SELECT uc.user_id, uc.event_id, uc.redeemed_at
+FROM public.user_cards uc
+ON CONFLICT (user_id, event_id) DO NOTHING;
+
+INSERT INTO public.card_redemptions (user_id, event_id, redeemed_at)
+SELECT g.sender_id, g.event_id, COALESCE(MIN(uc.redeemed_at), MIN(g.created_at))
+FROM public.card_gifts g
+LEFT JOIN public.user_cards uc ON uc.id = g.user_card_id
+WHERE g.claimed_at IS NOT NULL
+GROUP BY g.sender_id, g.event_id
+ON CONFLICT (user_id, event_id) DO NOTHING;
+
+-- 4. Redemption refuses members who already redeemed the event
+CREATE OR REPLACE FUNCTION public.redeem_card(_code TEXT)
+RETURNS TABLE (
+  status public.redeem_status,
+  event_id UUID,
+  title TEXT,
+  card_image_url TEXT,
+  rarity public.card_rarity,
+  variant public.card_variant,
+  locked_until TIMESTAMP WITH TIME ZONE,
+  opens_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _ip TEXT := public.request_ip();
+  _locked_until TIMESTAMP WITH TIME ZONE;
+  _event public.events%ROWTYPE;
+  _existing public.card_variant;
+  _variant public.card_variant;
+  _rolls_used INTEGER;
+  _attendee_code_id UUID;
+  _code_used BOOLEAN := false;
+  _replaced_event_id UUID;
+  _replaced_title TEXT;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  _locked_until := public.redemption_locked_until(_user_id, _ip);
+
+  IF _locked_until IS NOT NULL THEN
+    RETURN QUERY SELECT 'rate_limited'::public.redeem_status, NULL::UUID, NULL::TEXT, NULL::TEXT,
+      NULL::public.card_rarity, NULL::public.card_variant, _locked_until, NULL::TIMESTAMP WITH TIME ZONE;
+    RETURN;
+  END IF;
+
+  SELECT * INTO _event
+  FROM public.events e
+  WHERE e.id = public.resolve_redemption_code(_code);
+
+  IF NOT FOUND THEN
+    -- A replaced or revoked code is not a guess, so it does not count towards the lockout
+    SELECT e.id, e.title INTO _replaced_event_id, _replaced_title
+    FROM public.event_code_history h
+    JOIN public.events e ON e.id = h.event_id
+    WHERE h.code = upper(trim(_code))
+      AND public.event_is_public(e.status, e.publish_at)
+    ORDER BY h.replaced_at DESC
+    LIMIT 1;
+
+    IF FOUND THEN
+      RETURN QUERY SELECT 'code_replaced'::public.redeem_status, _replaced_event_id, _replaced_title,
+        NULL::TEXT, NULL::public.card_rarity, NULL::public.card_variant, NULL::TIMESTAMP WITH TIME ZONE,
+        NULL::TIMESTAMP WITH TIME ZONE;
+      RETURN;
+    END IF;
+
+    _locked_until := public.register_failed_redemption(_user_id, _ip, _code);
+
+    RETURN QUERY SELECT
+      (CASE WHEN _locked_until IS NULL THEN 'not_found' ELSE 'rate_limited' END)::public.redeem_status,
+      NULL::UUID, NULL::TEXT, NULL::TEXT,
+      NULL::public.card_rarity, NULL::public.card_variant, _locked_until, NULL::TIMESTAMP WITH TIME ZONE;
+    RETURN;
+  END IF;
+
+  -- Locked first so two attendees typing the same code cannot both spend it
+  IF _event.single_use_codes THEN
+    SELECT c.id, c.redeemed_at IS NOT NULL INTO _attendee_code_id, _code_used
+    FROM public.event_attendee_codes c
+    WHERE c.event_id = _event.id AND c.code = upper(trim(_code))
+    FOR UPDATE;
+
+    -- Deleted by an admin since it was resolved
+    IF NOT FOUND THEN
+      _code_used := true;
+    END IF;
+  END IF;
+
+  -- Locked so concurrent requests cannot spend the same extra roll twice
+  SELECT uc.variant INTO _existing
+  FROM public.user_cards uc
+  WHERE uc.user_id = _user_id AND uc.event_id = _event.id
+  FOR UPDATE;
+
+  IF FOUND THEN
+    SELECT COUNT(*) INTO _rolls_used
+    FROM public.card_copies cc
+    WHERE cc.user_id = _user_id AND cc.event_id = _event.id AND cc.source = 'redeem';
+
+    IF _rolls_used < _event.extra_rolls
+      AND NOT _code_used
+      AND (_event.redemption_opens_at IS NULL OR now() >= _event.redemption_opens_at)
+      AND now() <= _event.redemption_deadline
+    THEN
+      _variant := public.roll_variant(_event.id);
+      PERFORM public.grant_card_copy(_user_id, _event.id, _variant, 'redeem');
+
+      UPDATE public.event_attendee_codes
+      SET redeemed_by = _user_id, redeemed_at = now()
+      WHERE id = _attendee_code_id;
+
+      RETURN QUERY SELECT 'extra_copy'::public.redeem_status, _event.id, _event.title,
+        _event.card_image_url, _event.rarity, _variant, NULL::TIMESTAMP WITH TIME ZONE,
+        NULL::TIMESTAMP WITH TIME ZONE;
+      RETURN;
+    END IF;
+
+    RETURN QUERY SELECT 'already_redeemed'::public.redeem_status, _event.id, _event.title,
+      _event.card_image_url, _event.rarity, _existing, NULL::TIMESTAMP WITH TIME ZONE,
+      NULL::TIMESTAMP WITH TIME ZONE;
+    RETURN;
+  END IF;
+
+  -- Giving the card away does not make room for another redemption
+  IF EXISTS (
+    SELECT 1 FROM public.card_redemptions r
+    WHERE r.user_id = _user_id AND r.event_id = _event.id
+  ) THEN
+    RETURN QUERY SELECT 'already_redeemed'::public.redeem_status, _event.id, _event.title,
+      _event.card_image_url, _event.rarity, NULL::public.card_variant, NULL::TIMESTAMP WITH TIME ZONE,
+      NULL::TIMESTAMP WITH TIME ZONE;
+    RETURN;
+  END IF;
+
+  -- A valid code before the window opens is not a failed attempt
+  IF _event.redemption_opens_at IS NOT NULL AND now() < _event.redemption_opens_at THEN
+    RETURN QUERY SELECT 'not_open'::public.redeem_status, _event.id, _event.title,
+      NULL::TEXT, _event.rarity, NULL::public.card_variant, NULL::TIMESTAMP WITH TIME ZONE,
+      _event.redemption_opens_at;
+    RETURN;
+  END IF;
+
+  IF now() > _event.redemption_deadline THEN
+    RETURN QUERY SELECT 'expired'::public.redeem_status, _event.id, _event.title,
+      NULL::TEXT, _event.rarity, NULL::public.card_variant, NULL::TIMESTAMP WITH TIME ZONE,
+      NULL::TIMESTAMP WITH TIME ZONE;
+    RETURN;
+  END IF;
+
+  IF _code_used THEN
+    RETURN QUERY SELECT 'code_used'::public.redeem_status, _event.id, _event.title,
+      NULL::TEXT, _event.rarity, NULL::public.card_variant, NULL::TIMESTAMP WITH TIME ZONE,
+      NULL::TIMESTAMP WITH TIME ZONE;
+    RETURN;
+  END IF;
+
+  _variant := public.roll_variant(_event.id);
+
+  INSERT INTO public.user_cards (user_id, event_id, variant)
+  VALUES (_user_id, _event.id, _variant)
+  ON CONFLICT ON CONSTRAINT user_cards_user_id_event_id_key DO NOTHING;
+
+  -- A concurrent request for the same user and event won the race
+  IF NOT FOUND THEN
+    SELECT uc.variant INTO _existing
+    FROM public.user_cards uc
+    WHERE uc.user_id = _user_id AND uc.event_id = _event.id;
+
+    RETURN QUERY SELECT 'already_redeemed'::public.redeem_status, _event.id, _event.title,
+      _event.card_image_url, _event.rarity, _existing, NULL::TIMESTAMP WITH TIME ZONE,
+      NULL::TIMESTAMP WITH TIME ZONE;
+    RETURN;
+  END IF;
+
+  UPDATE public.event_attendee_codes
+  SET redeemed_by = _user_id, redeemed_at = now()
+  WHERE id = _attendee_code_id;
+
+  RETURN QUERY SELECT 'success'::public.redeem_status, _event.id, _event.title,
+    _event.card_image_url, _event.rarity, _variant, NULL::TIMESTAMP WITH TIME ZONE,
+    NULL::TIMESTAMP WITH TIME ZONE;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.redeem_card(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.redeem_card(TEXT) TO authenticated;
@@ -0,0 +1,14 @@
+-- Trades and the redemption ledger.
+-- accept_trade() moves cards by updating user_cards, so the ledger keeps the
+-- collector who traded a card away and redeem_card() no longer lets them redeem
+-- that event a second time. Trades accepted before the ledger existed are
+-- recorded here.
+
+INSERT INTO public.card_redemptions (user_id, event_id, redeemed_at)
+SELECT ti.owner_id, ti.event_id, COALESCE(MIN(uc.redeemed_at), MIN(t.responded_at), MIN(t.created_at))
+FROM public.trade_items ti
+JOIN public.trades t ON t.id = ti.trade_id
+LEFT JOIN public.user_cards uc ON uc.id = ti.user_card_id
+WHERE t.status = 'accepted'
+GROUP BY ti.owner_id, ti.event_id
+ON CONFLICT (user_id, event_id) DO NOTHING;
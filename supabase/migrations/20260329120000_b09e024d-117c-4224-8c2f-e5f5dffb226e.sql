@@ -0,0 +1,96 @@
+-- Variant upgrades award badges and go live.
+-- Badges and the redemption broadcast only ran after a new user_cards row, so
+-- an extra copy or a fusion that upgraded the variant left variant badges
+-- unawarded and the ranking and feed stale. grant_card_copy(), which both paths
+-- go through, now does both when it upgrades a card. The broadcast marks
+-- upgrades so listeners do not count them as new redemptions.
+
+-- 1. Broadcast a card on the redemptions topic
+CREATE OR REPLACE FUNCTION public.send_card_redeemed(_card public.user_cards, _upgrade BOOLEAN)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _event public.events%ROWTYPE;
+BEGIN
+  SELECT * INTO _event FROM public.events WHERE id = _card.event_id;
+
+  -- A Realtime outage must never fail the redemption itself
+  BEGIN
+    PERFORM realtime.send(
+      jsonb_build_object(
+        'event_id', _card.event_id,
+        'season_id', _event.season_id,
+        'user_id', _card.user_id,
+        'rarity', _event.rarity,
+        'variant', _card.variant,
+        'redeemed_at', _card.redeemed_at,
+        'upgrade', _upgrade
+      ),
+      'card_redeemed',
+      'card-redemptions',
+      true
+    );
+  EXCEPTION WHEN OTHERS THEN
+    RAISE WARNING 'Could not broadcast redemption %: %', _card.id, SQLERRM;
+  END;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.send_card_redeemed(public.user_cards, BOOLEAN) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.broadcast_card_redeemed()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.send_card_redeemed(NEW, false);
+  RETURN NEW;
+END;
+$$;
+
+-- 2. Upgrades award badges and are broadcast like a redemption
+CREATE OR REPLACE FUNCTION public.grant_card_copy(
+  _user_id UUID,
+  _event_id UUID,
+  _variant public.card_variant,
+  _source TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _current public.card_variant;
+  _card public.user_cards%ROWTYPE;
+BEGIN
+  SELECT uc.variant INTO _current
+  FROM public.user_cards uc
+  WHERE uc.user_id = _user_id AND uc.event_id = _event_id;
+
+  IF public.variant_outranks(_variant, _current) THEN
+    UPDATE public.user_cards SET variant = _variant
+    WHERE user_id = _user_id AND event_id = _event_id
+    RETURNING * INTO _card;
+
+    INSERT INTO public.card_copies (user_id, event_id, variant, source)
+    VALUES (_user_id, _event_id, _current, _source);
+
+    PERFORM public.award_badges(_user_id);
+    PERFORM public.send_card_redeemed(_card, true);
+
+    RETURN true;
+  END IF;
+
+  INSERT INTO public.card_copies (user_id, event_id, variant, source)
+  VALUES (_user_id, _event_id, _variant, _source);
+
+  RETURN false;
+END;
+$$;
@@ -0,0 +1,145 @@
+-- Ranking ties use when members acquired their cards, not when they were redeemed.
+-- The tiebreak used each member's latest redeemed_at, which stays with a card
+-- when it is gifted or traded, so a collector could receive a card and still
+-- rank as if they had reached the score when it was first redeemed. Cards now
+-- carry acquired_at, which moves whenever the card changes hands or variant.
+
+-- 1. When the current owner got the card as it is now
+ALTER TABLE public.user_cards ADD COLUMN acquired_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL;
+
+UPDATE public.user_cards uc
+SET acquired_at = GREATEST(
+  uc.redeemed_at,
+  (SELECT MAX(g.claimed_at) FROM public.card_gifts g WHERE g.user_card_id = uc.id),
+  (SELECT MAX(t.responded_at)
+   FROM public.trade_items ti
+   JOIN public.trades t ON t.id = ti.trade_id
+   WHERE ti.user_card_id = uc.id AND t.status = 'accepted')
+);
+
+CREATE OR REPLACE FUNCTION public.touch_user_card_acquired_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.user_id IS DISTINCT FROM OLD.user_id OR NEW.variant IS DISTINCT FROM OLD.variant THEN
+    NEW.acquired_at := now();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER touch_user_card_acquired_at
+    BEFORE UPDATE OF user_id, variant ON public.user_cards
+    FOR EACH ROW
+    EXECUTE FUNCTION public.touch_user_card_acquired_at();
+
+-- 2. Expose when each member last acquired a card
+DROP VIEW IF EXISTS public.ranking_view;
+
+CREATE VIEW public.ranking_view
+WITH (security_invoker = on) AS
+SELECT
+  uc.user_id,
+  p.display_name,
+  p.avatar_url,
+  e.season_id,
+  COUNT(uc.id)::integer as card_count,
+  (COALESCE(SUM(rp.points), 0) + COALESCE(SUM(vp.points), 0))::integer as points,
+  COALESCE(SUM(rp.points), 0)::integer as rarity_points,
+  COALESCE(SUM(vp.points), 0)::integer as variant_points,
+  COUNT(*) FILTER (WHERE e.rarity = 'comum')::integer as comum_count,
+  COUNT(*) FILTER (WHERE e.rarity = 'raro')::integer as raro_count,
+  COUNT(*) FILTER (WHERE e.rarity = 'epico')::integer as epico_count,
+  COUNT(*) FILTER (WHERE e.rarity = 'lendario')::integer as lendario_count,
+  COUNT(*) FILTER (WHERE uc.variant = 'holografica')::integer as holografica_count,
+  COUNT(*) FILTER (WHERE uc.variant = 'edicao_diamante')::integer as edicao_diamante_count,
+  COUNT(*) FILTER (WHERE uc.variant = 'reliquia')::integer as reliquia_count,
+  MAX(uc.acquired_at) as last_acquired_at
+FROM public.user_cards uc
+INNER JOIN public.events_public e ON uc.event_id = e.id
+INNER JOIN public.profiles_public p ON uc.user_id = p.user_id
+LEFT JOIN public.rarity_points rp ON rp.rarity = e.rarity
+LEFT JOIN public.variant_points vp ON vp.variant = uc.variant
+GROUP BY uc.user_id, p.display_name, p.avatar_url, e.season_id;
+
+GRANT SELECT ON public.ranking_view TO authenticated;
+
+-- 3. Rank ties by the latest acquisition
+CREATE OR REPLACE FUNCTION public.get_ranking(_season_id UUID DEFAULT NULL, _mode TEXT DEFAULT 'points')
+RETURNS TABLE (
+  rank INTEGER,
+  user_id UUID,
+  display_name TEXT,
+  avatar_url TEXT,
+  card_count INTEGER,
+  points INTEGER,
+  rarity_points INTEGER,
+  variant_points INTEGER,
+  comum_count INTEGER,
+  raro_count INTEGER,
+  epico_count INTEGER,
+  lendario_count INTEGER,
+  holografica_count INTEGER,
+  edicao_diamante_count INTEGER,
+  reliquia_count INTEGER,
+  reached_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH closed AS (
+    SELECT EXISTS (
+      SELECT 1 FROM public.seasons s WHERE s.id = _season_id AND s.closed_at IS NOT NULL
+    ) AS is_closed
+  ),
+  totals AS (
+    SELECT
+      r.user_id,
+      MAX(r.display_name) AS display_name,
+      MAX(r.avatar_url) AS avatar_url,
+      SUM(r.card_count)::integer AS card_count,
+      SUM(r.points)::integer AS points,
+      SUM(r.rarity_points)::integer AS rarity_points,
+      SUM(r.variant_points)::integer AS variant_points,
+      SUM(r.comum_count)::integer AS comum_count,
+      SUM(r.raro_count)::integer AS raro_count,
+      SUM(r.epico_count)::integer AS epico_count,
+      SUM(r.lendario_count)::integer AS lendario_count,
+      SUM(r.holografica_count)::integer AS holografica_count,
+      SUM(r.edicao_diamante_count)::integer AS edicao_diamante_count,
+      SUM(r.reliquia_count)::integer AS reliquia_count,
+      MAX(r.last_acquired_at) AS reached_at
+    FROM public.ranking_view r, closed c
+    WHERE NOT c.is_closed
+      AND (_season_id IS NULL OR r.season_id = _season_id)
+    GROUP BY r.user_id
+    UNION ALL
+    SELECT
+      ss.user_id, ss.display_name, ss.avatar_url,
+      ss.card_count, ss.points, ss.rarity_points, ss.variant_points,
+      ss.comum_count, ss.raro_count, ss.epico_count, ss.lendario_count,
+      ss.holografica_count, ss.edicao_diamante_count, ss.reliquia_count,
+      ss.reached_at
+    FROM public.season_standings ss, closed c
+    WHERE c.is_closed AND ss.season_id = _season_id
+  ),
+  scored AS (
+    SELECT
+      t.*,
+      CASE WHEN _mode = 'count' THEN t.card_count ELSE t.points END AS primary_score,
+      CASE WHEN _mode = 'count' THEN t.points ELSE t.card_count END AS secondary_score
+    FROM totals t
+  )
+  SELECT
+    (RANK() OVER (ORDER BY s.primary_score DESC, s.secondary_score DESC))::integer,
+    s.user_id, s.display_name, s.avatar_url,
+    s.card_count, s.points, s.rarity_points, s.variant_points,
+    s.comum_count, s.raro_count, s.epico_count, s.lendario_count,
+    s.holografica_count, s.edicao_diamante_count, s.reliquia_count,
+    s.reached_at
+  FROM scored s
+  ORDER BY s.primary_score DESC, s.secondary_score DESC, s.reached_at ASC, s.user_id
+$$;
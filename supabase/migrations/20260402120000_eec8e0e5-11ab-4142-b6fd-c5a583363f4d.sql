@@ -0,0 +1,56 @@
+-- Shared codes for new events are drawn on the server.
+-- The admin client picked codes with Math.random and never checked them against
+-- other events, attendee codes or replaced codes, so a clash only surfaced as a
+-- failed insert. New events now get a free code from the column default; a clash
+-- with an event inserted at the same time still fails on the UNIQUE constraint
+-- and is retried by the client.
+
+-- 1. A code no event, attendee or replaced code uses yet
+CREATE OR REPLACE FUNCTION public.unused_redemption_code()
+RETURNS TEXT
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _max_attempts CONSTANT INTEGER := 10;
+  _code TEXT;
+BEGIN
+  FOR _attempt IN 1.._max_attempts LOOP
+    _code := public.random_redemption_code();
+
+    CONTINUE WHEN EXISTS (SELECT 1 FROM public.events e WHERE e.redemption_code = _code)
+      OR EXISTS (SELECT 1 FROM public.event_code_history h WHERE h.code = _code)
+      OR EXISTS (SELECT 1 FROM public.event_attendee_codes c WHERE c.code = _code);
+
+    RETURN _code;
+  END LOOP;
+
+  RAISE EXCEPTION 'Could not find a free code, try again' USING ERRCODE = '55000';
+END;
+$$;
+
+-- Column defaults run as the inserting user, so admins need to be able to call it
+REVOKE ALL ON FUNCTION public.unused_redemption_code() FROM PUBLIC, anon;
+
+GRANT EXECUTE ON FUNCTION public.unused_redemption_code() TO authenticated;
+
+ALTER TABLE public.events
+  ALTER COLUMN redemption_code SET DEFAULT public.unused_redemption_code();
+
+-- 2. The QR code carries the shared code unless the insert says otherwise
+CREATE OR REPLACE FUNCTION public.default_event_qr_code_data()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.qr_code_data := COALESCE(NEW.qr_code_data, NEW.redemption_code);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER default_event_qr_code_data
+    BEFORE INSERT ON public.events
+    FOR EACH ROW
+    EXECUTE FUNCTION public.default_event_qr_code_data();
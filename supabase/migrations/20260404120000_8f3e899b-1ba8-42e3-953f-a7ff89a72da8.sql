@@ -0,0 +1,49 @@
+-- A typed code resolves to one event, in a fixed order.
+-- New shared and attendee codes never reuse each other, but codes issued before
+-- that, or a rotating code that happens to match a printed one, could still
+-- point at two events, and LIMIT 1 without ORDER BY picked either. Printed codes
+-- now win over rotating ones, shared codes over attendee codes, and the oldest
+-- event breaks any remaining tie.
+
+-- 1. Resolve codes by priority
+CREATE OR REPLACE FUNCTION public.resolve_redemption_code(_code TEXT)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH normalized AS (SELECT upper(trim(_code)) AS code)
+  SELECT id FROM (
+    SELECT e.id, e.created_at, 1 AS priority
+    FROM public.events e, normalized n
+    WHERE e.redemption_code = n.code
+      AND NOT e.rotating_code
+      AND NOT e.single_use_codes
+      AND e.code_revoked_at IS NULL
+      AND public.event_is_public(e.status, e.publish_at)
+    UNION ALL
+    SELECT e.id, e.created_at, 2 AS priority
+    FROM public.events e
+    JOIN public.event_attendee_codes c ON c.event_id = e.id
+    CROSS JOIN normalized n
+    WHERE e.single_use_codes
+      AND c.code = n.code
+      AND public.event_is_public(e.status, e.publish_at)
+    UNION ALL
+    SELECT e.id, e.created_at, 3 AS priority
+    FROM public.events e
+    JOIN public.event_code_secrets s ON s.event_id = e.id
+    CROSS JOIN normalized n
+    WHERE e.rotating_code
+      AND public.event_is_public(e.status, e.publish_at)
+      AND n.code IN (
+        public.rotating_code_at(s.secret, public.rotation_window(e.rotation_seconds)),
+        public.rotating_code_at(s.secret, public.rotation_window(e.rotation_seconds) - 1)
+      )
+  ) matches
+  ORDER BY priority, created_at, id
+  LIMIT 1
+$$;
+
+REVOKE ALL ON FUNCTION public.resolve_redemption_code(TEXT) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,53 @@
+-- The redemption ledger records everyone who has held a card for an event.
+-- Cards were recorded when minted, and the backfill added every gift sender and
+-- trade partner whether they had redeemed the card or received it, but cards
+-- received through a gift or trade were never recorded when they moved. The
+-- ledger now follows the backfill's rule: a member who once held a card for an
+-- event, however they got it, cannot redeem that event again.
+
+-- 1. Record new owners as well as new cards
+CREATE OR REPLACE FUNCTION public.record_card_redemption()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.card_redemptions (user_id, event_id, redeemed_at)
+  VALUES (
+    NEW.user_id,
+    NEW.event_id,
+    CASE WHEN TG_OP = 'INSERT' THEN NEW.redeemed_at ELSE NEW.acquired_at END
+  )
+  ON CONFLICT (user_id, event_id) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_card_redemption_on_user_card ON public.user_cards;
+
+CREATE TRIGGER record_card_redemption_on_user_card
+    AFTER INSERT OR UPDATE OF user_id ON public.user_cards
+    FOR EACH ROW
+    EXECUTE FUNCTION public.record_card_redemption();
+
+-- 2. Backfill members who received a card and have passed it on since
+INSERT INTO public.card_redemptions (user_id, event_id, redeemed_at)
+SELECT g.recipient_id, g.event_id, MIN(g.claimed_at)
+FROM public.card_gifts g
+WHERE g.claimed_at IS NOT NULL
+  AND g.recipient_id IS NOT NULL
+GROUP BY g.recipient_id, g.event_id
+ON CONFLICT (user_id, event_id) DO NOTHING;
+
+INSERT INTO public.card_redemptions (user_id, event_id, redeemed_at)
+SELECT
+  CASE WHEN ti.owner_id = t.proposer_id THEN t.recipient_id ELSE t.proposer_id END,
+  ti.event_id,
+  COALESCE(MIN(t.responded_at), MIN(t.created_at))
+FROM public.trade_items ti
+JOIN public.trades t ON t.id = ti.trade_id
+WHERE t.status = 'accepted'
+GROUP BY 1, ti.event_id
+ON CONFLICT (user_id, event_id) DO NOTHING;
@@ -0,0 +1,69 @@
+-- Closing a season awards the badges it completes.
+-- Season and supreme collector badges are only met once a season has ended,
+-- but badges were evaluated when a member got a card, so collectors who had
+-- every card before the end never received them unless an admin re-ran the
+-- evaluation. close_season() now evaluates every member's badges.
+
+-- 1. Award badges when a season is closed
+CREATE OR REPLACE FUNCTION public.close_season(_season_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _season public.seasons%ROWTYPE;
+  _ranked INTEGER;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can close seasons' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO _season FROM public.seasons WHERE id = _season_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Season not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _season.closed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Season is already closed' USING ERRCODE = '55000';
+  END IF;
+
+  IF _season.end_date >= (now() AT TIME ZONE public.org_timezone())::date THEN
+    RAISE EXCEPTION 'Season has not ended yet' USING ERRCODE = '55000';
+  END IF;
+
+  -- Ranked by points, the default leaderboard
+  INSERT INTO public.season_standings (
+    season_id, user_id, rank, display_name, avatar_url,
+    card_count, points, rarity_points, variant_points,
+    comum_count, raro_count, epico_count, lendario_count,
+    holografica_count, edicao_diamante_count, reliquia_count, reached_at
+  )
+  SELECT
+    _season_id, r.user_id, r.rank, r.display_name, r.avatar_url,
+    r.card_count, r.points, r.rarity_points, r.variant_points,
+    r.comum_count, r.raro_count, r.epico_count, r.lendario_count,
+    r.holografica_count, r.edicao_diamante_count, r.reliquia_count, r.reached_at
+  FROM public.get_ranking(_season_id, 'points') r;
+
+  GET DIAGNOSTICS _ranked = ROW_COUNT;
+
+  -- Draft the podium; admins confirm (or adjust) it afterwards
+  INSERT INTO public.season_winners (season_id, user_id, place, display_name, avatar_url)
+  SELECT ss.season_id, ss.user_id, ss.rank, ss.display_name, ss.avatar_url
+  FROM public.season_standings ss
+  WHERE ss.season_id = _season_id AND ss.rank <= 3;
+
+  UPDATE public.seasons SET closed_at = now() WHERE id = _season_id;
+
+  -- Collector badges for this season can only be met from now on
+  PERFORM public.evaluate_all_badges();
+
+  RETURN _ranked;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.close_season(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.close_season(UUID) TO authenticated;